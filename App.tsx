@@ -1,57 +1,62 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { AnalysisResult } from './types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { AlertSettings, AnalysisRequest, AnalysisResult, CoachingTopic, ConversationTurn, DraftVersion, FeedbackRating, FeedbackRecord, FlaggedPhrase, GuardChoice, GuardLogEntry, GuardSettings, HistoryEntry, ImageAttachment, PartialAnalysisResult, RecipientProfile, SuggestionAlternative, SuggestionRefinement } from './types';
 import { analyzeContent } from './services/geminiService';
+import { createAnalysisRequestManager } from './services/analysisRequestManager';
+import { AnalysisError, isRetryableError } from './services/analysisErrors';
+import { screenText, shouldEscalate } from './services/toneScreening';
+import { DEFAULT_TOPIC_ID, MAX_TOPIC_LENGTH, getLocalizedList, getLocalizedText, getTopicInstruction } from './services/coachingTopics';
+import { loadTopics, saveTopic, deleteTopic, importTopics, exportTopics } from './services/topicStore';
+import { loadRecipients, saveRecipient, deleteRecipient, toRecipientContext } from './services/recipientStore';
+import { formatConversation, hasThreadContent } from './services/conversationThread';
+import { loadHistory, saveHistoryEntry, deleteHistoryEntry, clearHistory } from './services/historyStore';
+import { createId } from './services/ids';
+import { UtteranceSegmenter, createUtteranceSegmenter } from './services/utteranceSegmenter';
+import { SpeechToTextEngine, SpeechToTextError } from './services/speechToText';
+import { createSpeechToText } from './services/speechService';
+import { AudioClip, AudioClipRecorder, createAudioClipRecorder } from './services/audioClipRecorder';
+import { MAX_IMAGES, getImageFiles, prepareImage } from './services/imageAttachments';
+import { extractTranscript, isTranscriptExtractionAvailable } from './services/transcriptExtraction';
+import { loadFeedback, submitFeedback, startFeedbackSync, exportFeedbackJson, exportFeedbackCsv } from './services/feedbackStore';
+import { downloadTextFile, printHtml } from './services/fileDownload';
+import { CropRegion, FrameMonitor, FrameMonitorOptions, FrameMonitorStatus, createFrameMonitor, sampleFrame } from './services/frameMonitor';
+import { AlertMatch, evaluateAlertRules } from './services/alertRules';
+import { loadAlertSettings, saveAlertSettings } from './services/alertSettingsStore';
+import { clearGuardLog, loadGuardLog, loadGuardSettings, logGuardChoice, saveGuardSettings } from './services/guardStore';
+import { getGuardState } from './services/coolDownGuard';
+import { playAlertSound, requestNotificationPermission, showNotification } from './services/alertNotifier';
+import { ReportFormat, ReportLabels, SessionReport, reportToHtml, reportToJson, reportToMarkdown } from './services/reportExport';
 import TemperatureGauge from './components/TemperatureGauge';
-import SuggestionCard from './components/SuggestionCard';
+import SuggestionCard, { getFeedbackKey } from './components/SuggestionCard';
+import SuggestionDiff from './components/SuggestionDiff';
+import VersionChain from './components/VersionChain';
 import ImpactAnalysisCard from './components/ImpactAnalysisCard';
 import EmotionChart from './components/EmotionChart';
+import ThreadEditor from './components/ThreadEditor';
+import HistoryPanel from './components/HistoryPanel';
+import AnnotatedText from './components/AnnotatedText';
+import ScreeningFlags from './components/ScreeningFlags';
+import TopicManager from './components/TopicManager';
+import RecipientManager from './components/RecipientManager';
+import CropSelector from './components/CropSelector';
+import VoiceConversation from './components/VoiceConversation';
+import AlertBanner from './components/AlertBanner';
+import AlertSettingsPanel from './components/AlertSettingsPanel';
+import CoolDownGuard from './components/CoolDownGuard';
+import GuardSettingsPanel from './components/GuardSettingsPanel';
+import ImageAttachmentList from './components/ImageAttachmentList';
 import { WandIcon, UploadIcon, TrashIcon, MicrophoneIcon } from './components/IconComponents';
-import { translations, Language } from './translations';
-
-// Fix: Add TypeScript interfaces for the Web Speech API to resolve 'Cannot find name 'SpeechRecognition''.
-// These are not included in default DOM typings.
-interface SpeechRecognitionAlternative {
-  readonly transcript: string;
-  readonly confidence: number;
-}
-
-interface SpeechRecognitionResult {
-  readonly isFinal: boolean;
-  readonly length: number;
-  item(index: number): SpeechRecognitionAlternative;
-  [index: number]: SpeechRecognitionAlternative;
-}
-
-interface SpeechRecognitionResultList {
-  readonly length: number;
-  item(index: number): SpeechRecognitionResult;
-  [index: number]: SpeechRecognitionResult;
-}
-
-interface SpeechRecognitionEvent extends Event {
-  readonly resultIndex: number;
-  readonly results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  readonly error: string;
-  readonly message: string;
-}
-
-// FIX: Renamed interface to avoid collision with native browser type.
-interface SpeechRecognitionService extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  onresult: (event: SpeechRecognitionEvent) => void;
-  onerror: (event: SpeechRecognitionErrorEvent) => void;
-  onend: () => void;
-}
-
-type SocialTopic = 'general' | 'gender-equality' | 'human-rights' | 'violence-prevention' | 'workplace-conflict';
-type FeedbackState = 'none' | 'submitted';
+import { translations, Language, errorMessageKeys } from './translations';
+
+type InputMode = 'single' | 'thread' | 'voice';
+
+const inputModeLabels: { [key in InputMode]: keyof typeof translations.en } = {
+    single: 'modeSingle',
+    thread: 'modeThread',
+    voice: 'modeVoice',
+};
+
+// Silence after which a spoken utterance is closed even if recognition has not finalized it.
+const UTTERANCE_PAUSE_MS = 1500;
 
 const speechLangMap: { [key in Language]: string } = {
     en: 'en-US',
@@ -62,52 +67,248 @@ const speechLangMap: { [key in Language]: string } = {
     zh: 'zh-CN',
 };
 
+type MonitorSensitivity = 'low' | 'medium' | 'high';
+
+// Fraction of the shared screen that must change before a frame is sent for analysis.
+const changeThresholds: { [key in MonitorSensitivity]: number } = {
+    low: 0.08,
+    medium: 0.03,
+    high: 0.01,
+};
+
+const monitorIntervals = [3000, 5000, 10000, 30000];
+const alertCooldowns = [30_000, 60_000, 120_000, 300_000];
+const guardTimers = [10, 30, 60, 120];
+const DEFAULT_MONITOR_INTERVAL_MS = 5000;
+
+// Shared across renders so the result cache survives remounts.
+const analysisRequests = createAnalysisRequestManager();
+
 const App: React.FC = () => {
+  const [inputMode, setInputMode] = useState<InputMode>('single');
   const [inputText, setInputText] = useState<string>('');
-  const [imageBase64, setImageBase64] = useState<string | null>(null);
-  const [imageMimeType, setImageMimeType] = useState<string | null>(null);
+  const [threadTurns, setThreadTurns] = useState<ConversationTurn[]>([]);
+  // Screenshots of one conversation, in reading order.
+  const [images, setImages] = useState<ImageAttachment[]>([]);
+  const [isDraggingImages, setIsDraggingImages] = useState(false);
+  const [isExtractingTranscript, setIsExtractingTranscript] = useState(false);
+  // True while the thread editor holds a transcript read from screenshots that the user has not started over from.
+  const [isTranscriptFromImages, setIsTranscriptFromImages] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  // Fields of the in-flight analysis, shown until the complete result arrives.
+  const [partialResult, setPartialResult] = useState<PartialAnalysisResult | null>(null);
   const [analysisHistory, setAnalysisHistory] = useState<AnalysisResult[]>([]);
+  // The drafts a single message went through by applying suggestions, oldest first.
+  const [draftVersions, setDraftVersions] = useState<DraftVersion[]>([]);
+  // The follow-up instruction the shown suggestion was refined with, if any.
+  const [suggestionInstruction, setSuggestionInstruction] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isAnalyzingFrame, setIsAnalyzingFrame] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [language, setLanguage] = useState<Language>('en');
-  const [socialTopic, setSocialTopic] = useState<SocialTopic>('general');
+  const [socialTopic, setSocialTopic] = useState(DEFAULT_TOPIC_ID);
+  const [topics, setTopics] = useState<CoachingTopic[]>(loadTopics);
+  const [isTopicManagerVisible, setIsTopicManagerVisible] = useState(false);
+  const [recipients, setRecipients] = useState<RecipientProfile[]>(loadRecipients);
+  // Null when the message is not for anyone in particular.
+  const [recipientId, setRecipientId] = useState<string | null>(null);
+  const [isRecipientManagerVisible, setIsRecipientManagerVisible] = useState(false);
   const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [monitorIntervalMs, setMonitorIntervalMs] = useState(DEFAULT_MONITOR_INTERVAL_MS);
+  const [monitorSensitivity, setMonitorSensitivity] = useState<MonitorSensitivity>('medium');
+  const [cropRegion, setCropRegion] = useState<CropRegion | null>(null);
+  const [monitorStatus, setMonitorStatus] = useState<{ status: FrameMonitorStatus; nextCheckMs: number } | null>(null);
   const [isRecording, setIsRecording] = useState(false);
-  const [feedbackState, setFeedbackState] = useState<FeedbackState>('none');
+  const [voiceSpeakers, setVoiceSpeakers] = useState<string[]>([]);
+  const [activeSpeakerIndex, setActiveSpeakerIndex] = useState(0);
+  const [interimTranscript, setInterimTranscript] = useState('');
+  const [includeVocalTone, setIncludeVocalTone] = useState(false);
+  // The recording behind the current draft, analyzed for vocal cues.
+  const [audioClip, setAudioClip] = useState<AudioClip | null>(null);
+  const [submittedFeedback, setSubmittedFeedback] = useState<string[]>([]);
+  const [savedHistory, setSavedHistory] = useState<HistoryEntry[]>(loadHistory);
+  const [isHistoryVisible, setIsHistoryVisible] = useState(false);
+  const [feedbackRecords, setFeedbackRecords] = useState<FeedbackRecord[]>(loadFeedback);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+  const [isAlertSettingsVisible, setIsAlertSettingsVisible] = useState(false);
+  const [activeAlert, setActiveAlert] = useState<string[] | null>(null);
+  const [guardSettings, setGuardSettings] = useState<GuardSettings>(loadGuardSettings);
+  const [isGuardSettingsVisible, setIsGuardSettingsVisible] = useState(false);
+  const [guardLog, setGuardLog] = useState<GuardLogEntry[]>(loadGuardLog);
+  const [isGuardUnlocked, setIsGuardUnlocked] = useState(false);
+  // The last score of the current draft, which survives the re-analysis of an edit, so the
+  // guard does not let go while the new result is loading. Cleared once the draft screens calm.
+  const [guardTemperature, setGuardTemperature] = useState<number | undefined>(undefined);
+  // Bumped whenever the cool-down starts over, so the guard drops its timer and reflection.
+  const [guardRound, setGuardRound] = useState(0);
+  // Choices already logged for the current draft, so repeated copies count once.
+  const guardLoggedRef = useRef(new Set<string>());
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const analysisIntervalRef = useRef<number | null>(null);
-  const isAnalyzingFrameRef = useRef(false);
+  const frameMonitorRef = useRef<FrameMonitor | null>(null);
+  const monitorOptionsRef = useRef<FrameMonitorOptions>({
+    intervalMs: DEFAULT_MONITOR_INTERVAL_MS,
+    changeThreshold: changeThresholds.medium,
+    crop: null,
+  });
+  const lastAlertAtRef = useRef(0);
+  const lastCheckedResultRef = useRef<AnalysisResult | null>(null);
   const baseTextRef = useRef('');
+  // Each draft gets one history entry that is updated as auto-analysis re-runs;
+  // applied suggestions are kept in it as versions rather than replacing it.
+  const draftIdRef = useRef(createId());
+  const reopenedTextRef = useRef<string | null>(null);
 
   // Speech Recognition setup
-  const speechRecognitionRef = useRef<SpeechRecognitionService | null>(null);
-  const SpeechRecognitionAPI = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-  const isSpeechRecognitionSupported = !!SpeechRecognitionAPI;
+  const speechEngineRef = useRef<SpeechToTextEngine | null>(null);
+  const utteranceSegmenterRef = useRef<UtteranceSegmenter | null>(null);
+  const audioClipRecorderRef = useRef<AudioClipRecorder | null>(null);
+  // Read by recognition callbacks, which outlive a single render.
+  const inputModeRef = useRef<InputMode>('single');
+  const activeSpeakerRef = useRef('');
   
-  const handleAnalyze = useCallback(async () => {
-    if ((!inputText.trim() && !imageBase64) || isLoading) return;
+  const t = useCallback((key: keyof typeof translations.en) => {
+    return translations[language][key] || translations.en[key];
+  }, [language]);
+
+  // Technical details go to the console; users get a localized explanation.
+  const describeError = useCallback((err: unknown) => {
+    console.error('Analysis failed:', err);
+    return t(errorMessageKeys[err instanceof AnalysisError ? err.code : 'unknown']);
+  }, [t]);
+
+  const describeSpeechError = useCallback((err: unknown) => {
+    if (err instanceof SpeechToTextError) {
+      return t(err.code === 'unsupported' ? 'micNotSupportedError' : 'micPermissionError');
+    }
+    // Recorded audio is transcribed by the analysis server, so its failures read the same way.
+    return describeError(err);
+  }, [t, describeError]);
+
+  // Voice conversations are analyzed like typed threads.
+  const isThreadMode = inputMode !== 'single';
+  const isVoiceMode = inputMode === 'voice';
+  // A deleted topic can linger in reopened history entries; coach those as general.
+  const activeTopic = topics.find(({ id }) => id === socialTopic) ?? topics[0];
+  const topicInstruction = getTopicInstruction(activeTopic, language);
+  const topicExamples = getLocalizedList(activeTopic.examples, language);
+  const activeRecipient = recipients.find(({ id }) => id === recipientId) ?? null;
+  const hasImages = images.length > 0;
+  const hasInput = isThreadMode ? hasThreadContent(threadTurns) : !!inputText.trim() || hasImages;
+  // Instant local scoring; the model is only called for drafts that look heated.
+  const screening = useMemo(() => screenText(inputText, language), [inputText, language]);
+  const needsModelAnalysis = shouldEscalate(screening);
+  const guardSuggestion = analysisResult?.suggestion ?? partialResult?.suggestion;
+  const { isEngaged: isGuardEngaged, isShown: isGuardShown, blocksCopy: isDraftCopyBlocked } = getGuardState({
+    settings: guardSettings,
+    temperature: guardTemperature,
+    isDraft: !isThreadMode && !hasImages && !isScreenSharing && !!inputText.trim(),
+    suggestion: guardSuggestion,
+    isUnlocked: isGuardUnlocked,
+  });
+  // A word diff only means something when the suggestion rewrites the typed draft itself.
+  const canShowChanges = !isThreadMode && !hasImages && !isScreenSharing && !!inputText.trim();
+
+  // `applied` analyzes a suggestion that was just moved into the draft, before the state update lands;
+  // `refinement` asks for a revision of the shown suggestion instead of a fresh one.
+  const handleAnalyze = useCallback(async (options: { applied?: { text: string; instruction?: string }; refinement?: SuggestionRefinement } = {}) => {
+    const { applied, refinement } = options;
+    if (!hasInput && !applied) return;
 
     setIsLoading(true);
     setError(null);
-    setAnalysisResult(null);
-    setFeedbackState('none');
+    // In voice mode the previous result stays up so the live chart does not flicker.
+    if (!isVoiceMode) setAnalysisResult(null);
+    setPartialResult(null);
+    setSubmittedFeedback([]);
+
+    const turns = threadTurns.filter(turn => turn.text.trim());
+    const text = applied?.text ?? inputText;
+    // A recording belongs to the draft it was made for, not to a rewrite of it.
+    const clip = applied ? null : audioClip;
+    const recipient = activeRecipient ? toRecipientContext(activeRecipient) : undefined;
+    const request: AnalysisRequest = isThreadMode
+      ? { text: formatConversation(turns), language, socialTopic, topic: topicInstruction, turns, refinement, recipient }
+      : {
+          text, language, socialTopic, topic: topicInstruction,
+          images: hasImages ? images : undefined,
+          audioBase64: clip?.base64, audioMimeType: clip?.mimeType,
+          refinement, recipient,
+        };
 
     try {
-      const result = await analyzeContent(inputText, language, socialTopic, imageBase64 ?? undefined, imageMimeType ?? undefined);
+      const result = await analysisRequests.run(request, setPartialResult);
+      // A newer request (or a cancel) has taken over the loading state.
+      if (!result) return;
       setAnalysisResult(result);
       setAnalysisHistory(prev => [...prev, result].slice(-15)); // Keep last 15 results
+      setSuggestionInstruction(refinement?.instruction ?? null);
+      // Applying a suggestion starts a new version; re-analyzing typed edits updates the current one.
+      const versions = isThreadMode || hasImages ? undefined
+        : refinement ? draftVersions
+        : applied ? [...draftVersions, { text, temperature: result.temperature, instruction: applied.instruction }]
+        : [...draftVersions.slice(0, -1), { text, temperature: result.temperature, instruction: draftVersions[draftVersions.length - 1]?.instruction }];
+      if (versions) {
+        setDraftVersions(versions);
+        setGuardTemperature(versions[versions.length - 1].temperature);
+      }
+      const now = Date.now();
+      setSavedHistory(saveHistoryEntry({
+        id: draftIdRef.current,
+        createdAt: now,
+        updatedAt: now,
+        mode: isThreadMode ? 'thread' : 'single',
+        text: isThreadMode ? '' : text,
+        turns: isThreadMode ? turns : undefined,
+        hadImage: !isThreadMode && hasImages,
+        language,
+        socialTopic,
+        recipientId: activeRecipient?.id,
+        result,
+        versions,
+      }));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
-    } finally {
-      setIsLoading(false);
+      setError(describeError(err));
     }
-  }, [inputText, isLoading, language, imageBase64, imageMimeType, socialTopic]);
+    setPartialResult(null);
+    setIsLoading(false);
+  }, [hasInput, isThreadMode, isVoiceMode, threadTurns, inputText, language, images, hasImages, audioClip, socialTopic, topicInstruction, activeRecipient, draftVersions, describeError]);
+
+  // The suggestion becomes the draft and always goes to the model, even when it screens as calm,
+  // so its temperature can be compared with the versions before it.
+  const handleApplySuggestion = (suggestion: string) => {
+    reopenedTextRef.current = suggestion;
+    setInputText(suggestion);
+    setAudioClip(null);
+    handleAnalyze({ applied: { text: suggestion, instruction: suggestionInstruction ?? undefined } });
+  };
+
+  const handleRefineSuggestion = (refinement: SuggestionRefinement) => {
+    handleAnalyze({ refinement });
+  };
+
+  const handleApplyRewrite = (phrase: FlaggedPhrase) => {
+    const rewrite = phrase.rewrite ?? '';
+    if (inputText.slice(phrase.start, phrase.end) !== phrase.text) return;
+    setInputText(inputText.slice(0, phrase.start) + rewrite + inputText.slice(phrase.end));
+    // Shift the remaining highlights so further rewrites still line up before re-analysis lands.
+    const shift = rewrite.length - phrase.text.length;
+    setAnalysisResult(prev => prev?.phrases ? {
+      ...prev,
+      phrases: prev.phrases
+        .filter(other => other !== phrase)
+        .map(other => other.start > phrase.start ? { ...other, start: other.start + shift, end: other.end + shift } : other),
+    } : prev);
+  };
+
+  const cancelAnalysis = () => {
+    analysisRequests.cancel();
+    setPartialResult(null);
+    setIsLoading(false);
+  };
 
   const analysisFnRef = useRef(handleAnalyze);
   useEffect(() => {
@@ -115,50 +316,99 @@ const App: React.FC = () => {
   }, [handleAnalyze]);
 
 
-  const t = useCallback((key: keyof typeof translations.en) => {
-    return translations[language][key] || translations.en[key];
-  }, [language]);
+  // Uploads, drops and pastes all append, so a long thread can be assembled screenshot by screenshot.
+  const handleAddImages = async (files: File[]) => {
+    if (files.length === 0) return;
+    const room = MAX_IMAGES - images.length;
+    const accepted = files.slice(0, Math.max(0, room));
+    if (accepted.length < files.length) {
+      setError(t('imageLimitError').replace('{max}', String(MAX_IMAGES)));
+    }
+    if (accepted.length === 0) return;
+    try {
+      if (isScreenSharing) stopScreenSharing();
+      // One at a time: decoding several full-size screenshots at once can exhaust memory on phones.
+      const prepared: ImageAttachment[] = [];
+      for (const file of accepted) {
+        prepared.push(await prepareImage(file));
+      }
+      setImages(prev => [...prev, ...prepared].slice(0, MAX_IMAGES));
+      if (accepted.length === files.length) setError(null);
+    } catch (err) {
+      setError(t('imageLoadError'));
+    }
+  };
 
-  const fileToBase64 = (file: File): Promise<string> =>
-    new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve((reader.result as string).split(',')[1]);
-      reader.onerror = (error) => reject(error);
-  });
+  const handleImageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleAddImages(Array.from(event.target.files ?? []));
+    // Lets the same file be picked again after it was removed.
+    event.target.value = '';
+  };
+
+  const handleMoveImage = (index: number, offset: -1 | 1) => {
+    setImages(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
 
-  const handleImageChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      if (file.size > 4 * 1024 * 1024) { // 4MB limit
-        setError(t('imageSizeError'));
+  const handleRemoveImage = (index: number) => {
+    setImages(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // The transcript lands in the thread editor, where misread messages can be fixed before the per-turn analysis.
+  const handleExtractTranscript = async () => {
+    if (!hasImages) return;
+    setIsExtractingTranscript(true);
+    setError(null);
+    try {
+      const turns = await extractTranscript({ images, selfSpeaker: t('speakerMe') });
+      if (turns.length === 0) {
+        setError(t('transcriptEmpty'));
         return;
       }
-      try {
-        stopScreenSharing();
-        const base64 = await fileToBase64(file);
-        setImageBase64(base64);
-        setImageMimeType(file.type);
-        setError(null);
-      } catch (err) {
-        setError(t('imageLoadError'));
-      }
+      handleModeChange('thread');
+      setThreadTurns(turns);
+      setIsTranscriptFromImages(true);
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setIsExtractingTranscript(false);
     }
   };
 
-  const handleRemoveImage = () => {
-    setImageBase64(null);
-    setImageMimeType(null);
-    if(fileInputRef.current) {
-      fileInputRef.current.value = '';
+  const canDropImages = !isLoading && !isScreenSharing;
+
+  const handleImageDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!canDropImages || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDraggingImages(true);
+  };
+
+  const handleImageDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setIsDraggingImages(false);
     }
   };
+
+  const handleImageDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    setIsDraggingImages(false);
+    if (!canDropImages) return;
+    event.preventDefault();
+    handleAddImages(getImageFiles(event.dataTransfer));
+  };
+
+  const handleImagePaste = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    const files = getImageFiles(event.clipboardData);
+    if (!canDropImages || files.length === 0) return;
+    event.preventDefault();
+    handleAddImages(files);
+  };
     
   const stopScreenSharing = useCallback(() => {
-    if (analysisIntervalRef.current) {
-      clearInterval(analysisIntervalRef.current);
-      analysisIntervalRef.current = null;
-    }
+    frameMonitorRef.current?.stop();
+    frameMonitorRef.current = null;
     if (mediaStreamRef.current) {
       mediaStreamRef.current.getTracks().forEach(track => track.stop());
       mediaStreamRef.current = null;
@@ -168,178 +418,440 @@ const App: React.FC = () => {
     }
     setIsScreenSharing(false);
     setAnalysisResult(null);
+    setCropRegion(null);
+    setMonitorStatus(null);
   }, []);
 
-  const analyzeFrame = useCallback(async () => {
-    if (isAnalyzingFrameRef.current || !videoRef.current || !canvasRef.current) {
-      return;
-    }
-    isAnalyzingFrameRef.current = true;
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    const context = canvas.getContext('2d');
-    if (!context) {
-        isAnalyzingFrameRef.current = false;
-        return;
-    }
-    context.drawImage(video, 0, 0, canvas.width, canvas.height);
-    const frameDataUrl = canvas.toDataURL('image/jpeg', 0.8);
-    const frameBase64 = frameDataUrl.split(',')[1];
+  // Errors propagate to the frame monitor, which decides whether to retry.
+  const analyzeFrame = useCallback(async (frameBase64: string) => {
     setIsAnalyzingFrame(true);
     setError(null);
-    setFeedbackState('none');
+    setSubmittedFeedback([]);
     try {
-      const result = await analyzeContent(inputText, language, socialTopic, frameBase64, 'image/jpeg');
+      const recipient = activeRecipient ? toRecipientContext(activeRecipient) : undefined;
+      const result = await analyzeContent(inputText, language, socialTopic, [{ base64: frameBase64, mimeType: 'image/jpeg' }], topicInstruction, recipient);
       if (mediaStreamRef.current) {
         setAnalysisResult(result);
         setAnalysisHistory(prev => [...prev, result].slice(-15)); // Keep last 15 results
       }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
-      stopScreenSharing();
     } finally {
       setIsAnalyzingFrame(false);
-      isAnalyzingFrameRef.current = false;
     }
-  }, [inputText, language, stopScreenSharing, socialTopic]);
-  
+  }, [inputText, language, socialTopic, topicInstruction, activeRecipient]);
+
+  // Errors that retrying cannot fix end the session instead of leaving a stalled share running.
+  const handleFrameError = useCallback((err: unknown) => {
+    setError(describeError(err));
+    const retryable = isRetryableError(err);
+    if (!retryable) stopScreenSharing();
+    return retryable;
+  }, [describeError, stopScreenSharing]);
+
   const analysisFrameFnRef = useRef(analyzeFrame);
+  const frameErrorFnRef = useRef(handleFrameError);
   useEffect(() => {
     analysisFrameFnRef.current = analyzeFrame;
-  }, [analyzeFrame]);
+    frameErrorFnRef.current = handleFrameError;
+  }, [analyzeFrame, handleFrameError]);
+
+  useEffect(() => {
+    monitorOptionsRef.current = {
+      intervalMs: monitorIntervalMs,
+      changeThreshold: changeThresholds[monitorSensitivity],
+      crop: cropRegion,
+    };
+  }, [monitorIntervalMs, monitorSensitivity, cropRegion]);
+
+  // New context text changes the analysis, so the next sample is analyzed even if the screen is unchanged.
+  useEffect(() => {
+    frameMonitorRef.current?.reset();
+  }, [inputText]);
+
+  // An edited draft is a new draft, and a new result a new suggestion: the cool-down starts over.
+  useEffect(() => {
+    setIsGuardUnlocked(false);
+    setGuardRound(round => round + 1);
+    guardLoggedRef.current.clear();
+  }, [inputText, analysisResult]);
+
+  // The video element only renders once sharing has started.
+  useEffect(() => {
+    if (isScreenSharing && videoRef.current && mediaStreamRef.current) {
+      videoRef.current.srcObject = mediaStreamRef.current;
+    }
+  }, [isScreenSharing]);
 
   const startScreenSharing = async () => {
     try {
-      handleRemoveImage();
+      setImages([]);
       const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
       mediaStreamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-      }
       setIsScreenSharing(true);
       stream.getVideoTracks()[0].onended = () => {
           stopScreenSharing();
       };
-      analysisIntervalRef.current = window.setInterval(() => {
-        analysisFrameFnRef.current();
-      }, 5000);
+      const monitor = createFrameMonitor({
+        getOptions: () => monitorOptionsRef.current,
+        sample: crop => videoRef.current && canvasRef.current ? sampleFrame(videoRef.current, canvasRef.current, crop) : null,
+        analyze: frameBase64 => analysisFrameFnRef.current(frameBase64),
+        onError: err => frameErrorFnRef.current(err),
+        onStatus: (status, nextCheckMs) => setMonitorStatus({ status, nextCheckMs }),
+      });
+      frameMonitorRef.current = monitor;
+      monitor.start();
     } catch (err) {
       console.error("Screen share error:", err);
-      setError("Failed to start screen sharing. Please ensure permissions are granted.");
+      setError(t('screenShareError'));
       setIsScreenSharing(false);
     }
   };
 
+  const finishAudioClip = useCallback(() => {
+    const recorder = audioClipRecorderRef.current;
+    audioClipRecorderRef.current = null;
+    recorder?.stop().then(clip => clip && setAudioClip(clip));
+  }, []);
+
   const handleToggleRecording = () => {
-    if (!isSpeechRecognitionSupported) {
+    const engine = speechEngineRef.current;
+    if (!engine) {
         setError(t('micNotSupportedError'));
         return;
     }
-    const recognition = speechRecognitionRef.current;
-    if (!recognition) return;
 
     if (isRecording) {
-        recognition.stop();
+        engine.stop();
+        finishAudioClip();
         setIsRecording(false);
     } else {
-        navigator.mediaDevices.getUserMedia({ audio: true })
+        baseTextRef.current = inputText;
+        utteranceSegmenterRef.current?.reset();
+        setAudioClip(null);
+        engine.start(speechLangMap[language])
             .then(() => {
-                baseTextRef.current = inputText;
-                recognition.lang = speechLangMap[language];
-                recognition.start();
                 setIsRecording(true);
                 setError(null);
+                if (includeVocalTone && !isThreadMode) {
+                    const recorder = createAudioClipRecorder();
+                    audioClipRecorderRef.current = recorder;
+                    // Without a clip the words are still analyzed, just without vocal cues.
+                    recorder.start().catch(err => console.error('Failed to record a voice clip:', err));
+                }
             })
-            .catch(() => {
-                setError(t('micPermissionError'));
+            .catch((err) => {
+                setError(describeSpeechError(err));
                 setIsRecording(false);
             });
     }
   };
 
-  const handleFeedback = (type: 'like' | 'dislike', comment?: string) => {
-    console.log('--- Feedback Submitted ---');
-    console.log('Type:', type);
-    console.log('Original Text:', inputText);
-    console.log('AI Suggestion:', analysisResult?.suggestion);
-    if (comment) {
-      console.log('Comment:', comment);
+  const handleRenameSpeaker = (index: number, name: string) => {
+    const previous = voiceSpeakers[index];
+    setVoiceSpeakers(speakers => speakers.map((speaker, i) => (i === index ? name : speaker)));
+    setThreadTurns(turns => turns.map(turn => (turn.speaker === previous ? { ...turn, speaker: name } : turn)));
+  };
+
+  const handleModeChange = (mode: InputMode) => {
+    if (mode === inputMode) return;
+    if (isScreenSharing) stopScreenSharing();
+    if (isRecording) speechEngineRef.current?.stop();
+    cancelAnalysis();
+    setIsTranscriptFromImages(false);
+    if (mode === 'thread' && threadTurns.length === 0) {
+      setThreadTurns([{ speaker: t('speakerOther'), text: '' }, { speaker: t('speakerMe'), text: '' }]);
     }
-    console.log('------------------------');
-    setFeedbackState('submitted');
+    if (mode === 'voice') {
+      // Spoken utterances are appended, so drop the empty placeholders of the typed thread.
+      setThreadTurns(turns => turns.filter(turn => turn.text.trim()));
+      if (voiceSpeakers.length === 0) setVoiceSpeakers([t('speakerMe'), t('speakerOther')]);
+    }
+    setInputMode(mode);
+    setAnalysisResult(null);
+    setAnalysisHistory([]);
+    setDraftVersions([]);
+    setGuardTemperature(undefined);
+    setSuggestionInstruction(null);
+    setError(null);
+    setSubmittedFeedback([]);
+    draftIdRef.current = createId();
   };
 
-  useEffect(() => {
-    if (!isSpeechRecognitionSupported) {
-        console.warn("Speech recognition not supported by this browser.");
-        return;
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    if (isScreenSharing) stopScreenSharing();
+    if (isRecording) speechEngineRef.current?.stop();
+    cancelAnalysis();
+    setImages([]);
+    setIsTranscriptFromImages(false);
+    setInputMode(entry.mode);
+    if (entry.mode === 'thread') {
+      setThreadTurns(entry.turns ?? []);
+    } else {
+      // Restoring the text must not kick off the debounced re-analysis.
+      reopenedTextRef.current = entry.text;
+      setInputText(entry.text);
     }
-    
-    // FIX: Use the renamed interface type.
-    const recognition: SpeechRecognitionService = new SpeechRecognitionAPI();
-    speechRecognitionRef.current = recognition;
-    
-    recognition.continuous = true;
-    recognition.interimResults = true;
-
-    recognition.onresult = (event: SpeechRecognitionEvent) => {
-        let transcript = '';
-        for (let i = 0; i < event.results.length; i++) {
-            transcript += event.results[i][0].transcript;
-        }
-        setInputText(baseTextRef.current + transcript);
-    };
-    
-    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-        if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
-            setError(t('micPermissionError'));
-        } else {
-            console.error(`Speech recognition error: ${event.error}`);
-        }
-        setIsRecording(false);
+    if (entry.language in translations) {
+      setLanguage(entry.language as Language);
+    }
+    setSocialTopic(entry.socialTopic);
+    // A profile deleted since then falls back to no particular recipient.
+    setRecipientId(entry.recipientId ?? null);
+    setAnalysisResult(entry.result);
+    setAnalysisHistory([entry.result]);
+    setDraftVersions(entry.mode === 'single' && !entry.hadImage
+      ? entry.versions ?? [{ text: entry.text, temperature: entry.result.temperature }]
+      : []);
+    setGuardTemperature(entry.mode === 'single' && !entry.hadImage ? entry.result.temperature : undefined);
+    setSuggestionInstruction(null);
+    setError(null);
+    setSubmittedFeedback([]);
+    draftIdRef.current = createId();
+    setIsHistoryVisible(false);
+  };
+
+  const handleFeedback = (type: FeedbackRating, comment?: string, alternative?: SuggestionAlternative) => {
+    if (!analysisResult) return;
+    setFeedbackRecords(submitFeedback({
+      originalText: isThreadMode ? formatConversation(threadTurns) : inputText,
+      suggestion: alternative ? alternative.suggestion : analysisResult.suggestion,
+      socialTopic,
+      language,
+      rating: type,
+      comment: comment?.trim() || undefined,
+      tone: alternative?.tone,
+    }));
+    setSubmittedFeedback(prev => [...prev, getFeedbackKey(alternative)]);
+  };
+
+  const handleDeleteTopic = (id: string) => {
+    const remaining = deleteTopic(id);
+    setTopics(remaining);
+    if (!remaining.some(topic => topic.id === socialTopic)) {
+      setSocialTopic(DEFAULT_TOPIC_ID);
+    }
+  };
+
+  const handleDeleteRecipient = (id: string) => {
+    setRecipients(deleteRecipient(id));
+    if (id === recipientId) setRecipientId(null);
+  };
+
+  const handleImportTopics = (json: string) => {
+    try {
+      setTopics(importTopics(json));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to import topics:', err);
+      setError(t('topicImportError'));
+    }
+  };
+
+  const handleExportTopics = () => {
+    downloadTextFile(`peacetalk-topics-${new Date().toISOString().slice(0, 10)}.json`, exportTopics(topics), 'application/json');
+  };
+
+  const handleAlertSettingsChange = async (settings: AlertSettings) => {
+    if (settings.notifications && !alertSettings.notifications && !(await requestNotificationPermission())) {
+      setError(t('alertNotificationsBlocked'));
+      settings = { ...settings, notifications: false };
+    }
+    setAlertSettings(saveAlertSettings(settings));
+  };
+
+  const unlockGuard = useCallback(() => setIsGuardUnlocked(true), []);
+
+  const recordGuardChoice = (choice: GuardChoice) => {
+    if (!isGuardEngaged || guardTemperature === undefined || guardLoggedRef.current.has(choice)) return;
+    guardLoggedRef.current.add(choice);
+    setGuardLog(logGuardChoice({ temperature: guardTemperature, mode: guardSettings.mode, choice }));
+  };
+
+  const handleGuardCopy = async (text: string, choice: GuardChoice) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      recordGuardChoice(choice);
+    } catch (err) {
+      console.error('Failed to copy the draft:', err);
+    }
+  };
+
+  // Copying straight out of the text box is the usual way a draft gets sent, so the guard covers it too.
+  const handleDraftCopy = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (isDraftCopyBlocked) {
+      event.preventDefault();
+      return;
+    }
+    if (isGuardShown) recordGuardChoice('original');
+  };
+
+  const describeAlertMatch = ({ rule, temperature, rise, emotion }: AlertMatch) => {
+    switch (rule.type) {
+      case 'temperature-above':
+        return t('alertReasonAbove').replace('{temperature}', String(temperature)).replace('{threshold}', String(rule.threshold));
+      case 'temperature-rise':
+        return t('alertReasonRise').replace('{points}', String(rise)).replace('{count}', String(rule.window));
+      case 'emotion':
+        return t('alertReasonEmotion').replace('{emotion}', emotion);
+    }
+  };
+
+  const handleExportReport = (format: ReportFormat) => {
+    if (!analysisResult) return;
+    const turns = threadTurns.filter(turn => turn.text.trim());
+    const report: SessionReport = {
+      generatedAt: Date.now(),
+      language,
+      topic: getTopicLabel(socialTopic),
+      text: isThreadMode ? formatConversation(turns) : inputText,
+      turns: isThreadMode ? turns : undefined,
+      result: analysisResult,
+      history: analysisHistory,
     };
-    
-    recognition.onend = () => {
-        setIsRecording(false);
+    const labels: ReportLabels = {
+      title: t('reportTitle'),
+      generatedAt: t('reportGeneratedAt'),
+      topic: t('socialTopicTitle'),
+      input: t('reportInput'),
+      temperature: t('conversationTemperature'),
+      emotion: t('dominantEmotion'),
+      recipientImpact: t('impactAnalysisTitle'),
+      predictedFeeling: t('predictedFeeling'),
+      potentialImpact: t('potentialImpact'),
+      suggestion: t('suggestionCardTitle'),
+      explanation: t('suggestionCardExplanationPrefix'),
+      alternatives: t('reportAlternatives'),
+      trend: analysisResult.turns ? t('speakerTrendTitle') : t('emotionTrendTitle'),
+      escalation: t('escalationPoint'),
+      tones: { brief: t('toneBrief'), warm: t('toneWarm'), assertive: t('toneAssertive'), formal: t('toneFormal') },
     };
+    const locale = speechLangMap[language];
+    const filename = `peacetalk-report-${new Date(report.generatedAt).toISOString().slice(0, 10)}`;
+    switch (format) {
+      case 'markdown':
+        downloadTextFile(`${filename}.md`, reportToMarkdown(report, labels, locale), 'text/markdown');
+        break;
+      case 'json':
+        downloadTextFile(`${filename}.json`, reportToJson(report, labels), 'application/json');
+        break;
+      case 'html':
+        downloadTextFile(`${filename}.html`, reportToHtml(report, labels, locale), 'text/html');
+        break;
+      case 'pdf':
+        printHtml(reportToHtml(report, labels, locale));
+        break;
+    }
+  };
+
+  const handleExportFeedback = (format: 'json' | 'csv') => {
+    // Re-read so upload status changes made by the background sync are included.
+    const records = loadFeedback();
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadTextFile(`peacetalk-feedback-${date}.json`, exportFeedbackJson(records), 'application/json');
+    } else {
+      downloadTextFile(`peacetalk-feedback-${date}.csv`, exportFeedbackCsv(records), 'text/csv');
+    }
+  };
+
+  useEffect(() => startFeedbackSync(), []);
+
+  useEffect(() => {
+    const segmenter = createUtteranceSegmenter({
+        pauseMs: UTTERANCE_PAUSE_MS,
+        onInterim: setInterimTranscript,
+        onUtterance: text => setThreadTurns(turns => [...turns, { speaker: activeSpeakerRef.current, text }]),
+    });
+    utteranceSegmenterRef.current = segmenter;
+
+    const engine = createSpeechToText({
+        onResults: (results) => {
+            if (inputModeRef.current === 'voice') {
+                segmenter.handleResults(results);
+                return;
+            }
+            let transcript = '';
+            for (let i = 0; i < results.length; i++) {
+                transcript += results[i][0].transcript;
+            }
+            setInputText(baseTextRef.current + transcript);
+        },
+        onError: (err) => {
+            if (err instanceof SpeechToTextError && err.code === 'failed') {
+                // Dropped audio or a silent session; recording ends without bothering the user.
+                console.error(err.message);
+                return;
+            }
+            setError(describeSpeechError(err));
+        },
+        onEnd: () => {
+            segmenter.flush();
+            finishAudioClip();
+            setIsRecording(false);
+        },
+    });
+    if (!engine) {
+        console.warn("Speech recognition not supported by this browser.");
+    }
+    speechEngineRef.current = engine;
 
     return () => {
-        if (recognition) {
-          recognition.stop();
-        }
+        engine?.stop();
+        segmenter.reset();
     };
-  }, [isSpeechRecognitionSupported, t]);
-  
+  }, [describeSpeechError, finishAudioClip]);
+
   useEffect(() => {
-    if (speechRecognitionRef.current) {
-        speechRecognitionRef.current.lang = speechLangMap[language];
-    }
-  }, [language]);
+    inputModeRef.current = inputMode;
+    activeSpeakerRef.current = voiceSpeakers[activeSpeakerIndex] ?? '';
+  }, [inputMode, voiceSpeakers, activeSpeakerIndex]);
+
+  // Voice turns are analyzed as they finalize, so the chart follows the conversation live.
+  useEffect(() => {
+    if (!isVoiceMode || !hasThreadContent(threadTurns)) return;
+    const handler = setTimeout(() => analysisFnRef.current(), 500);
+    return () => clearTimeout(handler);
+  }, [isVoiceMode, threadTurns]);
 
   // Effect for auto-analysis on typing pause (debounced)
   useEffect(() => {
-    if (isScreenSharing || imageBase64 || !inputText.trim()) {
+    if (isThreadMode || isScreenSharing || hasImages || !inputText.trim()) {
       return;
     }
+    if (inputText === reopenedTextRef.current) {
+      return;
+    }
+    reopenedTextRef.current = null;
 
     const handler = setTimeout(() => {
-      analysisFnRef.current();
+      // A calm transcript can still have been shouted, so recordings always go to the model.
+      if (needsModelAnalysis || audioClip) {
+        analysisFnRef.current();
+      } else {
+        // The draft has cooled down; a result for the earlier text would be misleading.
+        cancelAnalysis();
+        setAnalysisResult(null);
+        setGuardTemperature(undefined);
+      }
     }, 1000);
 
     return () => clearTimeout(handler);
-  }, [inputText, imageBase64, isScreenSharing]);
+  }, [isThreadMode, inputText, hasImages, isScreenSharing, needsModelAnalysis, audioClip]);
   
   // Effect to clear results when input is cleared
   useEffect(() => {
-    if (!inputText.trim() && !imageBase64 && !isScreenSharing) {
+    if (!hasInput && !isScreenSharing) {
+      cancelAnalysis();
       setAnalysisResult(null);
       setError(null);
-      setFeedbackState('none');
+      setSubmittedFeedback([]);
       setAnalysisHistory([]);
+      setDraftVersions([]);
+      setGuardTemperature(undefined);
+      setSuggestionInstruction(null);
+      setAudioClip(null);
+      draftIdRef.current = createId();
     }
-  }, [inputText, imageBase64, isScreenSharing]);
+  }, [hasInput, isScreenSharing]);
   
   useEffect(() => {
       return () => {
@@ -347,6 +859,26 @@ const App: React.FC = () => {
       };
   }, [stopScreenSharing]);
 
+  // While monitoring live, check each new result against the alert rules.
+  useEffect(() => {
+    const latest = analysisHistory[analysisHistory.length - 1];
+    if (!latest || latest === lastCheckedResultRef.current) return;
+    lastCheckedResultRef.current = latest;
+    if (!isScreenSharing && !isRecording) return;
+    const now = Date.now();
+    if (now - lastAlertAtRef.current < alertSettings.cooldownMs) return;
+    const matches = evaluateAlertRules(analysisHistory, alertSettings.rules);
+    if (matches.length === 0) return;
+
+    lastAlertAtRef.current = now;
+    const reasons = matches.map(describeAlertMatch);
+    setActiveAlert(reasons);
+    if (alertSettings.notifications) showNotification(t('alertTitle'), [t('alertMessage'), ...reasons].join('\n'));
+    if (alertSettings.sound) playAlertSound();
+  }, [analysisHistory, isScreenSharing, isRecording, alertSettings]);
+
+
+  const displayedResult: PartialAnalysisResult | null = analysisResult ?? partialResult;
 
   const getEmotionPillColor = (emotion: string) => {
     switch (emotion.toLowerCase()) {
@@ -392,29 +924,59 @@ const App: React.FC = () => {
     </div>
   );
 
-  const socialTopics: { id: SocialTopic; labelKey: keyof typeof translations.en }[] = [
-    { id: 'general', labelKey: 'topicGeneral' },
-    { id: 'gender-equality', labelKey: 'topicGenderEquality' },
-    { id: 'human-rights', labelKey: 'topicHumanRights' },
-    { id: 'violence-prevention', labelKey: 'topicViolencePrevention' },
-    { id: 'workplace-conflict', labelKey: 'topicWorkplaceConflict' },
-  ];
+  const getTopicLabel = (topicId: string) => {
+    const match = topics.find(({ id }) => id === topicId);
+    return match ? getLocalizedText(match.name, language) : topicId;
+  };
 
   const SocialTopicSelector: React.FC = () => (
     <div className="mt-6">
         <h2 className="text-center text-sm font-medium text-slate-600 dark:text-slate-400 mb-3">{t('socialTopicTitle')}</h2>
         <div className="flex flex-wrap justify-center gap-2">
-            {socialTopics.map(({ id, labelKey }) => (
-                <button key={id} onClick={() => setSocialTopic(id)} disabled={isLoading}
-                    className={`px-3 py-1.5 text-xs font-medium rounded-full transition-colors disabled:opacity-50 ${ socialTopic === id ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600'}`}>
-                    {t(labelKey)}
+            {topics.map(topic => (
+                <button key={topic.id} onClick={() => setSocialTopic(topic.id)} disabled={isLoading}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-full transition-colors disabled:opacity-50 ${ activeTopic.id === topic.id ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600'}`}>
+                    <span className="mr-1" aria-hidden="true">{topic.icon}</span>{getLocalizedText(topic.name, language)}
                 </button>
             ))}
+            <button onClick={() => setIsTopicManagerVisible(visible => !visible)} aria-expanded={isTopicManagerVisible}
+                className="px-3 py-1.5 text-xs font-medium rounded-full border border-dashed border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+                {t('manageTopics')}
+            </button>
         </div>
+        {!isThreadMode && topicExamples.length > 0 && (
+            <div className="mt-3 flex flex-wrap justify-center items-center gap-2 text-xs">
+                <span className="text-slate-500 dark:text-slate-400">{t('topicTryExample')}</span>
+                {topicExamples.map(example => (
+                    <button key={example} onClick={() => setInputText(example)} disabled={isLoading}
+                        className="px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50">
+                        “{example}”
+                    </button>
+                ))}
+            </div>
+        )}
     </div>
   );
 
 
+  const RecipientSelector: React.FC = () => (
+    <div>
+        <h2 className="text-center text-sm font-medium text-slate-600 dark:text-slate-400 mb-3">{t('recipientTitle')}</h2>
+        <div className="flex flex-wrap justify-center gap-2">
+            {[null, ...recipients].map(profile => (
+                <button key={profile?.id ?? 'anyone'} onClick={() => setRecipientId(profile?.id ?? null)} disabled={isLoading}
+                    className={`px-3 py-1.5 text-xs font-medium rounded-full transition-colors disabled:opacity-50 ${ (activeRecipient?.id ?? null) === (profile?.id ?? null) ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-600'}`}>
+                    {profile ? profile.name : t('recipientAnyone')}
+                </button>
+            ))}
+            <button onClick={() => setIsRecipientManagerVisible(visible => !visible)} aria-expanded={isRecipientManagerVisible}
+                className="px-3 py-1.5 text-xs font-medium rounded-full border border-dashed border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+                {t('manageRecipients')}
+            </button>
+        </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100 p-4 sm:p-6 lg:p-8">
       <div className="max-w-4xl mx-auto">
@@ -426,126 +988,541 @@ const App: React.FC = () => {
         <div className="space-y-6 mb-8">
             <LanguageSwitcher />
             <SocialTopicSelector />
+            <RecipientSelector />
+            <div className="flex justify-center">
+                <button onClick={() => setIsHistoryVisible(visible => !visible)} aria-expanded={isHistoryVisible}
+                    className={`px-4 py-1.5 text-xs font-medium rounded-full border transition-colors ${isHistoryVisible ? 'bg-slate-700 text-white border-slate-700 dark:bg-slate-200 dark:text-slate-900' : 'bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-600'}`}>
+                    {t('historyButton')} ({savedHistory.length})
+                </button>
+                <button onClick={() => setIsAlertSettingsVisible(visible => !visible)} aria-expanded={isAlertSettingsVisible}
+                    className={`ml-2 px-4 py-1.5 text-xs font-medium rounded-full border transition-colors ${isAlertSettingsVisible ? 'bg-slate-700 text-white border-slate-700 dark:bg-slate-200 dark:text-slate-900' : 'bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-600'}`}>
+                    {t('alertsButton')}
+                </button>
+                <button onClick={() => setIsGuardSettingsVisible(visible => !visible)} aria-expanded={isGuardSettingsVisible}
+                    className={`ml-2 px-4 py-1.5 text-xs font-medium rounded-full border transition-colors ${isGuardSettingsVisible ? 'bg-slate-700 text-white border-slate-700 dark:bg-slate-200 dark:text-slate-900' : 'bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-600'}`}>
+                    {t('guardButton')}{guardSettings.enabled ? ' ✓' : ''}
+                </button>
+                {feedbackRecords.length > 0 && (
+                    <div className="ml-3 inline-flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+                        <span>{t('exportFeedback')} ({feedbackRecords.length}):</span>
+                        <button onClick={() => handleExportFeedback('json')} className="font-medium text-sky-600 dark:text-sky-400 hover:underline">JSON</button>
+                        <button onClick={() => handleExportFeedback('csv')} className="font-medium text-sky-600 dark:text-sky-400 hover:underline">CSV</button>
+                    </div>
+                )}
+            </div>
         </div>
+
+        {isTopicManagerVisible && (
+          <div className="mb-8">
+            <TopicManager
+              topics={topics}
+              language={language}
+              languages={(Object.keys(translations) as Language[]).map(id => ({ id, label: translations[id].languageName }))}
+              onSave={(topic) => setTopics(saveTopic(topic))}
+              onDelete={handleDeleteTopic}
+              onImport={handleImportTopics}
+              onExport={handleExportTopics}
+              title={t('topicManagerTitle')}
+              newTopicLabel={t('topicNew')}
+              editLabel={t('topicEdit')}
+              deleteLabel={t('topicDelete')}
+              resetLabel={t('topicReset')}
+              importLabel={t('topicImport')}
+              exportLabel={t('topicExport')}
+              iconLabel={t('topicIcon')}
+              nameLabel={t('topicName')}
+              instructionLabel={t('topicInstruction')}
+              instructionPlaceholder={t('topicInstructionPlaceholder')}
+              examplesLabel={t('topicExamples')}
+              examplesPlaceholder={t('topicExamplesPlaceholder')}
+              tooLongLabel={t('topicTooLong').replace('{max}', String(MAX_TOPIC_LENGTH))}
+              editingLanguageLabel={t('topicEditingLanguage')}
+              saveLabel={t('topicSave')}
+              cancelLabel={t('topicCancel')}
+            />
+          </div>
+        )}
+
+        {isRecipientManagerVisible && (
+          <div className="mb-8">
+            <RecipientManager
+              profiles={recipients}
+              languages={(Object.keys(translations) as Language[]).map(id => ({ id, label: translations[id].languageName }))}
+              onSave={(profile) => setRecipients(saveRecipient(profile))}
+              onDelete={handleDeleteRecipient}
+              title={t('recipientManagerTitle')}
+              description={t('recipientManagerDescription')}
+              newProfileLabel={t('recipientNew')}
+              emptyLabel={t('recipientEmpty')}
+              editLabel={t('recipientEdit')}
+              deleteLabel={t('recipientDelete')}
+              nameLabel={t('recipientName')}
+              namePlaceholder={t('recipientNamePlaceholder')}
+              relationshipLabel={t('recipientRelationship')}
+              relationshipLabels={{
+                manager: t('relationshipManager'),
+                colleague: t('relationshipColleague'),
+                report: t('relationshipReport'),
+                client: t('relationshipClient'),
+                partner: t('relationshipPartner'),
+                family: t('relationshipFamily'),
+                child: t('relationshipChild'),
+                friend: t('relationshipFriend'),
+                other: t('relationshipOther'),
+              }}
+              formalityLabel={t('recipientFormality')}
+              formalityLabels={{ casual: t('formalityCasual'), neutral: t('formalityNeutral'), formal: t('formalityFormal') }}
+              culturalContextLabel={t('recipientCulture')}
+              culturalContextPlaceholder={t('recipientCulturePlaceholder')}
+              sensitivitiesLabel={t('recipientSensitivities')}
+              sensitivitiesPlaceholder={t('recipientSensitivitiesPlaceholder')}
+              preferredLanguageLabel={t('recipientLanguage')}
+              sameLanguageLabel={t('recipientLanguageSame')}
+              saveLabel={t('recipientSave')}
+              cancelLabel={t('recipientCancel')}
+            />
+          </div>
+        )}
+
+        {isAlertSettingsVisible && (
+          <div className="mb-8">
+            <AlertSettingsPanel
+              settings={alertSettings}
+              onChange={handleAlertSettingsChange}
+              cooldownOptions={alertCooldowns.map(value => ({
+                value,
+                label: value < 60_000
+                  ? t('monitorSeconds').replace('{seconds}', String(value / 1000))
+                  : t('alertMinutes').replace('{minutes}', String(value / 60_000)),
+              }))}
+              title={t('alertSettingsTitle')}
+              description={t('alertSettingsDescription')}
+              ruleLabels={{
+                'temperature-above': t('alertRuleAbove'),
+                'temperature-rise': t('alertRuleRise'),
+                emotion: t('alertRuleEmotion'),
+              }}
+              pointsWithinLabel={t('alertPointsWithin')}
+              analysesLabel={t('alertAnalyses')}
+              emotionsPlaceholder={t('alertEmotionsPlaceholder')}
+              addRuleLabel={t('alertAddRule')}
+              deleteLabel={t('alertDeleteRule')}
+              notificationsLabel={t('alertNotifications')}
+              soundLabel={t('alertSound')}
+              cooldownLabel={t('alertCooldown')}
+            />
+          </div>
+        )}
+
+        {isGuardSettingsVisible && (
+          <div className="mb-8">
+            <GuardSettingsPanel
+              settings={guardSettings}
+              onChange={(settings) => setGuardSettings(saveGuardSettings(settings))}
+              log={guardLog}
+              onClearLog={() => setGuardLog(clearGuardLog())}
+              timerOptions={guardTimers.map(value => ({ value, label: t('monitorSeconds').replace('{seconds}', String(value)) }))}
+              title={t('guardSettingsTitle')}
+              description={t('guardSettingsDescription')}
+              enabledLabel={t('guardEnabled')}
+              thresholdLabel={t('guardThreshold')}
+              modeLabel={t('guardMode')}
+              modeLabels={{ timer: t('guardModeTimer'), reflection: t('guardModeReflection'), compare: t('guardModeCompare') }}
+              timerLabel={t('guardTimer')}
+              logSummary={t('guardLogSummary')}
+              clearLogLabel={t('guardClearLog')}
+            />
+          </div>
+        )}
+
+        {isHistoryVisible && (
+          <div className="mb-8">
+            <HistoryPanel
+              entries={savedHistory}
+              locale={speechLangMap[language]}
+              getTopicLabel={getTopicLabel}
+              onOpen={handleOpenHistoryEntry}
+              onDelete={(id) => setSavedHistory(deleteHistoryEntry(id))}
+              onClear={() => setSavedHistory(clearHistory())}
+              title={t('historyTitle')}
+              searchPlaceholder={t('historySearchPlaceholder')}
+              emptyLabel={t('historyEmpty')}
+              openLabel={t('historyOpen')}
+              deleteLabel={t('historyDelete')}
+              compareLabel={t('historyCompare')}
+              compareHint={t('historyCompareHint')}
+              clearAllLabel={t('historyClearAll')}
+              temperatureLabel={t('conversationTemperature')}
+              emotionLabel={t('dominantEmotion')}
+              suggestionLabel={t('suggestionCardTitle')}
+            />
+          </div>
+        )}
         
         <canvas ref={canvasRef} className="hidden"></canvas>
 
         <main>
           <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-xl space-y-4">
-            {isScreenSharing && (
-                <div className="relative group">
-                    <video ref={videoRef} autoPlay playsInline muted className="rounded-lg max-h-60 w-auto mx-auto bg-black"></video>
-                    {isAnalyzingFrame && (
-                       <div className="absolute inset-0 bg-black/50 flex items-center justify-center rounded-lg">
-                           <div className="flex items-center space-x-2 text-white">
-                               <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                               <span>{t('analyzingFrame')}</span>
-                           </div>
-                       </div>
+            <div className="flex justify-center">
+              <div className="inline-flex rounded-full bg-slate-100 dark:bg-slate-700 p-1" role="tablist">
+                {(Object.keys(inputModeLabels) as InputMode[]).map(mode => (
+                  <button key={mode} role="tab" aria-selected={inputMode === mode} onClick={() => handleModeChange(mode)} disabled={isLoading}
+                    className={`px-4 py-1.5 text-xs font-medium rounded-full transition-colors disabled:opacity-50 ${inputMode === mode ? 'bg-white dark:bg-slate-900 text-sky-700 dark:text-sky-300 shadow' : 'text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white'}`}>
+                    {t(inputModeLabels[mode])}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {isVoiceMode ? (
+              <div>
+                <p className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t('voiceConversationHint')}</p>
+                <VoiceConversation
+                  turns={threadTurns}
+                  turnAnalyses={analysisResult?.turns}
+                  interimText={interimTranscript}
+                  speakers={voiceSpeakers}
+                  activeSpeaker={voiceSpeakers[activeSpeakerIndex] ?? ''}
+                  isRecording={isRecording}
+                  onActiveSpeakerChange={(speaker) => setActiveSpeakerIndex(Math.max(0, voiceSpeakers.indexOf(speaker)))}
+                  onRenameSpeaker={handleRenameSpeaker}
+                  onTurnsChange={setThreadTurns}
+                  onToggleRecording={handleToggleRecording}
+                  activeSpeakerLabel={t('voiceNowSpeaking')}
+                  speakerPlaceholder={t('speakerPlaceholder')}
+                  emptyLabel={t('voiceEmpty')}
+                  listeningLabel={t('voiceListening')}
+                  recordLabel={t('recordVoice')}
+                  stopLabel={t('stopRecording')}
+                  speakerLabel={t('voiceRetagSpeaker')}
+                  removeTurnLabel={t('removeTurn')}
+                />
+              </div>
+            ) : isThreadMode ? (
+              <div>
+                <p className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{isTranscriptFromImages ? t('transcriptReviewHint') : t('enterThread')}</p>
+                <ThreadEditor
+                  turns={threadTurns}
+                  onChange={setThreadTurns}
+                  defaultSpeakers={[t('speakerMe'), t('speakerOther')]}
+                  disabled={isLoading}
+                  speakerPlaceholder={t('speakerPlaceholder')}
+                  messagePlaceholder={t('turnMessagePlaceholder')}
+                  timestampLabel={t('turnTimestamp')}
+                  addTurnLabel={t('addTurn')}
+                  removeTurnLabel={t('removeTurn')}
+                  pasteLabel={t('pasteConversation')}
+                  pastePlaceholder={t('pasteConversationPlaceholder')}
+                  pasteButtonLabel={t('pasteConversationButton')}
+                />
+              </div>
+            ) : (
+              <div onDragOver={handleImageDragOver} onDragLeave={handleImageDragLeave} onDrop={handleImageDrop} onPaste={handleImagePaste}
+                className={`relative space-y-4 rounded-xl ${isDraggingImages ? 'ring-2 ring-sky-500 ring-offset-4 dark:ring-offset-slate-800' : ''}`}>
+                {isDraggingImages && (
+                  <div className="absolute inset-0 z-10 flex items-center justify-center rounded-xl bg-sky-50/90 dark:bg-slate-900/90 text-sky-700 dark:text-sky-300 font-medium pointer-events-none">
+                    {t('imageDropHint')}
+                  </div>
+                )}
+                {isScreenSharing && (
+                    <div className="space-y-2">
+                        <div className="relative group text-center">
+                            <CropSelector region={cropRegion} onChange={setCropRegion} hint={t('cropHint')}>
+                                <video ref={videoRef} autoPlay playsInline muted className="block rounded-lg max-h-60 w-auto bg-black"></video>
+                            </CropSelector>
+                            {isAnalyzingFrame && (
+                               <div className="absolute inset-0 bg-black/50 flex items-center justify-center rounded-lg pointer-events-none">
+                                   <div className="flex items-center space-x-2 text-white">
+                                       <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                                       <span>{t('analyzingFrame')}</span>
+                                   </div>
+                               </div>
+                            )}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-400">
+                            <label className="flex items-center gap-1">
+                                {t('monitorInterval')}
+                                <select value={monitorIntervalMs} onChange={(e) => setMonitorIntervalMs(Number(e.target.value))}
+                                    className="bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-1 px-2">
+                                    {monitorIntervals.map(interval => (
+                                        <option key={interval} value={interval}>{t('monitorSeconds').replace('{seconds}', String(interval / 1000))}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="flex items-center gap-1">
+                                {t('monitorSensitivity')}
+                                <select value={monitorSensitivity} onChange={(e) => setMonitorSensitivity(e.target.value as MonitorSensitivity)}
+                                    className="bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-1 px-2">
+                                    <option value="low">{t('sensitivityLow')}</option>
+                                    <option value="medium">{t('sensitivityMedium')}</option>
+                                    <option value="high">{t('sensitivityHigh')}</option>
+                                </select>
+                            </label>
+                            {cropRegion ? (
+                                <button onClick={() => setCropRegion(null)} className="text-sky-600 dark:text-sky-400 hover:underline">
+                                    {t('cropClear')}
+                                </button>
+                            ) : (
+                                <span>{t('cropHint')}</span>
+                            )}
+                            {monitorStatus && monitorStatus.status !== 'analyzing' && (
+                                <span className="ml-auto" aria-live="polite">
+                                    {t(monitorStatus.status === 'retrying' ? 'monitorRetrying' : 'monitorUnchanged')
+                                        .replace('{seconds}', String(Math.round(monitorStatus.nextCheckMs / 1000)))}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                )}
+                {hasImages && !isScreenSharing && (
+                  <ImageAttachmentList
+                    images={images}
+                    onMove={handleMoveImage}
+                    onRemove={handleRemoveImage}
+                    hint={t('imageOrderHint')}
+                    moveEarlierLabel={t('moveImageEarlier')}
+                    moveLaterLabel={t('moveImageLater')}
+                    removeLabel={t('removeImage')}
+                  />
+                )}
+                {hasImages && !isScreenSharing && isTranscriptExtractionAvailable() && (
+                  <button onClick={handleExtractTranscript} disabled={isLoading || isExtractingTranscript}
+                    className="flex items-center gap-2 text-sm font-medium text-sky-600 dark:text-sky-400 hover:underline disabled:opacity-50 disabled:no-underline">
+                    {isExtractingTranscript && <span className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></span>}
+                    {isExtractingTranscript ? t('extractingTranscript') : t('extractTranscript')}
+                  </button>
+                )}
+                <div>
+                  <label htmlFor="message-input" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    {hasImages || isScreenSharing ? t('addContext') : t('enterText')}
+                  </label>
+                  <textarea
+                    id="message-input" rows={4}
+                    className="w-full p-4 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition duration-150"
+                    placeholder={hasImages || isScreenSharing ? t('placeholderWithImage') : t('placeholder')}
+                    value={inputText}
+                    onChange={(e) => setInputText(e.target.value)}
+                    onCopy={handleDraftCopy}
+                    onCut={handleDraftCopy}
+                  />
+                  {analysisResult?.phrases && (
+                    <AnnotatedText
+                      text={inputText}
+                      phrases={analysisResult.phrases}
+                      title={t('flaggedPhrasesTitle')}
+                      categoryLabels={{ blame: t('phraseBlame'), absolute: t('phraseAbsolute'), sarcasm: t('phraseSarcasm'), insult: t('phraseInsult') }}
+                      rewriteLabel={t('phraseRewrite')}
+                      removeLabel={t('phraseRemove')}
+                      onApplyRewrite={handleApplyRewrite}
+                    />
+                  )}
+                  <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-slate-600 dark:text-slate-400">
+                    <label className="flex items-center gap-1.5" title={t('vocalToneHint')}>
+                      <input type="checkbox" checked={includeVocalTone} onChange={(e) => setIncludeVocalTone(e.target.checked)} disabled={isRecording}
+                        className="h-4 w-4 accent-sky-600" />
+                      {t('vocalToneOption')}
+                    </label>
+                    {audioClip && (
+                      <span className="inline-flex items-center gap-1.5 px-2 py-1 rounded-full bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-300">
+                        <MicrophoneIcon className="h-3.5 w-3.5" />
+                        {t('vocalClipAttached').replace('{seconds}', String(Math.round(audioClip.durationMs / 1000)))}
+                        <button onClick={() => setAudioClip(null)} aria-label={t('vocalClipRemove')} title={t('vocalClipRemove')}
+                          className="hover:text-red-600 dark:hover:text-red-400">
+                          <TrashIcon className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
                     )}
+                  </div>
                 </div>
-            )}
-            {imageBase64 && !isScreenSharing && (
-              <div className="relative group">
-                <img src={`data:${imageMimeType};base64,${imageBase64}`} alt="Conversation preview" className="rounded-lg max-h-60 w-auto mx-auto"/>
-                <button 
-                  onClick={handleRemoveImage}
-                  className="absolute top-2 right-2 bg-black/50 text-white rounded-full p-1.5 opacity-0 group-hover:opacity-100 transition-opacity"
-                  aria-label={t('removeImage')}
-                >
-                  <TrashIcon className="h-5 w-5" />
-                </button>
               </div>
             )}
-            <div>
-              <label htmlFor="message-input" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                {imageBase64 || isScreenSharing ? t('addContext') : t('enterText')}
-              </label>
-              <textarea
-                id="message-input" rows={4}
-                className="w-full p-4 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition duration-150"
-                placeholder={imageBase64 || isScreenSharing ? t('placeholderWithImage') : t('placeholder')}
-                value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                disabled={isLoading}
-              />
-            </div>
             <div className="flex flex-col sm:flex-row gap-4">
-              <button onClick={() => fileInputRef.current?.click()} disabled={isLoading || isScreenSharing}
-                className="w-full sm:w-auto flex items-center justify-center px-6 py-3 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:opacity-50 transition-colors">
-                <UploadIcon className="h-5 w-5 mr-2" />
-                {t('uploadImage')}
-              </button>
-              <input type="file" ref={fileInputRef} onChange={handleImageChange} accept="image/png, image/jpeg, image/webp" className="hidden" />
-
-              <button onClick={handleToggleRecording} disabled={isLoading}
-                className={`w-full sm:w-auto flex items-center justify-center px-6 py-3 border text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 transition-colors ${
-                  isRecording 
-                  ? 'border-red-500 text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/50 dark:text-red-300 dark:hover:bg-red-900 focus:ring-red-500 animate-pulse'
-                  : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:ring-sky-500'
-                }`}>
-                <MicrophoneIcon className="h-5 w-5 mr-2" />
-                {isRecording ? t('stopRecording') : t('recordVoice')}
-              </button>
+              {!isThreadMode && (
+                <>
+                  <button onClick={() => fileInputRef.current?.click()} disabled={isLoading || isScreenSharing}
+                    className="w-full sm:w-auto flex items-center justify-center px-6 py-3 border border-slate-300 dark:border-slate-600 text-sm font-medium rounded-md text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:opacity-50 transition-colors">
+                    <UploadIcon className="h-5 w-5 mr-2" />
+                    {t('uploadImage')}
+                  </button>
+                  <input type="file" ref={fileInputRef} onChange={handleImageChange} accept="image/*" multiple className="hidden" />
 
-              <button onClick={isScreenSharing ? stopScreenSharing : startScreenSharing} disabled={isLoading}
-                className={`w-full sm:w-auto flex items-center justify-center px-6 py-3 border text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 transition-colors ${
-                  isScreenSharing 
-                  ? 'border-amber-500 text-amber-600 bg-amber-50 hover:bg-amber-100 dark:bg-amber-900/50 dark:text-amber-300 dark:hover:bg-amber-900 focus:ring-amber-500'
-                  : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:ring-sky-500'
-                }`}>
-                {isScreenSharing ? t('stopSharing') : t('shareScreen')}
-              </button>
+                  <button onClick={handleToggleRecording} disabled={isLoading}
+                    className={`w-full sm:w-auto flex items-center justify-center px-6 py-3 border text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 transition-colors ${
+                      isRecording 
+                      ? 'border-red-500 text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/50 dark:text-red-300 dark:hover:bg-red-900 focus:ring-red-500 animate-pulse'
+                      : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:ring-sky-500'
+                    }`}>
+                    <MicrophoneIcon className="h-5 w-5 mr-2" />
+                    {isRecording ? t('stopRecording') : t('recordVoice')}
+                  </button>
+
+                  <button onClick={isScreenSharing ? stopScreenSharing : startScreenSharing} disabled={isLoading}
+                    className={`w-full sm:w-auto flex items-center justify-center px-6 py-3 border text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 transition-colors ${
+                      isScreenSharing 
+                      ? 'border-amber-500 text-amber-600 bg-amber-50 hover:bg-amber-100 dark:bg-amber-900/50 dark:text-amber-300 dark:hover:bg-amber-900 focus:ring-amber-500'
+                      : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:ring-sky-500'
+                    }`}>
+                    {isScreenSharing ? t('stopSharing') : t('shareScreen')}
+                  </button>
+                </>
+              )}
 
-              <button onClick={handleAnalyze} disabled={isLoading || (!inputText.trim() && !imageBase64) || isScreenSharing}
+              <button onClick={() => handleAnalyze()} disabled={isLoading || !hasInput || isScreenSharing}
                 className="flex-grow flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-400 disabled:cursor-not-allowed dark:focus:ring-offset-slate-900 transition-colors duration-200">
                 {isLoading ? (
                   <><div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>{t('analyzingButton')}</>
                 ) : (
-                  <><WandIcon className="h-5 w-5 mr-2" />{imageBase64 ? t('analyzeImageButton') : t('analyzeButton')}</>
+                  <><WandIcon className="h-5 w-5 mr-2" />{isThreadMode ? t('analyzeThreadButton') : hasImages ? t('analyzeImageButton') : t('analyzeButton')}</>
                 )}
               </button>
             </div>
           </div>
 
           <div className="mt-8">
-            {isLoading && !isScreenSharing && <LoadingSpinner />}
+            {isGuardShown && (
+              <div className="mb-6">
+                <CoolDownGuard
+                  key={guardRound}
+                  mode={guardSettings.mode}
+                  temperature={guardTemperature}
+                  timerSeconds={guardSettings.timerSeconds}
+                  original={inputText}
+                  suggestion={guardSuggestion}
+                  isUnlocked={isGuardUnlocked}
+                  onUnlock={unlockGuard}
+                  onCopyOriginal={() => handleGuardCopy(inputText, 'original')}
+                  onCopyRewrite={() => handleGuardCopy(guardSuggestion, 'rewrite')}
+                  title={t('guardTitle')}
+                  timerLabel={t('guardTimerRunning')}
+                  reflectionPrompt={t('guardReflectionPrompt')}
+                  reflectionPlaceholder={t('guardReflectionPlaceholder')}
+                  originalLabel={t('guardOriginal')}
+                  suggestionLabel={t('guardSuggestion')}
+                  compareConfirmLabel={t('guardCompareConfirm')}
+                  unlockedLabel={t('guardUnlocked')}
+                  copyOriginalLabel={t('guardCopyOriginal')}
+                  copyRewriteLabel={t('guardCopyRewrite')}
+                />
+              </div>
+            )}
+            {activeAlert && (
+              <div className="mb-6">
+                <AlertBanner
+                  title={t('alertTitle')}
+                  message={t('alertMessage')}
+                  reasons={activeAlert}
+                  dismissLabel={t('alertDismiss')}
+                  onDismiss={() => setActiveAlert(null)}
+                />
+              </div>
+            )}
+            {isLoading && !isScreenSharing && !partialResult && !analysisResult && <LoadingSpinner />}
             {error && (
               <div className="bg-red-100 dark:bg-red-900/50 border border-red-400 dark:border-red-600 text-red-700 dark:text-red-200 px-4 py-3 rounded-lg" role="alert">
                 <strong className="font-bold">{t('errorPrefix')}</strong> <span className="block sm:inline">{error}</span>
               </div>
             )}
+            {!displayedResult && !isLoading && !isThreadMode && !hasImages && !isScreenSharing && inputText.trim() && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 animate-fade-in">
+                <TemperatureGauge temperature={screening.temperature} title={t('conversationTemperature')} caption={t('provisionalTemperature')} />
+                <ScreeningFlags
+                  flags={screening.flags}
+                  title={t('screeningTitle')}
+                  flagLabels={{ profanity: t('flagProfanity'), 'all-caps': t('flagAllCaps'), absolute: t('flagAbsolute'), blame: t('flagBlame') }}
+                  noFlagsLabel={t('screeningNoFlags')}
+                  hint={needsModelAnalysis ? t('screeningEscalatingHint') : t('screeningCalmHint')}
+                />
+              </div>
+            )}
             {analysisResult && (
+              <div className="mb-4 flex flex-wrap justify-end items-center gap-3 text-xs text-slate-600 dark:text-slate-400">
+                <span>{t('exportReport')}:</span>
+                {([['markdown', 'Markdown'], ['json', 'JSON'], ['html', 'HTML'], ['pdf', 'PDF']] as [ReportFormat, string][]).map(([format, label]) => (
+                  <button key={format} onClick={() => handleExportReport(format)} className="font-medium text-sky-600 dark:text-sky-400 hover:underline">{label}</button>
+                ))}
+              </div>
+            )}
+            {canShowChanges && draftVersions.length > 1 && (
+              <div className="mb-8">
+                <VersionChain versions={draftVersions} title={t('versionChainTitle')} versionLabel={t('versionLabel')} temperatureLabel={t('conversationTemperature')} />
+              </div>
+            )}
+            {displayedResult && (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 animate-fade-in">
                 <div className="space-y-8">
-                  <TemperatureGauge temperature={analysisResult.temperature} title={t('conversationTemperature')} />
-                  <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg">
-                    <h3 className="text-lg font-medium text-slate-600 dark:text-slate-300">{t('dominantEmotion')}</h3>
-                    <div className={`mt-2 inline-block px-4 py-1.5 text-base font-semibold rounded-full ${getEmotionPillColor(analysisResult.emotion)}`}>
-                      {analysisResult.emotion}
+                  {displayedResult.temperature !== undefined && (
+                    <TemperatureGauge
+                      temperature={displayedResult.temperature}
+                      title={t('conversationTemperature')}
+                      secondaryTemperature={analysisResult?.vocal?.temperature}
+                      primaryLabel={t('textTemperature')}
+                      secondaryLabel={t('vocalTemperature')}
+                      caption={analysisResult?.vocal?.cues.join(' · ')}
+                    />
+                  )}
+                  {displayedResult.emotion && (
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg">
+                      <h3 className="text-lg font-medium text-slate-600 dark:text-slate-300">{t('dominantEmotion')}</h3>
+                      <div className={`mt-2 inline-block px-4 py-1.5 text-base font-semibold rounded-full ${getEmotionPillColor(displayedResult.emotion)}`}>
+                        {displayedResult.emotion}
+                      </div>
                     </div>
-                  </div>
-                  <ImpactAnalysisCard title={t('impactAnalysisTitle')} feelingLabel={t('predictedFeeling')} impactLabel={t('potentialImpact')}
-                    predictedFeeling={analysisResult.recipientImpact.predictedFeeling} impactExplanation={analysisResult.recipientImpact.impactExplanation}
-                  />
-                   {analysisHistory.length > 1 && (
+                  )}
+                  {displayedResult.recipientImpact?.predictedFeeling && (
+                    <ImpactAnalysisCard title={t('impactAnalysisTitle')} feelingLabel={t('predictedFeeling')} impactLabel={t('potentialImpact')}
+                      predictedFeeling={displayedResult.recipientImpact.predictedFeeling} impactExplanation={displayedResult.recipientImpact.impactExplanation ?? ''}
+                    />
+                  )}
+                  {analysisResult?.turns ? (
+                      <EmotionChart history={analysisHistory} turns={analysisResult.turns} title={t('speakerTrendTitle')} escalationLabel={t('escalationPoint')} />
+                  ) : analysisHistory.length > 1 && (
                       <EmotionChart history={analysisHistory} title={t('emotionTrendTitle')} />
                   )}
                 </div>
-                <SuggestionCard 
-                  suggestion={analysisResult.suggestion} 
-                  explanation={analysisResult.explanation} 
-                  title={t('suggestionCardTitle')}
-                  explanationPrefix={t('suggestionCardExplanationPrefix')}
-                  feedbackPrompt={t('feedbackPrompt')}
-                  feedbackThanks={t('feedbackThanks')}
-                  likeButtonLabel={t('likeButton')}
-                  dislikeButtonLabel={t('dislikeButton')}
-                  feedbackCommentPlaceholder={t('feedbackPlaceholder')}
-                  submitFeedbackButtonLabel={t('submitFeedback')}
-                  feedbackState={feedbackState}
-                  onFeedback={handleFeedback}
-                />
+                {displayedResult.suggestion !== undefined && (
+                  <SuggestionCard 
+                    suggestion={displayedResult.suggestion} 
+                    explanation={displayedResult.explanation ?? ''} 
+                    alternatives={analysisResult?.alternatives}
+                    isPending={!analysisResult}
+                    title={t('suggestionCardTitle')}
+                    explanationPrefix={t('suggestionCardExplanationPrefix')}
+                    toneLabels={{ brief: t('toneBrief'), warm: t('toneWarm'), assertive: t('toneAssertive'), formal: t('toneFormal') }}
+                    predictedFeelingLabel={t('predictedFeeling')}
+                    copyLabel={t('copySuggestion')}
+                    copiedLabel={t('copied')}
+                    feedbackPrompt={t('feedbackPrompt')}
+                    feedbackThanks={t('feedbackThanks')}
+                    likeButtonLabel={t('likeButton')}
+                    dislikeButtonLabel={t('dislikeButton')}
+                    feedbackCommentPlaceholder={t('feedbackPlaceholder')}
+                    submitFeedbackButtonLabel={t('submitFeedback')}
+                    onCopy={() => recordGuardChoice('rewrite')}
+                    renderChanges={canShowChanges ? (suggestion) => (
+                      <SuggestionDiff
+                        original={inputText}
+                        suggestion={suggestion}
+                        phrases={analysisResult?.phrases}
+                        language={language}
+                        originalLabel={t('diffOriginal')}
+                        suggestionLabel={t('diffSuggestion')}
+                        categoryLabels={{ blame: t('phraseBlame'), absolute: t('phraseAbsolute'), sarcasm: t('phraseSarcasm'), insult: t('phraseInsult') }}
+                        flagLabels={{ profanity: t('flagProfanity'), 'all-caps': t('flagAllCaps'), absolute: t('flagAbsolute'), blame: t('flagBlame') }}
+                        addedLabel={t('diffAdded')}
+                        removedLabel={t('diffRemoved')}
+                        rewordedLabel={t('diffReworded')}
+                      />
+                    ) : undefined}
+                    showChangesLabel={t('showChanges')}
+                    hideChangesLabel={t('hideChanges')}
+                    onApply={canShowChanges ? handleApplySuggestion : undefined}
+                    applyLabel={t('applyAndReanalyze')}
+                    onRefine={!isVoiceMode && !isScreenSharing ? handleRefineSuggestion : undefined}
+                    refineLabel={t('refineSuggestion')}
+                    refinePlaceholder={t('refinePlaceholder')}
+                    submittedFeedback={submittedFeedback}
+                    onFeedback={handleFeedback}
+                  />
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface AlertBannerProps {
+  title: string;
+  message: string;
+  reasons: string[];
+  dismissLabel: string;
+  onDismiss: () => void;
+}
+
+/** The in-app "pause before you reply" nudge raised by alert rules. */
+const AlertBanner: React.FC<AlertBannerProps> = ({ title, message, reasons, dismissLabel, onDismiss }) => (
+  <div role="alert" className="flex items-start gap-4 p-4 rounded-2xl border border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-900/30 shadow-lg animate-fade-in">
+    <span className="text-2xl" aria-hidden="true">✋</span>
+    <div className="flex-grow">
+      <p className="font-semibold text-red-800 dark:text-red-200">{title}</p>
+      <p className="text-sm text-red-700 dark:text-red-300">{message}</p>
+      <ul className="mt-2 list-disc list-inside text-sm text-red-700 dark:text-red-300">
+        {reasons.map(reason => <li key={reason}>{reason}</li>)}
+      </ul>
+    </div>
+    <button onClick={onDismiss} className="text-xs font-medium text-red-700 dark:text-red-300 hover:underline">{dismissLabel}</button>
+  </div>
+);
+
+export default AlertBanner;
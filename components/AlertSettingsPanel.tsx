@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { AlertRule, AlertRuleType, AlertSettings } from '../types';
+import { MAX_RISE_WINDOW, MIN_RISE_WINDOW, createAlertRule } from '../services/alertRules';
+import { TrashIcon } from './IconComponents';
+
+interface AlertSettingsPanelProps {
+  settings: AlertSettings;
+  onChange: (settings: AlertSettings) => void;
+  cooldownOptions: { value: number; label: string }[];
+  title: string;
+  description: string;
+  ruleLabels: { [key in AlertRuleType]: string };
+  pointsWithinLabel: string;
+  analysesLabel: string;
+  emotionsPlaceholder: string;
+  addRuleLabel: string;
+  deleteLabel: string;
+  notificationsLabel: string;
+  soundLabel: string;
+  cooldownLabel: string;
+}
+
+const inputClassName = 'p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+const ruleTypes: AlertRuleType[] = ['temperature-above', 'temperature-rise', 'emotion'];
+
+const clampNumber = (value: string, min: number, max: number) => Math.max(min, Math.min(max, Math.round(Number(value) || 0)));
+
+const AlertSettingsPanel: React.FC<AlertSettingsPanelProps> = ({
+    settings,
+    onChange,
+    cooldownOptions,
+    title,
+    description,
+    ruleLabels,
+    pointsWithinLabel,
+    analysesLabel,
+    emotionsPlaceholder,
+    addRuleLabel,
+    deleteLabel,
+    notificationsLabel,
+    soundLabel,
+    cooldownLabel,
+}) => {
+  const [newRuleType, setNewRuleType] = useState<AlertRuleType>('temperature-above');
+
+  const updateRule = (rule: AlertRule) =>
+    onChange({ ...settings, rules: settings.rules.map(existing => existing.id === rule.id ? rule : existing) });
+
+  const renderRuleFields = (rule: AlertRule) => {
+    switch (rule.type) {
+      case 'temperature-above':
+        return (
+          <input type="number" min={0} max={100} value={rule.threshold} aria-label={ruleLabels[rule.type]}
+            onChange={(e) => updateRule({ ...rule, threshold: clampNumber(e.target.value, 0, 100) })} className={`${inputClassName} w-20`} />
+        );
+      case 'temperature-rise':
+        return (
+          <>
+            <input type="number" min={1} max={100} value={rule.points} aria-label={ruleLabels[rule.type]}
+              onChange={(e) => updateRule({ ...rule, points: clampNumber(e.target.value, 1, 100) })} className={`${inputClassName} w-20`} />
+            <span>{pointsWithinLabel}</span>
+            <input type="number" min={MIN_RISE_WINDOW} max={MAX_RISE_WINDOW} value={rule.window} aria-label={analysesLabel}
+              onChange={(e) => updateRule({ ...rule, window: clampNumber(e.target.value, MIN_RISE_WINDOW, MAX_RISE_WINDOW) })}
+              className={`${inputClassName} w-16`} />
+            <span>{analysesLabel}</span>
+          </>
+        );
+      case 'emotion':
+        return (
+          <input value={rule.emotions.join(',')} placeholder={emotionsPlaceholder} aria-label={ruleLabels[rule.type]}
+            onChange={(e) => updateRule({ ...rule, emotions: e.target.value.split(',') })} className={`${inputClassName} flex-grow`} />
+        );
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg space-y-4 animate-fade-in">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{title}</h3>
+        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{description}</p>
+      </div>
+
+      <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+        {settings.rules.map(rule => (
+          <li key={rule.id} className="flex flex-wrap items-center gap-2 py-2 text-sm text-slate-700 dark:text-slate-200">
+            <input type="checkbox" checked={rule.enabled} aria-label={ruleLabels[rule.type]}
+              onChange={(e) => updateRule({ ...rule, enabled: e.target.checked })} className="h-4 w-4 accent-sky-600" />
+            <span>{ruleLabels[rule.type]}</span>
+            {renderRuleFields(rule)}
+            <button onClick={() => onChange({ ...settings, rules: settings.rules.filter(({ id }) => id !== rule.id) })}
+              aria-label={deleteLabel} title={deleteLabel} className="ml-auto text-slate-400 hover:text-red-600 dark:hover:text-red-400">
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2 text-sm">
+        <select value={newRuleType} onChange={(e) => setNewRuleType(e.target.value as AlertRuleType)} className={inputClassName}>
+          {ruleTypes.map(type => <option key={type} value={type}>{ruleLabels[type]}</option>)}
+        </select>
+        <button onClick={() => onChange({ ...settings, rules: [...settings.rules, createAlertRule(newRuleType)] })}
+          className="text-xs font-medium text-sky-600 dark:text-sky-400 hover:underline">
+          {addRuleLabel}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 pt-2 border-t border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={settings.notifications} onChange={(e) => onChange({ ...settings, notifications: e.target.checked })}
+            className="h-4 w-4 accent-sky-600" />
+          {notificationsLabel}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={settings.sound} onChange={(e) => onChange({ ...settings, sound: e.target.checked })}
+            className="h-4 w-4 accent-sky-600" />
+          {soundLabel}
+        </label>
+        <label className="flex items-center gap-2">
+          {cooldownLabel}
+          <select value={settings.cooldownMs} onChange={(e) => onChange({ ...settings, cooldownMs: Number(e.target.value) })} className={inputClassName}>
+            {cooldownOptions.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default AlertSettingsPanel;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { FlaggedPhrase, PhraseCategory } from '../types';
+
+interface AnnotatedTextProps {
+  text: string;
+  phrases: FlaggedPhrase[];
+  title: string;
+  categoryLabels: { [key in PhraseCategory]: string };
+  rewriteLabel: string;
+  removeLabel: string;
+  onApplyRewrite: (phrase: FlaggedPhrase) => void;
+}
+
+const getHeatColor = (heat: number) => {
+  if (heat > 70) return 'bg-red-200 dark:bg-red-900/60 decoration-red-500';
+  if (heat > 40) return 'bg-orange-200 dark:bg-orange-900/60 decoration-orange-500';
+  return 'bg-yellow-200 dark:bg-yellow-900/60 decoration-yellow-500';
+};
+
+type Segment = { text: string; phrase?: FlaggedPhrase };
+
+const toSegments = (text: string, phrases: FlaggedPhrase[]): Segment[] => {
+  const segments: Segment[] = [];
+  let cursor = 0;
+  phrases.forEach(phrase => {
+    if (phrase.start > cursor) segments.push({ text: text.slice(cursor, phrase.start) });
+    segments.push({ text: text.slice(phrase.start, phrase.end), phrase });
+    cursor = phrase.end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+};
+
+const AnnotatedText: React.FC<AnnotatedTextProps> = ({
+  text,
+  phrases,
+  title,
+  categoryLabels,
+  rewriteLabel,
+  removeLabel,
+  onApplyRewrite,
+}) => {
+  // Highlights are only meaningful while the text still matches what was analyzed.
+  const currentPhrases = phrases.filter(phrase => text.slice(phrase.start, phrase.end) === phrase.text);
+  if (currentPhrases.length === 0) return null;
+
+  return (
+    <div className="mt-3">
+      <h4 className="text-sm font-medium text-slate-600 dark:text-slate-300 mb-2">{title}</h4>
+      <p className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700 text-slate-800 dark:text-slate-100 whitespace-pre-wrap break-words leading-relaxed">
+        {toSegments(text, currentPhrases).map((segment, index) => !segment.phrase ? (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        ) : (
+          <span key={index} className="relative group">
+            <mark
+              tabIndex={0}
+              className={`rounded px-0.5 text-inherit underline decoration-2 underline-offset-4 cursor-help focus:outline-none focus:ring-2 focus:ring-sky-500 ${getHeatColor(segment.phrase.heat)}`}
+            >
+              {segment.text}
+            </mark>
+            {/* pt-2 bridges the gap so the tooltip stays open while the pointer moves onto it. */}
+            <span className="absolute left-0 top-full z-10 hidden group-hover:block group-focus-within:block pt-2 w-64">
+              <span className="block p-3 rounded-lg shadow-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 text-sm">
+                <span className="flex items-center justify-between">
+                  <span className="font-semibold text-slate-800 dark:text-slate-200">{categoryLabels[segment.phrase.category]}</span>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">{segment.phrase.heat}°</span>
+                </span>
+                <span className="block mt-1 text-slate-600 dark:text-slate-300">{segment.phrase.explanation}</span>
+                {segment.phrase.rewrite !== undefined && (
+                  <button
+                    onClick={() => onApplyRewrite(segment.phrase!)}
+                    className="mt-2 w-full text-left px-2 py-1.5 rounded-md bg-sky-50 dark:bg-sky-900/40 text-sky-700 dark:text-sky-300 hover:bg-sky-100 dark:hover:bg-sky-900/70 transition-colors"
+                  >
+                    {segment.phrase.rewrite
+                      ? <>{rewriteLabel}: <span className="font-medium">“{segment.phrase.rewrite}”</span></>
+                      : removeLabel}
+                  </button>
+                )}
+              </span>
+            </span>
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+};
+
+export default AnnotatedText;
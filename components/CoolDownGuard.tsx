@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { CoolDownMode } from '../types';
+
+interface CoolDownGuardProps {
+  mode: CoolDownMode;
+  temperature: number;
+  timerSeconds: number;
+  original: string;
+  suggestion: string;
+  isUnlocked: boolean;
+  onUnlock: () => void;
+  onCopyOriginal: () => void;
+  onCopyRewrite: () => void;
+  title: string;
+  /** Contains `{seconds}`. */
+  timerLabel: string;
+  reflectionPrompt: string;
+  reflectionPlaceholder: string;
+  originalLabel: string;
+  suggestionLabel: string;
+  compareConfirmLabel: string;
+  unlockedLabel: string;
+  copyOriginalLabel: string;
+  copyRewriteLabel: string;
+}
+
+// Long enough that the answer takes a moment of thought, short enough not to feel like homework.
+const MIN_REFLECTION_LENGTH = 15;
+
+/**
+ * Stands between a heated draft and the clipboard: the original can only be
+ * copied after the cool-down, while the rewrite is always one click away.
+ */
+const CoolDownGuard: React.FC<CoolDownGuardProps> = ({
+    mode,
+    temperature,
+    timerSeconds,
+    original,
+    suggestion,
+    isUnlocked,
+    onUnlock,
+    onCopyOriginal,
+    onCopyRewrite,
+    title,
+    timerLabel,
+    reflectionPrompt,
+    reflectionPlaceholder,
+    originalLabel,
+    suggestionLabel,
+    compareConfirmLabel,
+    unlockedLabel,
+    copyOriginalLabel,
+    copyRewriteLabel,
+}) => {
+  const [secondsLeft, setSecondsLeft] = useState(timerSeconds);
+  const [reflection, setReflection] = useState('');
+
+  useEffect(() => {
+    if (mode !== 'timer' || isUnlocked) return;
+    setSecondsLeft(timerSeconds);
+    const startedAt = Date.now();
+    const interval = setInterval(() => {
+      const left = Math.max(0, timerSeconds - Math.floor((Date.now() - startedAt) / 1000));
+      setSecondsLeft(left);
+      if (left === 0) {
+        clearInterval(interval);
+        onUnlock();
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [mode, isUnlocked, timerSeconds, onUnlock]);
+
+  useEffect(() => {
+    if (mode === 'reflection' && !isUnlocked && reflection.trim().length >= MIN_REFLECTION_LENGTH) onUnlock();
+  }, [mode, isUnlocked, reflection, onUnlock]);
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700 rounded-2xl p-6 shadow-lg space-y-4 animate-fade-in">
+      <div className="flex items-center gap-3">
+        <span className="text-2xl" aria-hidden="true">🧊</span>
+        <h3 className="flex-grow font-semibold text-amber-900 dark:text-amber-100">{title}</h3>
+        <span className="text-2xl font-bold text-red-600 dark:text-red-400">{temperature}</span>
+      </div>
+
+      {mode === 'timer' && !isUnlocked && (
+        <div>
+          <p className="text-sm text-amber-800 dark:text-amber-200" aria-live="polite">{timerLabel.replace('{seconds}', String(secondsLeft))}</p>
+          <div className="mt-2 h-2 rounded-full bg-amber-200 dark:bg-amber-800 overflow-hidden">
+            <div className="h-full bg-amber-500 transition-all duration-300" style={{ width: `${(secondsLeft / Math.max(1, timerSeconds)) * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {mode === 'reflection' && (
+        <label className="block text-sm text-amber-800 dark:text-amber-200">
+          {reflectionPrompt}
+          <textarea rows={2} value={reflection} onChange={(e) => setReflection(e.target.value)} placeholder={reflectionPlaceholder}
+            className="mt-2 w-full p-2 text-sm border border-amber-300 dark:border-amber-700 rounded-md bg-white dark:bg-slate-800 focus:ring-2 focus:ring-amber-500 focus:border-amber-500" />
+        </label>
+      )}
+
+      {mode === 'compare' && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">{originalLabel}</p>
+              <p className="mt-1 p-3 rounded-lg bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-100 whitespace-pre-wrap">{original}</p>
+            </div>
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-emerald-600 dark:text-emerald-400">{suggestionLabel}</p>
+              <p className="mt-1 p-3 rounded-lg bg-white dark:bg-slate-800 text-sm text-slate-800 dark:text-slate-100 whitespace-pre-wrap">{suggestion}</p>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-200">
+            <input type="checkbox" checked={isUnlocked} disabled={isUnlocked} onChange={(e) => e.target.checked && onUnlock()} className="h-4 w-4 accent-amber-600" />
+            {compareConfirmLabel}
+          </label>
+        </>
+      )}
+
+      {isUnlocked && <p className="text-sm text-amber-800 dark:text-amber-200">{unlockedLabel}</p>}
+
+      <div className="flex flex-wrap gap-3">
+        <button onClick={onCopyRewrite}
+          className="px-4 py-2 text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500">
+          {copyRewriteLabel}
+        </button>
+        <button onClick={onCopyOriginal} disabled={!isUnlocked}
+          className="px-4 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed">
+          {copyOriginalLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CoolDownGuard;
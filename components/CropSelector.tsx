@@ -0,0 +1,82 @@
+import React, { useRef, useState } from 'react';
+import { CropRegion } from '../services/frameMonitor';
+
+interface CropSelectorProps {
+  region: CropRegion | null;
+  onChange: (region: CropRegion) => void;
+  hint: string;
+  children: React.ReactNode;
+}
+
+// Drags smaller than this (as a fraction of the video) are treated as clicks.
+const MIN_SIZE = 0.03;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+const toStyle = ({ x, y, width, height }: CropRegion) => ({
+  left: `${x * 100}%`,
+  top: `${y * 100}%`,
+  width: `${width * 100}%`,
+  height: `${height * 100}%`,
+});
+
+/** Lets the user drag a rectangle over the shared screen to pick the chat area. */
+const CropSelector: React.FC<CropSelectorProps> = ({ region, onChange, hint, children }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<CropRegion | null>(null);
+
+  const toPoint = (event: React.PointerEvent) => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const toRegion = (start: { x: number; y: number }, end: { x: number; y: number }): CropRegion => ({
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  });
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    startRef.current = toPoint(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (startRef.current) setDraft(toRegion(startRef.current, toPoint(event)));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!startRef.current) return;
+    const next = toRegion(startRef.current, toPoint(event));
+    startRef.current = null;
+    setDraft(null);
+    if (next.width >= MIN_SIZE && next.height >= MIN_SIZE) onChange(next);
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <div className="relative inline-block overflow-hidden rounded-lg">
+      {children}
+      <div
+        ref={overlayRef}
+        className="absolute inset-0 cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        title={hint}
+      >
+        {shown && (
+          <div className="absolute border-2 border-amber-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none" style={toStyle(shown)} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CropSelector;
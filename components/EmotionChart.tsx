@@ -1,13 +1,20 @@
 import React from 'react';
-import { AnalysisResult } from '../types';
+import { AnalysisResult, TurnAnalysis } from '../types';
+import { getSpeakers } from '../services/conversationThread';
 
 interface EmotionChartProps {
   history: AnalysisResult[];
   title: string;
+  /** When given, the chart plots one line per speaker across these turns instead of `history`. */
+  turns?: TurnAnalysis[];
+  escalationLabel?: string;
 }
 
-const EmotionChart: React.FC<EmotionChartProps> = ({ history, title }) => {
-  if (history.length < 2) {
+const SPEAKER_COLORS = ['#0ea5e9', '#a855f7', '#10b981', '#f97316', '#ec4899', '#64748b'];
+
+const EmotionChart: React.FC<EmotionChartProps> = ({ history, title, turns, escalationLabel }) => {
+  const pointCount = turns ? turns.length : history.length;
+  if (pointCount < 2) {
     return null; 
   }
 
@@ -24,13 +31,15 @@ const EmotionChart: React.FC<EmotionChartProps> = ({ history, title }) => {
   const chartWidth = SVG_WIDTH - PADDING * 2;
   const chartHeight = SVG_HEIGHT - PADDING * 2;
 
+  const getX = (index: number) => PADDING + (index / (pointCount - 1)) * chartWidth;
+  const getY = (temperature: number) => PADDING + chartHeight - (temperature / 100) * chartHeight;
+
   const points = history
-    .map((result, index) => {
-      const x = PADDING + (index / (history.length - 1)) * chartWidth;
-      const y = PADDING + chartHeight - (result.temperature / 100) * chartHeight;
-      return `${x},${y}`;
-    })
+    .map((result, index) => `${getX(index)},${getY(result.temperature)}`)
     .join(' ');
+
+  const speakers = turns ? getSpeakers(turns) : [];
+  const speakerColor = (speaker: string) => SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
   
   const yAxisLabels = [
     { value: 100, y: PADDING },
@@ -63,48 +72,104 @@ const EmotionChart: React.FC<EmotionChartProps> = ({ history, title }) => {
             </g>
           ))}
           
-          {/* Gradient for Line */}
-          <defs>
-            <linearGradient id="line-gradient" x1="0%" y1="0%" x2="100%" y2="0%">
-                {history.map((result, index) => {
-                    const offset = `${(index / (history.length - 1)) * 100}%`;
-                    let stopColor = '#f59e0b'; // yellow-500
-                    if (result.temperature <= 33) stopColor = '#0ea5e9'; // sky-500
-                    if (result.temperature > 66) stopColor = '#ef4444'; // red-500
-                    return <stop key={index} offset={offset} stopColor={stopColor} />;
-                })}
-            </linearGradient>
-          </defs>
+          {turns ? (
+            <>
+              {/* One line per speaker; x stays the turn's position in the whole thread */}
+              {speakers.map(speaker => (
+                <polyline
+                  key={speaker}
+                  fill="none"
+                  stroke={speakerColor(speaker)}
+                  strokeWidth="3"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  points={turns
+                    .map((turn, index) => ({ turn, index }))
+                    .filter(({ turn }) => turn.speaker === speaker)
+                    .map(({ turn, index }) => `${getX(index)},${getY(turn.temperature)}`)
+                    .join(' ')}
+                />
+              ))}
+              {turns.map((turn, index) => (
+                <g key={index}>
+                  {turn.isEscalation && (
+                    <circle cx={getX(index)} cy={getY(turn.temperature)} r="10" fill="none" stroke="#ef4444" strokeWidth="2" strokeDasharray="3,2" />
+                  )}
+                  <circle
+                    cx={getX(index)}
+                    cy={getY(turn.temperature)}
+                    r="5"
+                    fill={speakerColor(turn.speaker)}
+                    className="stroke-white dark:stroke-slate-800"
+                    strokeWidth="2"
+                  >
+                    <title>{index + 1}. {turn.speaker}: {turn.temperature}°C · {turn.emotion}{turn.isEscalation && escalationLabel ? ` · ${escalationLabel}` : ''}</title>
+                  </circle>
+                </g>
+              ))}
+            </>
+          ) : (
+            <>
+              {/* Gradient for Line */}
+              <defs>
+                <linearGradient id="line-gradient" x1="0%" y1="0%" x2="100%" y2="0%">
+                    {history.map((result, index) => {
+                        const offset = `${(index / (history.length - 1)) * 100}%`;
+                        let stopColor = '#f59e0b'; // yellow-500
+                        if (result.temperature <= 33) stopColor = '#0ea5e9'; // sky-500
+                        if (result.temperature > 66) stopColor = '#ef4444'; // red-500
+                        return <stop key={index} offset={offset} stopColor={stopColor} />;
+                    })}
+                </linearGradient>
+              </defs>
 
-          {/* Data Line */}
-          <polyline
-            fill="none"
-            stroke="url(#line-gradient)"
-            strokeWidth="3"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            points={points}
-          />
+              {/* Data Line */}
+              <polyline
+                fill="none"
+                stroke="url(#line-gradient)"
+                strokeWidth="3"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                points={points}
+              />
           
-          {/* Data Points */}
-          {history.map((result, index) => {
-            const x = PADDING + (index / (history.length - 1)) * chartWidth;
-            const y = PADDING + chartHeight - (result.temperature / 100) * chartHeight;
-            return (
-              <circle
-                key={index}
-                cx={x}
-                cy={y}
-                r="5"
-                className={`${getTemperatureColor(result.temperature)} stroke-white dark:stroke-slate-800`}
-                strokeWidth="2"
-              >
-                <title>Analysis {index + 1}: {result.temperature}°C</title>
-              </circle>
-            );
-          })}
+              {/* Data Points */}
+              {history.map((result, index) => {
+                const x = getX(index);
+                const y = getY(result.temperature);
+                return (
+                  <circle
+                    key={index}
+                    cx={x}
+                    cy={y}
+                    r="5"
+                    className={`${getTemperatureColor(result.temperature)} stroke-white dark:stroke-slate-800`}
+                    strokeWidth="2"
+                  >
+                    <title>Analysis {index + 1}: {result.temperature}°C</title>
+                  </circle>
+                );
+              })}
+            </>
+          )}
         </svg>
       </div>
+      {turns && (
+        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-600 dark:text-slate-400">
+          {speakers.map(speaker => (
+            <span key={speaker} className="flex items-center gap-1.5">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: speakerColor(speaker) }}></span>
+              {speaker}
+            </span>
+          ))}
+          {escalationLabel && turns.some(turn => turn.isEscalation) && (
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block w-3 h-3 rounded-full border-2 border-dashed border-red-500"></span>
+              {escalationLabel}
+            </span>
+          )}
+        </div>
+      )}
     </div>
   );
 };
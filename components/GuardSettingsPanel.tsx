@@ -0,0 +1,88 @@
+import React from 'react';
+import { CoolDownMode, GuardLogEntry, GuardSettings } from '../types';
+
+interface GuardSettingsPanelProps {
+  settings: GuardSettings;
+  onChange: (settings: GuardSettings) => void;
+  log: GuardLogEntry[];
+  onClearLog: () => void;
+  timerOptions: { value: number; label: string }[];
+  title: string;
+  description: string;
+  enabledLabel: string;
+  thresholdLabel: string;
+  modeLabel: string;
+  modeLabels: { [mode in CoolDownMode]: string };
+  timerLabel: string;
+  /** Contains `{rewrites}` and `{total}`. */
+  logSummary: string;
+  clearLogLabel: string;
+}
+
+const inputClassName = 'p-1.5 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+const modes: CoolDownMode[] = ['timer', 'reflection', 'compare'];
+
+const GuardSettingsPanel: React.FC<GuardSettingsPanelProps> = ({
+    settings,
+    onChange,
+    log,
+    onClearLog,
+    timerOptions,
+    title,
+    description,
+    enabledLabel,
+    thresholdLabel,
+    modeLabel,
+    modeLabels,
+    timerLabel,
+    logSummary,
+    clearLogLabel,
+}) => (
+  <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg space-y-4 animate-fade-in">
+    <div>
+      <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{title}</h3>
+      <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{description}</p>
+    </div>
+
+    <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700 dark:text-slate-200">
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="h-4 w-4 accent-sky-600" />
+        {enabledLabel}
+      </label>
+      <label className="flex items-center gap-2">
+        {thresholdLabel}
+        <input type="number" min={0} max={99} value={settings.threshold}
+          onChange={(e) => onChange({ ...settings, threshold: Math.max(0, Math.min(99, Math.round(Number(e.target.value) || 0))) })}
+          className={`${inputClassName} w-20`} />
+      </label>
+      <label className="flex items-center gap-2">
+        {modeLabel}
+        <select value={settings.mode} onChange={(e) => onChange({ ...settings, mode: e.target.value as CoolDownMode })} className={inputClassName}>
+          {modes.map(mode => <option key={mode} value={mode}>{modeLabels[mode]}</option>)}
+        </select>
+      </label>
+      {settings.mode === 'timer' && (
+        <label className="flex items-center gap-2">
+          {timerLabel}
+          <select value={settings.timerSeconds} onChange={(e) => onChange({ ...settings, timerSeconds: Number(e.target.value) })} className={inputClassName}>
+            {timerOptions.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+          </select>
+        </label>
+      )}
+    </div>
+
+    {log.length > 0 && (
+      <div className="flex items-center gap-3 pt-2 border-t border-slate-200 dark:border-slate-700 text-sm text-slate-600 dark:text-slate-400">
+        <span>
+          {logSummary
+            .replace('{rewrites}', String(log.filter(entry => entry.choice === 'rewrite').length))
+            .replace('{total}', String(log.length))}
+        </span>
+        <button onClick={onClearLog} className="text-xs font-medium text-sky-600 dark:text-sky-400 hover:underline">{clearLogLabel}</button>
+      </div>
+    )}
+  </div>
+);
+
+export default GuardSettingsPanel;
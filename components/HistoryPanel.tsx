@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryEntry } from '../types';
+import { searchHistory } from '../services/historyStore';
+import { TrashIcon } from './IconComponents';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  locale: string;
+  getTopicLabel: (topic: string) => string;
+  onOpen: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  title: string;
+  searchPlaceholder: string;
+  emptyLabel: string;
+  openLabel: string;
+  deleteLabel: string;
+  compareLabel: string;
+  compareHint: string;
+  clearAllLabel: string;
+  temperatureLabel: string;
+  emotionLabel: string;
+  suggestionLabel: string;
+}
+
+const getTemperaturePillColor = (temp: number) => {
+  if (temp <= 33) return 'bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-300';
+  if (temp <= 66) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300';
+  return 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300';
+};
+
+const getEntryText = (entry: HistoryEntry) =>
+  entry.turns ? entry.turns.map(turn => `${turn.speaker}: ${turn.text}`).join(' / ') : entry.text;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+    entries,
+    locale,
+    getTopicLabel,
+    onOpen,
+    onDelete,
+    onClear,
+    title,
+    searchPlaceholder,
+    emptyLabel,
+    openLabel,
+    deleteLabel,
+    compareLabel,
+    compareHint,
+    clearAllLabel,
+    temperatureLabel,
+    emotionLabel,
+    suggestionLabel,
+}) => {
+  const [query, setQuery] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const visibleEntries = useMemo(() => searchHistory(entries, query), [entries, query]);
+  const compared = compareIds
+    .map(id => entries.find(entry => entry.id === id))
+    .filter((entry): entry is HistoryEntry => !!entry);
+
+  // Comparing is pairwise, so selecting a third entry drops the oldest pick.
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id].slice(-2));
+  };
+
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(locale);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{title}</h3>
+        {entries.length > 0 && (
+          <button onClick={onClear} className="text-xs font-medium text-red-600 dark:text-red-400 hover:underline">
+            {clearAllLabel}
+          </button>
+        )}
+      </div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={searchPlaceholder}
+        aria-label={searchPlaceholder}
+        className="w-full p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+      />
+
+      {compared.length === 2 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {compared.map(entry => (
+            <div key={entry.id} className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-2 text-sm">
+              <p className="text-xs text-slate-500 dark:text-slate-400">{formatDate(entry.updatedAt)} · {getTopicLabel(entry.socialTopic)}</p>
+              <p className="text-slate-700 dark:text-slate-200 line-clamp-3">{getEntryText(entry)}</p>
+              <p><span className="font-medium">{temperatureLabel}:</span> <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getTemperaturePillColor(entry.result.temperature)}`}>{entry.result.temperature}°C</span></p>
+              <p><span className="font-medium">{emotionLabel}:</span> {entry.result.emotion}</p>
+              <p><span className="font-medium">{suggestionLabel}:</span> "{entry.result.suggestion}"</p>
+            </div>
+          ))}
+        </div>
+      ) : entries.length > 1 && (
+        <p className="text-xs text-slate-500 dark:text-slate-400">{compareHint}</p>
+      )}
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-center text-sm text-slate-500 dark:text-slate-400 py-4">{emptyLabel}</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700 max-h-96 overflow-y-auto">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="py-3 flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={compareIds.includes(entry.id)}
+                onChange={() => toggleCompare(entry.id)}
+                aria-label={compareLabel}
+                className="mt-1 h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+              />
+              <div className="flex-grow min-w-0">
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {formatDate(entry.updatedAt)} · {getTopicLabel(entry.socialTopic)} · {entry.language.toUpperCase()}
+                </p>
+                <p className="text-sm text-slate-700 dark:text-slate-200 truncate">{getEntryText(entry) || '—'}</p>
+              </div>
+              <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${getTemperaturePillColor(entry.result.temperature)}`}>
+                {entry.result.temperature}°C
+              </span>
+              <button onClick={() => onOpen(entry)} className="flex-shrink-0 text-xs font-medium text-sky-600 dark:text-sky-400 hover:underline">
+                {openLabel}
+              </button>
+              <button onClick={() => onDelete(entry.id)} aria-label={deleteLabel} className="flex-shrink-0 text-slate-400 hover:text-red-500 transition-colors">
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
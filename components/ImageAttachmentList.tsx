@@ -0,0 +1,39 @@
+import React from 'react';
+import { ImageAttachment } from '../types';
+import { TrashIcon } from './IconComponents';
+
+interface ImageAttachmentListProps {
+  images: ImageAttachment[];
+  onMove: (index: number, offset: -1 | 1) => void;
+  onRemove: (index: number) => void;
+  hint: string;
+  moveEarlierLabel: string;
+  moveLaterLabel: string;
+  removeLabel: string;
+}
+
+const controlClass = 'bg-black/60 text-white rounded-full w-7 h-7 flex items-center justify-center hover:bg-black/80 disabled:opacity-30';
+
+/** Numbered screenshot thumbnails that can be reordered into reading order. */
+const ImageAttachmentList: React.FC<ImageAttachmentListProps> = ({ images, onMove, onRemove, hint, moveEarlierLabel, moveLaterLabel, removeLabel }) => (
+  <div>
+    <ol className="flex gap-3 overflow-x-auto pb-2">
+      {images.map((image, index) => (
+        <li key={`${index}-${image.base64.slice(-16)}`} className="relative group flex-shrink-0">
+          <img src={`data:${image.mimeType};base64,${image.base64}`} alt={`${index + 1}`} className="rounded-lg h-40 w-auto border border-slate-200 dark:border-slate-700" />
+          <span className="absolute top-2 left-2 bg-sky-600 text-white text-xs font-bold rounded-full w-6 h-6 flex items-center justify-center">{index + 1}</span>
+          <div className="absolute bottom-2 inset-x-2 flex justify-between opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <button onClick={() => onMove(index, -1)} disabled={index === 0} aria-label={moveEarlierLabel} title={moveEarlierLabel} className={controlClass}>‹</button>
+            <button onClick={() => onRemove(index)} aria-label={removeLabel} title={removeLabel} className={controlClass}>
+              <TrashIcon className="h-4 w-4" />
+            </button>
+            <button onClick={() => onMove(index, 1)} disabled={index === images.length - 1} aria-label={moveLaterLabel} title={moveLaterLabel} className={controlClass}>›</button>
+          </div>
+        </li>
+      ))}
+    </ol>
+    {images.length > 1 && <p className="text-xs text-slate-500 dark:text-slate-400">{hint}</p>}
+  </div>
+);
+
+export default ImageAttachmentList;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Formality, RecipientProfile, RelationshipType } from '../types';
+import { FORMALITIES, RELATIONSHIP_TYPES, createRecipient } from '../services/recipientStore';
+import { TrashIcon } from './IconComponents';
+
+interface RecipientManagerProps {
+  profiles: RecipientProfile[];
+  languages: { id: string; label: string }[];
+  onSave: (profile: RecipientProfile) => void;
+  onDelete: (id: string) => void;
+  title: string;
+  description: string;
+  newProfileLabel: string;
+  emptyLabel: string;
+  editLabel: string;
+  deleteLabel: string;
+  nameLabel: string;
+  namePlaceholder: string;
+  relationshipLabel: string;
+  relationshipLabels: { [key in RelationshipType]: string };
+  formalityLabel: string;
+  formalityLabels: { [key in Formality]: string };
+  culturalContextLabel: string;
+  culturalContextPlaceholder: string;
+  sensitivitiesLabel: string;
+  sensitivitiesPlaceholder: string;
+  preferredLanguageLabel: string;
+  sameLanguageLabel: string;
+  saveLabel: string;
+  cancelLabel: string;
+}
+
+const inputClassName = 'w-full p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+const labelClassName = 'block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1';
+
+const RecipientManager: React.FC<RecipientManagerProps> = ({
+    profiles,
+    languages,
+    onSave,
+    onDelete,
+    title,
+    description,
+    newProfileLabel,
+    emptyLabel,
+    editLabel,
+    deleteLabel,
+    nameLabel,
+    namePlaceholder,
+    relationshipLabel,
+    relationshipLabels,
+    formalityLabel,
+    formalityLabels,
+    culturalContextLabel,
+    culturalContextPlaceholder,
+    sensitivitiesLabel,
+    sensitivitiesPlaceholder,
+    preferredLanguageLabel,
+    sameLanguageLabel,
+    saveLabel,
+    cancelLabel,
+}) => {
+  const [draft, setDraft] = useState<RecipientProfile | null>(null);
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim(), culturalContext: draft.culturalContext.trim(), sensitivities: draft.sensitivities.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg space-y-4 animate-fade-in">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{title}</h3>
+          <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">{description}</p>
+        </div>
+        <button onClick={() => setDraft(createRecipient())} className="text-xs font-medium text-sky-600 dark:text-sky-400 hover:underline">{newProfileLabel}</button>
+      </div>
+
+      {draft ? (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="recipient-name" className={labelClassName}>{nameLabel}</label>
+            <input id="recipient-name" value={draft.name} placeholder={namePlaceholder}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClassName} />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="recipient-relationship" className={labelClassName}>{relationshipLabel}</label>
+              <select id="recipient-relationship" value={draft.relationship}
+                onChange={(e) => setDraft({ ...draft, relationship: e.target.value as RelationshipType })} className={inputClassName}>
+                {RELATIONSHIP_TYPES.map(type => <option key={type} value={type}>{relationshipLabels[type]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="recipient-formality" className={labelClassName}>{formalityLabel}</label>
+              <select id="recipient-formality" value={draft.formality}
+                onChange={(e) => setDraft({ ...draft, formality: e.target.value as Formality })} className={inputClassName}>
+                {FORMALITIES.map(formality => <option key={formality} value={formality}>{formalityLabels[formality]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="recipient-language" className={labelClassName}>{preferredLanguageLabel}</label>
+              <select id="recipient-language" value={draft.preferredLanguage}
+                onChange={(e) => setDraft({ ...draft, preferredLanguage: e.target.value })} className={inputClassName}>
+                <option value="">{sameLanguageLabel}</option>
+                {languages.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="recipient-culture" className={labelClassName}>{culturalContextLabel}</label>
+            <input id="recipient-culture" value={draft.culturalContext} placeholder={culturalContextPlaceholder}
+              onChange={(e) => setDraft({ ...draft, culturalContext: e.target.value })} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="recipient-sensitivities" className={labelClassName}>{sensitivitiesLabel}</label>
+            <textarea id="recipient-sensitivities" rows={3} value={draft.sensitivities} placeholder={sensitivitiesPlaceholder}
+              onChange={(e) => setDraft({ ...draft, sensitivities: e.target.value })} className={inputClassName} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700">
+              {cancelLabel}
+            </button>
+            <button onClick={handleSave} disabled={!draft.name.trim()}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed">
+              {saveLabel}
+            </button>
+          </div>
+        </div>
+      ) : profiles.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">{emptyLabel}</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-center justify-between gap-3 py-2">
+              <span className="text-sm text-slate-800 dark:text-slate-200">
+                {profile.name}
+                <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                  {relationshipLabels[profile.relationship]} · {formalityLabels[profile.formality]}
+                </span>
+              </span>
+              <span className="flex items-center gap-3 text-xs font-medium">
+                <button onClick={() => setDraft(profile)} className="text-sky-600 dark:text-sky-400 hover:underline">{editLabel}</button>
+                <button onClick={() => onDelete(profile.id)} aria-label={deleteLabel} title={deleteLabel}
+                  className="text-slate-400 hover:text-red-600 dark:hover:text-red-400">
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RecipientManager;
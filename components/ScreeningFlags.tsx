@@ -0,0 +1,43 @@
+import React from 'react';
+import { ScreeningFlag, ScreeningFlagType } from '../services/toneScreening';
+
+interface ScreeningFlagsProps {
+  flags: ScreeningFlag[];
+  title: string;
+  flagLabels: { [key in ScreeningFlagType]: string };
+  noFlagsLabel: string;
+  hint: string;
+}
+
+const flagColors: { [key in ScreeningFlagType]: string } = {
+  profanity: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+  'all-caps': 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300',
+  absolute: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+  blame: 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300',
+};
+
+const ScreeningFlags: React.FC<ScreeningFlagsProps> = ({ flags, title, flagLabels, noFlagsLabel, hint }) => {
+  // One chip per distinct word, in the order they appear.
+  const unique = flags.filter((flag, index) =>
+    flags.findIndex(other => other.type === flag.type && other.text.toLowerCase() === flag.text.toLowerCase()) === index);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg">
+      <h3 className="text-lg font-medium text-slate-600 dark:text-slate-300">{title}</h3>
+      {unique.length > 0 ? (
+        <ul className="mt-3 flex flex-wrap gap-2">
+          {unique.map(flag => (
+            <li key={`${flag.type}-${flag.start}`} className={`px-3 py-1 text-sm rounded-full ${flagColors[flag.type]}`}>
+              <span className="font-semibold">{flagLabels[flag.type]}</span> · {flag.text}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-3 text-sm text-slate-600 dark:text-slate-300">{noFlagsLabel}</p>
+      )}
+      <p className="mt-4 text-sm text-slate-500 dark:text-slate-400">{hint}</p>
+    </div>
+  );
+};
+
+export default ScreeningFlags;
@@ -1,49 +1,126 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { FeedbackRating, SuggestionAlternative, SuggestionRefinement, SuggestionTone } from '../types';
 import { LightbulbIcon, ThumbsUpIcon, ThumbsDownIcon } from './IconComponents';
 
 interface SuggestionCardProps {
   suggestion: string;
   explanation: string;
+  /** Ranked rewrites; when present the card lets the user flip between them. */
+  alternatives?: SuggestionAlternative[];
+  /** True while the suggestion is still streaming in; hides copy and feedback controls. */
+  isPending?: boolean;
   title: string;
   explanationPrefix: string;
-  feedbackPrompt: string;
-  feedbackThanks: string;
-  likeButtonLabel: string;
-  dislikeButtonLabel: string;
-  feedbackCommentPlaceholder: string;
-  submitFeedbackButtonLabel: string;
-  feedbackState: 'none' | 'submitted';
-  onFeedback: (type: 'like' | 'dislike', comment?: string) => void;
+  toneLabels: { [tone in SuggestionTone]: string };
+  predictedFeelingLabel: string;
+  copyLabel: string;
+  copiedLabel: string;
+  /** Called after the shown suggestion was copied to the clipboard. */
+  onCopy?: (suggestion: string) => void;
+  /** Puts the shown suggestion in place of the user's draft; the button is hidden without it. */
+  onApply?: (suggestion: string) => void;
+  applyLabel?: string;
+  /** Renders how the shown suggestion differs from the draft; the toggle is hidden without it. */
+  renderChanges?: (suggestion: string) => React.ReactNode;
+  showChangesLabel?: string;
+  hideChangesLabel?: string;
+  /** Asks for a revision of the shown suggestion; the refinement box is hidden without it. */
+  onRefine?: (refinement: SuggestionRefinement) => void;
+  refineLabel?: string;
+  refinePlaceholder?: string;
+  feedbackPrompt?: string;
+  feedbackThanks?: string;
+  likeButtonLabel?: string;
+  dislikeButtonLabel?: string;
+  feedbackCommentPlaceholder?: string;
+  submitFeedbackButtonLabel?: string;
+  /** Feedback keys (alternative tone, or 'default') that already received feedback. */
+  submittedFeedback?: string[];
+  /** The feedback controls are hidden without it, e.g. where records cannot be stored. */
+  onFeedback?: (type: FeedbackRating, comment?: string, alternative?: SuggestionAlternative) => void;
 }
 
+export const getFeedbackKey = (alternative?: SuggestionAlternative) => alternative?.tone ?? 'default';
+
 const SuggestionCard: React.FC<SuggestionCardProps> = ({ 
     suggestion, 
     explanation, 
+    alternatives,
+    isPending = false,
     title, 
     explanationPrefix,
+    toneLabels,
+    predictedFeelingLabel,
+    copyLabel,
+    copiedLabel,
+    onCopy,
+    onApply,
+    applyLabel,
+    renderChanges,
+    showChangesLabel,
+    hideChangesLabel,
+    onRefine,
+    refineLabel,
+    refinePlaceholder,
     feedbackPrompt,
     feedbackThanks,
     likeButtonLabel,
     dislikeButtonLabel,
     feedbackCommentPlaceholder,
     submitFeedbackButtonLabel,
-    feedbackState,
+    submittedFeedback = [],
     onFeedback
 }) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
   const [isCommentVisible, setIsCommentVisible] = useState(false);
   const [comment, setComment] = useState('');
+  const [isCopied, setIsCopied] = useState(false);
+  const [isShowingChanges, setIsShowingChanges] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [alternatives]);
+
+  useEffect(() => {
+    setIsCommentVisible(false);
+    setComment('');
+    setIsCopied(false);
+  }, [selectedIndex, alternatives]);
+
+  const selected = alternatives?.[selectedIndex];
+  const shownSuggestion = selected ? selected.suggestion : suggestion;
+  const shownExplanation = selected ? selected.explanation : explanation;
+  const feedbackState = submittedFeedback.includes(getFeedbackKey(selected)) ? 'submitted' : 'none';
 
   const handleDislikeClick = () => {
     setIsCommentVisible(true);
   };
 
   const handleLikeClick = () => {
-    onFeedback('like');
+    onFeedback?.('like', undefined, selected);
   }
 
   const handleCommentSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onFeedback('dislike', comment);
+    onFeedback?.('dislike', comment, selected);
+  };
+
+  const handleRefineSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim()) return;
+    onRefine?.({ suggestion: shownSuggestion, explanation: shownExplanation, instruction: instruction.trim() });
+    setInstruction('');
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shownSuggestion);
+      setIsCopied(true);
+      onCopy?.(shownSuggestion);
+    } catch (err) {
+      console.error('Failed to copy suggestion:', err);
+    }
   };
   
   return (
@@ -52,52 +129,107 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({
         <div className="flex-shrink-0">
           <LightbulbIcon className="h-8 w-8 text-emerald-500 dark:text-emerald-400 mt-1" />
         </div>
-        <div>
+        <div className="flex-grow">
           <h3 className="text-lg font-semibold text-emerald-800 dark:text-emerald-200">{title}</h3>
-          <p className="mt-2 text-lg text-slate-800 dark:text-slate-100 bg-white dark:bg-slate-800/50 rounded-lg p-4">
-            "{suggestion}"
-          </p>
-          <p className="mt-4 text-sm text-slate-600 dark:text-slate-400">
-            <span className="font-semibold">{explanationPrefix}</span> {explanation}
+          {alternatives && alternatives.length > 1 && (
+            <div className="mt-3 flex flex-wrap gap-2" role="tablist">
+              {alternatives.map((alternative, index) => (
+                <button key={alternative.tone} role="tab" aria-selected={index === selectedIndex} onClick={() => setSelectedIndex(index)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${index === selectedIndex ? 'bg-emerald-600 text-white' : 'bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 hover:bg-emerald-100 dark:hover:bg-slate-600'}`}>
+                  {index + 1}. {toneLabels[alternative.tone] ?? alternative.tone}
+                </button>
+              ))}
+            </div>
+          )}
+          {isShowingChanges && renderChanges && !isPending ? (
+            <div className="mt-2">{renderChanges(shownSuggestion)}</div>
+          ) : (
+            <p className="mt-2 text-lg text-slate-800 dark:text-slate-100 bg-white dark:bg-slate-800/50 rounded-lg p-4">
+              "{shownSuggestion}"
+            </p>
+          )}
+          {!isPending && (
+            <div className="mt-2 flex justify-end gap-4">
+              {renderChanges && (
+                <button onClick={() => setIsShowingChanges(showing => !showing)} aria-pressed={isShowingChanges}
+                  className="text-xs font-medium text-emerald-700 dark:text-emerald-300 hover:underline">
+                  {isShowingChanges ? hideChangesLabel : showChangesLabel}
+                </button>
+              )}
+              {onApply && (
+                <button onClick={() => onApply(shownSuggestion)} className="text-xs font-medium text-emerald-700 dark:text-emerald-300 hover:underline">
+                  {applyLabel}
+                </button>
+              )}
+              <button onClick={handleCopy} className="text-xs font-medium text-emerald-700 dark:text-emerald-300 hover:underline">
+                {isCopied ? copiedLabel : copyLabel}
+              </button>
+            </div>
+          )}
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+            <span className="font-semibold">{explanationPrefix}</span> {shownExplanation}
           </p>
+          {selected && (
+            <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+              <span className="font-semibold">{predictedFeelingLabel}:</span> {selected.recipientImpact.predictedFeeling} — {selected.recipientImpact.impactExplanation}
+            </p>
+          )}
+          {!isPending && onRefine && (
+            <form onSubmit={handleRefineSubmit} className="mt-4 flex gap-2">
+              <input
+                type="text"
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder={refinePlaceholder}
+                aria-label={refineLabel}
+                className="flex-grow min-w-0 p-2 text-sm border border-emerald-200 dark:border-emerald-700 rounded-md bg-white dark:bg-slate-800 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+              />
+              <button type="submit" disabled={!instruction.trim()}
+                className="px-3 py-2 text-sm font-medium rounded-md text-white bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-500">
+                {refineLabel}
+              </button>
+            </form>
+          )}
         </div>
       </div>
       
-      <div className="mt-6 pt-6 border-t border-emerald-200 dark:border-emerald-700/50">
-        {feedbackState === 'submitted' ? (
-           <p className="text-center text-sm font-medium text-emerald-700 dark:text-emerald-300">{feedbackThanks}</p>
-        ) : (
-          <div>
-            <p className="text-center text-sm font-medium text-slate-600 dark:text-slate-400 mb-4">{feedbackPrompt}</p>
-            <div className="flex justify-center gap-4">
-              <button onClick={handleLikeClick} aria-label={likeButtonLabel} className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-white dark:bg-slate-700 hover:bg-slate-100 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors shadow">
-                <ThumbsUpIcon className="w-5 h-5" />
-                <span>{likeButtonLabel}</span>
-              </button>
-              <button onClick={handleDislikeClick} aria-label={dislikeButtonLabel} className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-white dark:bg-slate-700 hover:bg-slate-100 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors shadow">
-                <ThumbsDownIcon className="w-5 h-5" />
-                <span>{dislikeButtonLabel}</span>
-              </button>
-            </div>
-            {isCommentVisible && (
-              <form onSubmit={handleCommentSubmit} className="mt-4 space-y-2 animate-fade-in">
-                <textarea
-                  value={comment}
-                  onChange={(e) => setComment(e.target.value)}
-                  placeholder={feedbackCommentPlaceholder}
-                  rows={2}
-                  className="w-full p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition duration-150"
-                />
-                <button type="submit" className="w-full px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500">
-                  {submitFeedbackButtonLabel}
+      {!isPending && onFeedback && (
+        <div className="mt-6 pt-6 border-t border-emerald-200 dark:border-emerald-700/50">
+          {feedbackState === 'submitted' ? (
+             <p className="text-center text-sm font-medium text-emerald-700 dark:text-emerald-300">{feedbackThanks}</p>
+          ) : (
+            <div>
+              <p className="text-center text-sm font-medium text-slate-600 dark:text-slate-400 mb-4">{feedbackPrompt}</p>
+              <div className="flex justify-center gap-4">
+                <button onClick={handleLikeClick} aria-label={likeButtonLabel} className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-white dark:bg-slate-700 hover:bg-slate-100 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors shadow">
+                  <ThumbsUpIcon className="w-5 h-5" />
+                  <span>{likeButtonLabel}</span>
                 </button>
-              </form>
-            )}
-          </div>
-        )}
-      </div>
+                <button onClick={handleDislikeClick} aria-label={dislikeButtonLabel} className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-white dark:bg-slate-700 hover:bg-slate-100 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors shadow">
+                  <ThumbsDownIcon className="w-5 h-5" />
+                  <span>{dislikeButtonLabel}</span>
+                </button>
+              </div>
+              {isCommentVisible && (
+                <form onSubmit={handleCommentSubmit} className="mt-4 space-y-2 animate-fade-in">
+                  <textarea
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder={feedbackCommentPlaceholder}
+                    rows={2}
+                    className="w-full p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500 transition duration-150"
+                  />
+                  <button type="submit" className="w-full px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500">
+                    {submitFeedbackButtonLabel}
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default SuggestionCard;
\ No newline at end of file
+export default SuggestionCard;
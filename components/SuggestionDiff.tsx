@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import { FlaggedPhrase, PhraseCategory } from '../types';
+import { diffWords } from '../services/wordDiff';
+import { screenText, ScreeningFlagType } from '../services/toneScreening';
+
+interface SuggestionDiffProps {
+  original: string;
+  suggestion: string;
+  /** Phrases the model flagged in `original`; their explanations annotate the changes that remove them. */
+  phrases?: FlaggedPhrase[];
+  language: string;
+  originalLabel: string;
+  suggestionLabel: string;
+  categoryLabels: { [key in PhraseCategory]: string };
+  flagLabels: { [key in ScreeningFlagType]: string };
+  addedLabel: string;
+  removedLabel: string;
+  rewordedLabel: string;
+}
+
+interface Annotation {
+  removed: string;
+  added: string;
+  label: string;
+  detail?: string;
+}
+
+type Part = { text: string; marker?: number };
+
+const overlaps = (start: number, end: number, range: { start: number; end: number }) =>
+  range.start < Math.max(end, start + 1) && range.end > start;
+
+/**
+ * The draft and the suggestion side by side, word by word. Each change is
+ * numbered and tied to the flagged phrase or screening rule it addresses, so
+ * the pattern behind the rewrite is visible rather than just its result.
+ */
+const SuggestionDiff: React.FC<SuggestionDiffProps> = ({
+    original,
+    suggestion,
+    phrases = [],
+    language,
+    originalLabel,
+    suggestionLabel,
+    categoryLabels,
+    flagLabels,
+    addedLabel,
+    removedLabel,
+    rewordedLabel,
+}) => {
+  // Labels are rebuilt on every render of the parent, so only the texts key the diff itself.
+  const hunks = useMemo(() => diffWords(original, suggestion, language), [original, suggestion, language]);
+  const flags = useMemo(() => screenText(original, language).flags, [original, language]);
+
+  const before: Part[] = [];
+  const after: Part[] = [];
+  const annotations: Annotation[] = [];
+  hunks.forEach(hunk => {
+    if (hunk.type === 'equal' || (!hunk.removed.trim() && !hunk.added.trim())) {
+      before.push({ text: hunk.type === 'equal' ? hunk.text : hunk.removed });
+      after.push({ text: hunk.type === 'equal' ? hunk.revisedText : hunk.added });
+      return;
+    }
+    const marker = annotations.length + 1;
+    if (hunk.removed) before.push({ text: hunk.removed, marker });
+    if (hunk.added) after.push({ text: hunk.added, marker });
+
+    const phrase = phrases.find(candidate => overlaps(hunk.start, hunk.end, candidate));
+    const flag = flags.find(candidate => overlaps(hunk.start, hunk.end, candidate));
+    annotations.push({
+      removed: hunk.removed.trim(),
+      added: hunk.added.trim(),
+      label: phrase ? categoryLabels[phrase.category]
+        : flag ? flagLabels[flag.type]
+        : !hunk.added.trim() ? removedLabel
+        : !hunk.removed.trim() ? addedLabel
+        : rewordedLabel,
+      detail: phrase?.explanation,
+    });
+  });
+
+  const renderMarker = (marker: number) => (
+    <sup className="ml-0.5 text-[10px] font-bold text-slate-500 dark:text-slate-400 no-underline">{marker}</sup>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">{originalLabel}</p>
+          <p className="mt-1 p-3 rounded-lg bg-white dark:bg-slate-800/50 text-sm leading-relaxed text-slate-800 dark:text-slate-100 whitespace-pre-wrap">
+            {before.map((part, index) => part.marker ? (
+              <span key={index}>
+                <del className="bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200 decoration-red-500">{part.text}</del>
+                {renderMarker(part.marker)}
+              </span>
+            ) : <span key={index}>{part.text}</span>)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-emerald-600 dark:text-emerald-400">{suggestionLabel}</p>
+          <p className="mt-1 p-3 rounded-lg bg-white dark:bg-slate-800/50 text-sm leading-relaxed text-slate-800 dark:text-slate-100 whitespace-pre-wrap">
+            {after.map((part, index) => part.marker ? (
+              <span key={index}>
+                <ins className="bg-emerald-100 dark:bg-emerald-900/50 text-emerald-800 dark:text-emerald-200 no-underline">{part.text}</ins>
+                {renderMarker(part.marker)}
+              </span>
+            ) : <span key={index}>{part.text}</span>)}
+          </p>
+        </div>
+      </div>
+      {annotations.length > 0 && (
+        <ol className="space-y-2 text-sm text-slate-700 dark:text-slate-300">
+          {annotations.map((annotation, index) => (
+            <li key={index} className="flex gap-2">
+              <span className="flex-shrink-0 w-5 h-5 rounded-full bg-slate-200 dark:bg-slate-700 text-[11px] font-bold flex items-center justify-center">{index + 1}</span>
+              <div>
+                <p>
+                  <span className="font-semibold">{annotation.label}</span>
+                  {annotation.removed && <> · <del className="text-red-700 dark:text-red-300">{annotation.removed}</del></>}
+                  {annotation.removed && annotation.added && ' → '}
+                  {annotation.added && <>{!annotation.removed && ' · '}<ins className="text-emerald-700 dark:text-emerald-300 no-underline">{annotation.added}</ins></>}
+                </p>
+                {annotation.detail && <p className="text-slate-500 dark:text-slate-400">{annotation.detail}</p>}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default SuggestionDiff;
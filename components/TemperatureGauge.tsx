@@ -3,9 +3,15 @@ import React from 'react';
 interface TemperatureGaugeProps {
   temperature: number;
   title: string;
+  /** Shown under the gauge, e.g. to mark a provisional score. */
+  caption?: string;
+  /** A second score drawn as an inner ring, e.g. the vocal temperature of a recording. */
+  secondaryTemperature?: number;
+  primaryLabel?: string;
+  secondaryLabel?: string;
 }
 
-const TemperatureGauge: React.FC<TemperatureGaugeProps> = ({ temperature, title }) => {
+const TemperatureGauge: React.FC<TemperatureGaugeProps> = ({ temperature, title, caption, secondaryTemperature, primaryLabel, secondaryLabel }) => {
   const getTemperatureColor = (temp: number) => {
     if (temp <= 33) return 'bg-sky-500'; // Cool
     if (temp <= 66) return 'bg-yellow-500'; // Warm
@@ -26,6 +32,9 @@ const TemperatureGauge: React.FC<TemperatureGaugeProps> = ({ temperature, title
 
   const circumference = 2 * Math.PI * 52; // 2 * pi * r
   const strokeDashoffset = circumference - (temperature / 100) * circumference;
+  const hasSecondary = secondaryTemperature !== undefined;
+  const innerCircumference = 2 * Math.PI * 36;
+  const innerDashoffset = innerCircumference - ((secondaryTemperature ?? 0) / 100) * innerCircumference;
 
   return (
     <div className="flex flex-col items-center justify-center p-6 bg-white dark:bg-slate-800 rounded-2xl shadow-lg">
@@ -51,14 +60,43 @@ const TemperatureGauge: React.FC<TemperatureGaugeProps> = ({ temperature, title
             strokeDashoffset={strokeDashoffset}
             strokeLinecap="round"
           />
+          {hasSecondary && (
+            <>
+              <circle className="stroke-current text-slate-200 dark:text-slate-700" cx="60" cy="60" r="36" fill="none" strokeWidth="8" />
+              <circle
+                className={`transform -rotate-90 origin-center transition-all duration-1000 ease-out ${getTemperatureRingColor(secondaryTemperature)}`}
+                cx="60"
+                cy="60"
+                r="36"
+                fill="none"
+                strokeWidth="8"
+                strokeDasharray={innerCircumference}
+                strokeDashoffset={innerDashoffset}
+                strokeLinecap="round"
+              />
+            </>
+          )}
         </svg>
         <div className="absolute inset-0 flex flex-col items-center justify-center">
-          <span className={`text-5xl font-bold ${getTemperatureTextColor(temperature)}`}>
+          <span className={`${hasSecondary ? 'text-3xl' : 'text-5xl'} font-bold ${getTemperatureTextColor(temperature)}`}>
             {temperature}
           </span>
           <span className="text-sm font-medium text-slate-500 dark:text-slate-400">°C</span>
         </div>
       </div>
+      {hasSecondary && (
+        <dl className="mt-4 flex gap-6 text-sm text-center">
+          <div>
+            <dt className="text-slate-500 dark:text-slate-400">{primaryLabel}</dt>
+            <dd className={`font-semibold ${getTemperatureTextColor(temperature)}`}>{temperature}°C</dd>
+          </div>
+          <div>
+            <dt className="text-slate-500 dark:text-slate-400">{secondaryLabel}</dt>
+            <dd className={`font-semibold ${getTemperatureTextColor(secondaryTemperature)}`}>{secondaryTemperature}°C</dd>
+          </div>
+        </dl>
+      )}
+      {caption && <p className="mt-4 text-sm text-center text-slate-500 dark:text-slate-400">{caption}</p>}
     </div>
   );
 };
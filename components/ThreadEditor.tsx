@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ConversationTurn } from '../types';
+import { parseConversation } from '../services/conversationThread';
+import { TrashIcon } from './IconComponents';
+
+interface ThreadEditorProps {
+  turns: ConversationTurn[];
+  onChange: (turns: ConversationTurn[]) => void;
+  defaultSpeakers: [string, string];
+  disabled: boolean;
+  speakerPlaceholder: string;
+  messagePlaceholder: string;
+  timestampLabel: string;
+  addTurnLabel: string;
+  removeTurnLabel: string;
+  pasteLabel: string;
+  pastePlaceholder: string;
+  pasteButtonLabel: string;
+}
+
+const ThreadEditor: React.FC<ThreadEditorProps> = ({
+    turns,
+    onChange,
+    defaultSpeakers,
+    disabled,
+    speakerPlaceholder,
+    messagePlaceholder,
+    timestampLabel,
+    addTurnLabel,
+    removeTurnLabel,
+    pasteLabel,
+    pastePlaceholder,
+    pasteButtonLabel,
+}) => {
+  const [isPasteVisible, setIsPasteVisible] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+
+  const updateTurn = (index: number, changes: Partial<ConversationTurn>) => {
+    onChange(turns.map((turn, i) => (i === index ? { ...turn, ...changes } : turn)));
+  };
+
+  const removeTurn = (index: number) => {
+    onChange(turns.filter((_, i) => i !== index));
+  };
+
+  // New turns alternate speakers the way a back-and-forth usually does.
+  const addTurn = () => {
+    const speaker = turns.length >= 2
+      ? turns[turns.length - 2].speaker
+      : defaultSpeakers[turns.length % 2];
+    onChange([...turns, { speaker, text: '' }]);
+  };
+
+  const handlePasteSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseConversation(pastedText);
+    if (parsed.length === 0) return;
+    onChange(parsed);
+    setPastedText('');
+    setIsPasteVisible(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-2">
+        {turns.map((turn, index) => (
+          <li key={index} className="flex gap-2 items-start">
+            <div className="w-28 flex-shrink-0 space-y-1">
+              <input
+                type="text"
+                value={turn.speaker}
+                onChange={(e) => updateTurn(index, { speaker: e.target.value })}
+                placeholder={speakerPlaceholder}
+                aria-label={speakerPlaceholder}
+                disabled={disabled}
+                className="w-full p-2 text-sm font-medium border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+              />
+              {/* Only transcripts read from screenshots carry timestamps. */}
+              {turn.timestamp !== undefined && (
+                <input
+                  type="text"
+                  value={turn.timestamp}
+                  onChange={(e) => updateTurn(index, { timestamp: e.target.value })}
+                  placeholder={timestampLabel}
+                  aria-label={timestampLabel}
+                  disabled={disabled}
+                  className="w-full px-2 py-1 text-xs text-slate-500 dark:text-slate-400 border border-slate-200 dark:border-slate-700 rounded-md bg-transparent focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                />
+              )}
+            </div>
+            <textarea
+              rows={1}
+              value={turn.text}
+              onChange={(e) => updateTurn(index, { text: e.target.value })}
+              placeholder={messagePlaceholder}
+              aria-label={messagePlaceholder}
+              disabled={disabled}
+              className="flex-grow p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+            <button onClick={() => removeTurn(index)} disabled={disabled} aria-label={removeTurnLabel}
+              className="p-2 text-slate-400 hover:text-red-500 disabled:opacity-50 transition-colors">
+              <TrashIcon className="h-5 w-5" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={addTurn} disabled={disabled}
+          className="px-3 py-1.5 text-xs font-medium rounded-full bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors">
+          + {addTurnLabel}
+        </button>
+        <button onClick={() => setIsPasteVisible(visible => !visible)} disabled={disabled}
+          className="px-3 py-1.5 text-xs font-medium rounded-full bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors">
+          {pasteLabel}
+        </button>
+      </div>
+      {isPasteVisible && (
+        <form onSubmit={handlePasteSubmit} className="space-y-2 animate-fade-in">
+          <textarea
+            rows={5}
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder={pastePlaceholder}
+            className="w-full p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          />
+          <button type="submit" disabled={!pastedText.trim()}
+            className="w-full px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 disabled:bg-slate-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500">
+            {pasteButtonLabel}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default ThreadEditor;
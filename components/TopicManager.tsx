@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import { CoachingTopic, LocalizedList } from '../types';
+import { MAX_TOPIC_LENGTH, getLocalizedList, getLocalizedText, getTopicInstruction, isDefaultTopic } from '../services/coachingTopics';
+import { createTopic, isTopicModified } from '../services/topicStore';
+import { TrashIcon } from './IconComponents';
+
+interface TopicManagerProps {
+  topics: CoachingTopic[];
+  language: string;
+  languages: { id: string; label: string }[];
+  onSave: (topic: CoachingTopic) => void;
+  onDelete: (id: string) => void;
+  onImport: (json: string) => void;
+  onExport: () => void;
+  title: string;
+  newTopicLabel: string;
+  editLabel: string;
+  deleteLabel: string;
+  resetLabel: string;
+  importLabel: string;
+  exportLabel: string;
+  iconLabel: string;
+  nameLabel: string;
+  instructionLabel: string;
+  instructionPlaceholder: string;
+  examplesLabel: string;
+  examplesPlaceholder: string;
+  /** Shown when a language's name and instruction together exceed MAX_TOPIC_LENGTH. */
+  tooLongLabel: string;
+  editingLanguageLabel: string;
+  saveLabel: string;
+  cancelLabel: string;
+}
+
+const inputClassName = 'w-full p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+const labelClassName = 'block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1';
+
+// Measured the way the server does, on what one request would send.
+const topicLength = (topic: CoachingTopic, language: string) => {
+  const resolved = getTopicInstruction(topic, language);
+  return resolved ? resolved.name.length + resolved.instruction.length : 0;
+};
+
+const TopicManager: React.FC<TopicManagerProps> = ({
+    topics,
+    language,
+    languages,
+    onSave,
+    onDelete,
+    onImport,
+    onExport,
+    title,
+    newTopicLabel,
+    editLabel,
+    deleteLabel,
+    resetLabel,
+    importLabel,
+    exportLabel,
+    iconLabel,
+    nameLabel,
+    instructionLabel,
+    instructionPlaceholder,
+    examplesLabel,
+    examplesPlaceholder,
+    tooLongLabel,
+    editingLanguageLabel,
+    saveLabel,
+    cancelLabel,
+}) => {
+  const [draft, setDraft] = useState<CoachingTopic | null>(null);
+  // Names, instructions and examples are edited one language at a time.
+  const [draftLanguage, setDraftLanguage] = useState(language);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEditing = (topic: CoachingTopic) => {
+    setDraft(topic);
+    setDraftLanguage(language);
+  };
+
+  const updateLocalized = (field: 'name' | 'instructions', value: string) => {
+    setDraft(current => current && { ...current, [field]: { ...current[field], [draftLanguage]: value } });
+  };
+
+  const updateExamples = (value: string) => {
+    setDraft(current => current && { ...current, examples: { ...current.examples, [draftLanguage]: value.split('\n') } });
+  };
+
+  const isTooLong = !!draft && languages.some(({ id }) => topicLength(draft, id) > MAX_TOPIC_LENGTH);
+  const canSave = !!draft && !!getLocalizedText(draft.name, draftLanguage) && !isTooLong;
+
+  const handleSave = () => {
+    if (!draft || !canSave) return;
+    const examples: LocalizedList = {};
+    Object.entries<string[]>(draft.examples).forEach(([lang, list]) => {
+      const kept = list.map(example => example.trim()).filter(Boolean);
+      if (kept.length > 0) examples[lang] = kept;
+    });
+    onSave({ ...draft, examples });
+    setDraft(null);
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImport(await file.text());
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg space-y-4 animate-fade-in">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{title}</h3>
+        <div className="flex items-center gap-3 text-xs font-medium">
+          <button onClick={() => startEditing(createTopic())} className="text-sky-600 dark:text-sky-400 hover:underline">{newTopicLabel}</button>
+          <button onClick={() => fileInputRef.current?.click()} className="text-sky-600 dark:text-sky-400 hover:underline">{importLabel}</button>
+          <button onClick={onExport} className="text-sky-600 dark:text-sky-400 hover:underline">{exportLabel}</button>
+          <input type="file" ref={fileInputRef} onChange={handleImportFile} accept="application/json,.json" className="hidden" />
+        </div>
+      </div>
+
+      {draft ? (
+        <div className="space-y-3">
+          <div className="flex gap-3">
+            <div className="w-20">
+              <label htmlFor="topic-icon" className={labelClassName}>{iconLabel}</label>
+              <input id="topic-icon" value={draft.icon} maxLength={8} onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+                className={`${inputClassName} text-center`} />
+            </div>
+            <div className="flex-grow">
+              <label htmlFor="topic-language" className={labelClassName}>{editingLanguageLabel}</label>
+              <select id="topic-language" value={draftLanguage} onChange={(e) => setDraftLanguage(e.target.value)} className={inputClassName}>
+                {languages.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="topic-name" className={labelClassName}>{nameLabel}</label>
+            <input id="topic-name" value={draft.name[draftLanguage] ?? ''} onChange={(e) => updateLocalized('name', e.target.value)}
+              placeholder={getLocalizedText(draft.name, draftLanguage)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="topic-instruction" className={labelClassName}>{instructionLabel}</label>
+            <textarea id="topic-instruction" rows={4} value={draft.instructions[draftLanguage] ?? ''}
+              onChange={(e) => updateLocalized('instructions', e.target.value)}
+              placeholder={getLocalizedText(draft.instructions, draftLanguage) || instructionPlaceholder} className={inputClassName} />
+            <p className={`mt-1 text-xs text-right ${topicLength(draft, draftLanguage) > MAX_TOPIC_LENGTH ? 'text-red-600 dark:text-red-400' : 'text-slate-400'}`}>
+              {topicLength(draft, draftLanguage)} / {MAX_TOPIC_LENGTH}
+            </p>
+            {isTooLong && <p className="text-xs text-red-600 dark:text-red-400">{tooLongLabel}</p>}
+          </div>
+          <div>
+            <label htmlFor="topic-examples" className={labelClassName}>{examplesLabel}</label>
+            <textarea id="topic-examples" rows={3} value={(draft.examples[draftLanguage] ?? []).join('\n')}
+              placeholder={getLocalizedList(draft.examples, draftLanguage).join('\n') || examplesPlaceholder}
+              onChange={(e) => updateExamples(e.target.value)} className={inputClassName} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700">
+              {cancelLabel}
+            </button>
+            <button onClick={handleSave} disabled={!canSave}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-sky-600 hover:bg-sky-700 disabled:bg-slate-400 disabled:cursor-not-allowed">
+              {saveLabel}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+          {topics.map(topic => {
+            const isBuiltIn = isDefaultTopic(topic.id);
+            return (
+              <li key={topic.id} className="flex items-center justify-between gap-3 py-2">
+                <span className="text-sm text-slate-800 dark:text-slate-200">
+                  <span className="mr-2" aria-hidden="true">{topic.icon}</span>
+                  {getLocalizedText(topic.name, language)}
+                </span>
+                <span className="flex items-center gap-3 text-xs font-medium">
+                  <button onClick={() => startEditing(topic)} className="text-sky-600 dark:text-sky-400 hover:underline">{editLabel}</button>
+                  {isBuiltIn ? isTopicModified(topic.id) && (
+                    <button onClick={() => onDelete(topic.id)} className="text-slate-500 dark:text-slate-400 hover:underline">{resetLabel}</button>
+                  ) : (
+                    <button onClick={() => onDelete(topic.id)} aria-label={deleteLabel} title={deleteLabel}
+                      className="text-slate-400 hover:text-red-600 dark:hover:text-red-400">
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TopicManager;
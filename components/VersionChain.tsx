@@ -0,0 +1,44 @@
+import React from 'react';
+import { DraftVersion } from '../types';
+
+interface VersionChainProps {
+  versions: DraftVersion[];
+  title: string;
+  /** Contains `{number}`. */
+  versionLabel: string;
+  temperatureLabel: string;
+}
+
+const getTemperaturePillColor = (temp: number) => {
+  if (temp <= 33) return 'bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-300';
+  if (temp <= 66) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300';
+  return 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300';
+};
+
+/** The drafts a message went through on its way to the current one, oldest first. */
+const VersionChain: React.FC<VersionChainProps> = ({ versions, title, versionLabel, temperatureLabel }) => (
+  <div className="bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-lg animate-fade-in">
+    <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-200">{title}</h3>
+    <ol className="mt-4 flex gap-2 overflow-x-auto pb-2">
+      {versions.map((version, index) => (
+        <li key={index} className="flex items-stretch gap-2 flex-shrink-0">
+          {index > 0 && <span className="self-center text-slate-400" aria-hidden="true">→</span>}
+          <div className={`w-56 p-3 rounded-lg border ${index === versions.length - 1 ? 'border-sky-400 dark:border-sky-600' : 'border-slate-200 dark:border-slate-700'}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">{versionLabel.replace('{number}', String(index + 1))}</span>
+              <span className={`px-2 py-0.5 text-xs font-bold rounded-full ${getTemperaturePillColor(version.temperature)}`} title={temperatureLabel}>
+                {version.temperature}
+              </span>
+            </div>
+            {version.instruction && (
+              <p className="mt-1 text-xs italic text-slate-500 dark:text-slate-400 truncate" title={version.instruction}>“{version.instruction}”</p>
+            )}
+            <p className="mt-1 text-sm text-slate-700 dark:text-slate-300 line-clamp-3" title={version.text}>{version.text}</p>
+          </div>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default VersionChain;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { ConversationTurn, TurnAnalysis } from '../types';
+import { MicrophoneIcon, TrashIcon } from './IconComponents';
+
+interface VoiceConversationProps {
+  turns: ConversationTurn[];
+  /** Per-turn results of the latest analysis, by turn index. */
+  turnAnalyses?: TurnAnalysis[];
+  interimText: string;
+  speakers: string[];
+  activeSpeaker: string;
+  isRecording: boolean;
+  onActiveSpeakerChange: (speaker: string) => void;
+  onRenameSpeaker: (index: number, name: string) => void;
+  onTurnsChange: (turns: ConversationTurn[]) => void;
+  onToggleRecording: () => void;
+  activeSpeakerLabel: string;
+  speakerPlaceholder: string;
+  emptyLabel: string;
+  listeningLabel: string;
+  recordLabel: string;
+  stopLabel: string;
+  speakerLabel: string;
+  removeTurnLabel: string;
+}
+
+const SPEAKER_COLORS = ['bg-sky-500', 'bg-purple-500'];
+
+const temperatureClassName = (temperature: number) =>
+  temperature <= 33 ? 'text-sky-600 dark:text-sky-400' : temperature <= 66 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400';
+
+/**
+ * Live transcript of a spoken conversation. Each utterance is tagged with
+ * whoever was marked as speaking when it ended, and can be re-tagged later.
+ */
+const VoiceConversation: React.FC<VoiceConversationProps> = ({
+    turns,
+    turnAnalyses,
+    interimText,
+    speakers,
+    activeSpeaker,
+    isRecording,
+    onActiveSpeakerChange,
+    onRenameSpeaker,
+    onTurnsChange,
+    onToggleRecording,
+    activeSpeakerLabel,
+    speakerPlaceholder,
+    emptyLabel,
+    listeningLabel,
+    recordLabel,
+    stopLabel,
+    speakerLabel,
+    removeTurnLabel,
+}) => {
+  const updateSpeaker = (index: number, speaker: string) => {
+    onTurnsChange(turns.map((turn, i) => (i === index ? { ...turn, speaker } : turn)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={onToggleRecording}
+          className={`flex items-center justify-center px-5 py-2.5 border text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors ${
+            isRecording
+            ? 'border-red-500 text-red-600 bg-red-50 hover:bg-red-100 dark:bg-red-900/50 dark:text-red-300 dark:hover:bg-red-900 focus:ring-red-500 animate-pulse'
+            : 'border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 hover:bg-slate-50 dark:hover:bg-slate-600 focus:ring-sky-500'
+          }`}>
+          <MicrophoneIcon className="h-5 w-5 mr-2" />
+          {isRecording ? stopLabel : recordLabel}
+        </button>
+        <span className="text-xs font-medium text-slate-600 dark:text-slate-400">{activeSpeakerLabel}</span>
+        {speakers.map((speaker, index) => (
+          <div key={index} className={`flex items-center rounded-full border-2 transition-colors ${speaker === activeSpeaker ? 'border-sky-500 bg-sky-50 dark:bg-sky-900/40' : 'border-slate-200 dark:border-slate-600'}`}>
+            <button onClick={() => onActiveSpeakerChange(speaker)} aria-pressed={speaker === activeSpeaker}
+              className="pl-3 pr-1 py-1" aria-label={speaker}>
+              <span className={`inline-block w-3 h-3 rounded-full ${SPEAKER_COLORS[index % SPEAKER_COLORS.length]}`}></span>
+            </button>
+            <input value={speaker} placeholder={speakerPlaceholder} onChange={(e) => onRenameSpeaker(index, e.target.value)}
+              onFocus={() => onActiveSpeakerChange(speaker)}
+              className="w-28 bg-transparent pr-3 py-1 text-sm text-slate-800 dark:text-slate-200 focus:outline-none" />
+          </div>
+        ))}
+      </div>
+
+      <ol className="space-y-2 max-h-80 overflow-y-auto" aria-live="polite">
+        {turns.length === 0 && !interimText && (
+          <li className="text-sm text-slate-500 dark:text-slate-400">{emptyLabel}</li>
+        )}
+        {turns.map((turn, index) => {
+          const analysis = turnAnalyses?.[index];
+          return (
+            <li key={index} className="flex items-start gap-2 p-2 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+              <select value={turn.speaker} onChange={(e) => updateSpeaker(index, e.target.value)} aria-label={speakerLabel}
+                className="text-xs font-medium bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-1 px-1.5">
+                {[...new Set([...speakers, turn.speaker])].map(speaker => <option key={speaker} value={speaker}>{speaker}</option>)}
+              </select>
+              <p className="flex-grow text-sm text-slate-800 dark:text-slate-200">{turn.text}</p>
+              {analysis && (
+                <span className={`text-xs font-semibold whitespace-nowrap ${temperatureClassName(analysis.temperature)}`} title={analysis.emotion}>
+                  {analysis.temperature}°C{analysis.isEscalation ? ' ▲' : ''}
+                </span>
+              )}
+              <button onClick={() => onTurnsChange(turns.filter((_, i) => i !== index))} aria-label={removeTurnLabel} title={removeTurnLabel}
+                className="text-slate-400 hover:text-red-600 dark:hover:text-red-400">
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </li>
+          );
+        })}
+        {interimText && (
+          <li className="flex items-start gap-2 p-2 text-sm italic text-slate-500 dark:text-slate-400">
+            <span className="font-medium not-italic">{activeSpeaker || listeningLabel}</span>
+            <span>{interimText}</span>
+          </li>
+        )}
+      </ol>
+    </div>
+  );
+};
+
+export default VoiceConversation;
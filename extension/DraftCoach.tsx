@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AnalysisResult } from '../types';
+import { AnalysisError } from '../services/analysisErrors';
+import { createAnalysisRequestManager } from '../services/analysisRequestManager';
+import { DEFAULT_TOPIC_ID } from '../services/coachingTopics';
+import { screenText, shouldEscalate } from '../services/toneScreening';
+import SuggestionCard from '../components/SuggestionCard';
+import ScreeningFlags from '../components/ScreeningFlags';
+import { translations, Language, errorMessageKeys } from '../translations';
+import { EditableField, findEditableField, readFieldText, writeFieldText } from './editableField';
+
+const ANALYSIS_DELAY_MS = 1000;
+const BADGE_SIZE = 32;
+const PANEL_WIDTH = 384;
+const PANEL_MAX_HEIGHT = 480;
+const EDGE_MARGIN = 8;
+
+const analysisRequests = createAnalysisRequestManager();
+
+const badgeColor = (temperature: number) => {
+  if (temperature <= 33) return 'bg-sky-500';
+  if (temperature <= 66) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+interface DraftCoachProps {
+  language: Language;
+  /** The element the overlay is rendered in; focus moving into it keeps the current field. */
+  host: HTMLElement;
+}
+
+/**
+ * Follows whichever text box on the page has focus, shows a temperature badge
+ * in its corner while the user types, and opens coaching for the draft inline.
+ */
+const DraftCoach: React.FC<DraftCoachProps> = ({ language, host }) => {
+  const [field, setField] = useState<EditableField | null>(null);
+  const [text, setText] = useState('');
+  const [rect, setRect] = useState<DOMRect | null>(null);
+  // Keyed by the text it was computed for, so an edited draft never shows a stale score.
+  const [analyzed, setAnalyzed] = useState<{ text: string; result: AnalysisResult } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const t = useCallback((key: keyof typeof translations.en) => {
+    return translations[language][key] || translations.en[key];
+  }, [language]);
+
+  useEffect(() => {
+    // Events from inside the overlay's shadow root are retargeted to the host.
+    const handleFocusIn = (event: FocusEvent) => {
+      if (event.target === host) return;
+      const next = findEditableField(event.composedPath()[0] ?? null);
+      setField(next);
+      if (!next) setIsOpen(false);
+    };
+    const handleInput = (event: Event) => {
+      if (event.target === host) return;
+      const next = findEditableField(event.composedPath()[0] ?? null);
+      if (!next) return;
+      setField(next);
+      setText(readFieldText(next));
+    };
+    document.addEventListener('focusin', handleFocusIn, true);
+    document.addEventListener('input', handleInput, true);
+    return () => {
+      document.removeEventListener('focusin', handleFocusIn, true);
+      document.removeEventListener('input', handleInput, true);
+    };
+  }, [host]);
+
+  useEffect(() => {
+    setText(field ? readFieldText(field) : '');
+    setIsOpen(false);
+  }, [field]);
+
+  useEffect(() => {
+    if (!field) {
+      setRect(null);
+      return;
+    }
+    const update = () => setRect(field.isConnected ? field.getBoundingClientRect() : null);
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(field);
+    window.addEventListener('scroll', update, true);
+    window.addEventListener('resize', update);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('scroll', update, true);
+      window.removeEventListener('resize', update);
+    };
+  }, [field]);
+
+  const screening = useMemo(() => screenText(text, language), [text, language]);
+  const needsModelAnalysis = shouldEscalate(screening);
+
+  // Same policy as the app: calm drafts are scored locally and never leave the page.
+  useEffect(() => {
+    setError(null);
+    if (!text.trim() || !needsModelAnalysis) {
+      analysisRequests.cancel();
+      setIsLoading(false);
+      return;
+    }
+    const handler = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const result = await analysisRequests.run({ text, language, socialTopic: DEFAULT_TOPIC_ID }, () => {});
+        if (!result) return;
+        setAnalyzed({ text, result });
+      } catch (err) {
+        console.error('PeaceTalk analysis failed:', err);
+        setError(t(errorMessageKeys[err instanceof AnalysisError ? err.code : 'unknown']));
+      }
+      setIsLoading(false);
+    }, ANALYSIS_DELAY_MS);
+    return () => clearTimeout(handler);
+  }, [text, language, needsModelAnalysis, t]);
+
+  const handleApply = (suggestion: string) => {
+    if (!field) return;
+    writeFieldText(field, suggestion);
+    setText(suggestion);
+    setIsOpen(false);
+  };
+
+  if (!field || !rect || !text.trim()) return null;
+
+  const result = analyzed?.text === text ? analyzed.result : null;
+  const temperature = result?.temperature ?? screening.temperature;
+  const opensAbove = rect.bottom + PANEL_MAX_HEIGHT > window.innerHeight && rect.top > window.innerHeight - rect.bottom;
+  const panelLeft = Math.max(EDGE_MARGIN, Math.min(rect.right - PANEL_WIDTH, window.innerWidth - PANEL_WIDTH - EDGE_MARGIN));
+
+  return (
+    <>
+      <button
+        // Keeps focus (and the caret) in the draft while the badge is clicked.
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => setIsOpen(open => !open)}
+        title={t('extensionBadgeTitle')}
+        aria-label={`${t('conversationTemperature')}: ${temperature}`}
+        aria-expanded={isOpen}
+        style={{ top: rect.bottom - BADGE_SIZE - 4, left: rect.right - BADGE_SIZE - 4, width: BADGE_SIZE, height: BADGE_SIZE }}
+        className={`fixed z-[2147483647] rounded-full text-xs font-bold text-white shadow-lg ring-2 ring-white dark:ring-slate-900 ${badgeColor(temperature)} ${isLoading ? 'animate-pulse' : ''}`}
+      >
+        {temperature}
+      </button>
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label={t('title')}
+          style={{
+            left: panelLeft,
+            width: PANEL_WIDTH,
+            maxHeight: PANEL_MAX_HEIGHT,
+            ...(opensAbove ? { bottom: window.innerHeight - rect.top + EDGE_MARGIN } : { top: rect.bottom + EDGE_MARGIN }),
+          }}
+          className="fixed z-[2147483647] overflow-y-auto rounded-2xl bg-slate-50 dark:bg-slate-900 p-3 space-y-3 shadow-2xl border border-slate-200 dark:border-slate-700 text-left"
+        >
+          <div className="flex items-center justify-between gap-2 px-1">
+            <p className="text-sm font-semibold text-slate-800 dark:text-slate-100">
+              {t('conversationTemperature')}: {temperature}{result && ` · ${result.emotion}`}
+            </p>
+            <button onClick={() => setIsOpen(false)} aria-label={t('extensionClose')} title={t('extensionClose')}
+              className="text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">✕</button>
+          </div>
+          {error && (
+            <p role="alert" className="px-1 text-sm text-red-700 dark:text-red-300">{error}</p>
+          )}
+          {result ? (
+            <SuggestionCard
+              suggestion={result.suggestion}
+              explanation={result.explanation}
+              alternatives={result.alternatives}
+              title={t('suggestionCardTitle')}
+              explanationPrefix={t('suggestionCardExplanationPrefix')}
+              toneLabels={{ brief: t('toneBrief'), warm: t('toneWarm'), assertive: t('toneAssertive'), formal: t('toneFormal') }}
+              predictedFeelingLabel={t('predictedFeeling')}
+              copyLabel={t('copySuggestion')}
+              copiedLabel={t('copied')}
+              onApply={handleApply}
+              applyLabel={t('extensionReplace')}
+            />
+          ) : (
+            <ScreeningFlags
+              flags={screening.flags}
+              title={t('screeningTitle')}
+              flagLabels={{ profanity: t('flagProfanity'), 'all-caps': t('flagAllCaps'), absolute: t('flagAbsolute'), blame: t('flagBlame') }}
+              noFlagsLabel={t('screeningNoFlags')}
+              hint={needsModelAnalysis ? (isLoading ? t('analyzingButton') : t('screeningEscalatingHint')) : t('extensionCalmHint')}
+            />
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DraftCoach;
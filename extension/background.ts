@@ -0,0 +1,21 @@
+/// <reference types="chrome" />
+import { AnalysisError } from '../services/analysisErrors';
+import { createRemoteProvider } from '../services/remoteProvider';
+import { AnalyzeMessage, AnalyzeResponse } from './messages';
+
+// Content scripts fetch with the page's origin and would need CORS on every
+// site; the worker runs with the extension's host permissions instead.
+const provider = createRemoteProvider(process.env.ANALYSIS_API_URL!);
+
+chrome.runtime.onMessage.addListener((message: AnalyzeMessage, _sender, sendResponse: (response: AnalyzeResponse) => void) => {
+  if (message?.type !== 'peacetalk:analyze') return false;
+  provider.analyze(message.request).then(
+    result => sendResponse({ result }),
+    error => sendResponse({
+      error: error instanceof Error ? error.message : 'An unknown error occurred.',
+      code: error instanceof AnalysisError ? error.code : 'unknown',
+    })
+  );
+  // Keeps the channel open for the asynchronous response.
+  return true;
+});
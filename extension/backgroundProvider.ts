@@ -0,0 +1,44 @@
+/// <reference types="chrome" />
+import { AnalysisError, isAnalysisErrorCode } from '../services/analysisErrors';
+import { AnalysisProvider } from '../services/analysisProvider';
+import { validateAnalysisResult } from '../services/analysisValidation';
+import { AnalyzeMessage, AnalyzeResponse } from './messages';
+
+const abortError = () => new DOMException('The analysis was aborted.', 'AbortError');
+
+/**
+ * Hands analyses to the extension's background worker. The worker finishes a
+ * request even after an abort; its answer is simply ignored.
+ */
+export const createBackgroundProvider = (): AnalysisProvider => {
+  const analyze: AnalysisProvider['analyze'] = (request, signal) => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => reject(abortError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const message: AnalyzeMessage = { type: 'peacetalk:analyze', request };
+    chrome.runtime.sendMessage(message).then(
+      (response: AnalyzeResponse) => {
+        signal?.removeEventListener('abort', onAbort);
+        if ('result' in response) {
+          try {
+            resolve(validateAnalysisResult(response.result, request));
+          } catch (error) {
+            reject(error);
+          }
+        } else {
+          reject(new AnalysisError(isAnalysisErrorCode(response.code) ? response.code : 'unknown', response.error));
+        }
+      },
+      (error: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        // Happens when the extension was reloaded while the page stayed open.
+        reject(new AnalysisError('network', `Failed to reach the PeaceTalk extension: ${error.message}`));
+      }
+    );
+  });
+
+  return { id: 'remote', analyze };
+};
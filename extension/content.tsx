@@ -0,0 +1,37 @@
+/// <reference types="vite/client" />
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { setAnalysisProvider } from '../services/geminiService';
+import { translations, Language } from '../translations';
+import { createBackgroundProvider } from './backgroundProvider';
+import DraftCoach from './DraftCoach';
+import styles from './overlay.css?inline';
+
+const HOST_TAG = 'peacetalk-coach';
+
+const resolveLanguage = (): Language => {
+  const language = navigator.language.split('-')[0];
+  return language in translations ? language as Language : 'en';
+};
+
+// The offline provider runs right here; everything else goes through the background worker.
+if (process.env.ANALYSIS_PROVIDER !== 'local') {
+  setAnalysisProvider(createBackgroundProvider());
+}
+
+if (!document.querySelector(HOST_TAG)) {
+  const host = document.createElement(HOST_TAG);
+  // A shadow root keeps the page's styles off the overlay and Tailwind's off the page.
+  const shadow = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = styles;
+  const container = document.createElement('div');
+  shadow.append(style, container);
+  document.documentElement.append(host);
+
+  ReactDOM.createRoot(container).render(
+    <React.StrictMode>
+      <DraftCoach language={resolveLanguage()} host={host} />
+    </React.StrictMode>
+  );
+}
@@ -0,0 +1,48 @@
+/** A text box on the host page that PeaceTalk can read and rewrite. */
+export type EditableField = HTMLTextAreaElement | HTMLInputElement | HTMLElement;
+
+// Search boxes and address fields are left alone; they never hold a message.
+const TEXT_INPUT_TYPES = ['text', ''];
+
+/** The editable field `target` belongs to, or null for anything else. */
+export const findEditableField = (target: EventTarget | null): EditableField | null => {
+  if (target instanceof HTMLTextAreaElement) return target.readOnly || target.disabled ? null : target;
+  if (target instanceof HTMLInputElement) {
+    return TEXT_INPUT_TYPES.includes(target.getAttribute('type') ?? '') && !target.readOnly && !target.disabled ? target : null;
+  }
+  if (!(target instanceof HTMLElement) || !target.isContentEditable) return null;
+  // Rich editors focus their outermost editable element; inner nodes inherit editability from it.
+  let root: HTMLElement = target;
+  while (root.parentElement?.isContentEditable) {
+    root = root.parentElement;
+  }
+  return root;
+};
+
+export const readFieldText = (field: EditableField): string =>
+  field instanceof HTMLTextAreaElement || field instanceof HTMLInputElement ? field.value : field.innerText;
+
+/**
+ * Replaces the whole draft the way typing would, so editors that keep their
+ * own model of the text (React inputs, Gmail, Slack) pick up the change.
+ */
+export const writeFieldText = (field: EditableField, text: string) => {
+  field.focus();
+  if (field instanceof HTMLTextAreaElement || field instanceof HTMLInputElement) {
+    // Frameworks track the value through the prototype setter, not the instance property.
+    const prototype = field instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+    Object.getOwnPropertyDescriptor(prototype, 'value')?.set?.call(field, text);
+    field.dispatchEvent(new Event('input', { bubbles: true }));
+    return;
+  }
+  const selection = window.getSelection();
+  const range = document.createRange();
+  range.selectNodeContents(field);
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+  // execCommand is deprecated but remains the only edit rich-text editors treat as user input.
+  if (!document.execCommand('insertText', false, text)) {
+    field.textContent = text;
+    field.dispatchEvent(new InputEvent('input', { bubbles: true, inputType: 'insertText', data: text }));
+  }
+};
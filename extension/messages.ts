@@ -0,0 +1,13 @@
+import { AnalysisErrorCode } from '../services/analysisErrors';
+import { AnalysisRequest, AnalysisResult } from '../types';
+
+/** Sent from the content script to the background worker, which owns network access. */
+export interface AnalyzeMessage {
+  type: 'peacetalk:analyze';
+  request: AnalysisRequest;
+}
+
+/** Mirrors the API server's `{ error, code }` payload so errors keep their code. */
+export type AnalyzeResponse =
+  | { result: AnalysisResult }
+  | { error: string; code: AnalysisErrorCode };
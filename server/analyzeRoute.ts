@@ -0,0 +1,153 @@
+import { AnalysisRequest, ConversationTurn, ImageAttachment, PartialAnalysisResult, RecipientContext, SuggestionRefinement, TopicInstruction } from '../types';
+import { AnalysisError } from '../services/analysisErrors';
+import { AnalysisProvider } from '../services/analysisProvider';
+import { MAX_TOPIC_LENGTH } from '../services/coachingTopics';
+import { MAX_IMAGES } from '../services/imageAttachments';
+import { FORMALITIES, RELATIONSHIP_TYPES } from '../services/recipientStore';
+
+export class BadRequestError extends AnalysisError {
+  constructor(message: string) {
+    super('bad-request', message);
+  }
+}
+
+const optionalString = (body: Record<string, unknown>, key: string): string | undefined => {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new BadRequestError(`"${key}" must be a string.`);
+  }
+  return value;
+};
+
+const MAX_TURNS = 100;
+
+const parseTurns = (value: unknown): ConversationTurn[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_TURNS) {
+    throw new BadRequestError(`"turns" must be an array of at most ${MAX_TURNS} turns.`);
+  }
+  return value.map((turn, index) => {
+    if (!turn || typeof turn.speaker !== 'string' || typeof turn.text !== 'string') {
+      throw new BadRequestError(`Turn ${index + 1} must have a string "speaker" and "text".`);
+    }
+    return typeof turn.timestamp === 'string' && turn.timestamp
+      ? { speaker: turn.speaker, text: turn.text, timestamp: turn.timestamp }
+      : { speaker: turn.speaker, text: turn.text };
+  });
+};
+
+export const parseImages = (value: unknown): ImageAttachment[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_IMAGES) {
+    throw new BadRequestError(`"images" must be an array of at most ${MAX_IMAGES} images.`);
+  }
+  return value.map((image, index) => {
+    if (!image || typeof image.base64 !== 'string' || typeof image.mimeType !== 'string' || !image.mimeType.startsWith('image/')) {
+      throw new BadRequestError(`Image ${index + 1} must have a string "base64" and an image "mimeType".`);
+    }
+    return { base64: image.base64, mimeType: image.mimeType };
+  });
+};
+
+const parseTopic = (value: unknown): TopicInstruction | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const topic = value as Record<string, unknown>;
+  if (typeof topic !== 'object' || typeof topic.name !== 'string' || typeof topic.instruction !== 'string') {
+    throw new BadRequestError('"topic" must have a string "name" and "instruction".');
+  }
+  if (topic.name.length + topic.instruction.length > MAX_TOPIC_LENGTH) {
+    throw new BadRequestError(`"topic" must be at most ${MAX_TOPIC_LENGTH} characters.`);
+  }
+  return topic.instruction.trim() ? { name: topic.name, instruction: topic.instruction } : undefined;
+};
+
+const MAX_REFINEMENT_LENGTH = 8000;
+
+const parseRefinement = (value: unknown): SuggestionRefinement | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const refinement = value as Record<string, unknown>;
+  if (typeof refinement !== 'object' || typeof refinement.suggestion !== 'string'
+      || typeof refinement.explanation !== 'string' || typeof refinement.instruction !== 'string') {
+    throw new BadRequestError('"refinement" must have a string "suggestion", "explanation" and "instruction".');
+  }
+  if (!refinement.instruction.trim()) {
+    throw new BadRequestError('"refinement.instruction" must not be empty.');
+  }
+  if (refinement.suggestion.length + refinement.explanation.length + refinement.instruction.length > MAX_REFINEMENT_LENGTH) {
+    throw new BadRequestError(`"refinement" must be at most ${MAX_REFINEMENT_LENGTH} characters.`);
+  }
+  return { suggestion: refinement.suggestion, explanation: refinement.explanation, instruction: refinement.instruction };
+};
+
+const MAX_RECIPIENT_LENGTH = 4000;
+
+const parseRecipient = (value: unknown): RecipientContext | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const recipient = value as Record<string, unknown>;
+  if (typeof recipient !== 'object') {
+    throw new BadRequestError('"recipient" must be an object.');
+  }
+  const { name, relationship, formality, culturalContext, sensitivities, preferredLanguage } = recipient;
+  if (typeof name !== 'string' || typeof culturalContext !== 'string' || typeof sensitivities !== 'string' || typeof preferredLanguage !== 'string') {
+    throw new BadRequestError('"recipient" must have a string "name", "culturalContext", "sensitivities" and "preferredLanguage".');
+  }
+  if (!RELATIONSHIP_TYPES.includes(relationship as RecipientContext['relationship'])) {
+    throw new BadRequestError(`"recipient.relationship" must be one of ${RELATIONSHIP_TYPES.join(', ')}.`);
+  }
+  if (!FORMALITIES.includes(formality as RecipientContext['formality'])) {
+    throw new BadRequestError(`"recipient.formality" must be one of ${FORMALITIES.join(', ')}.`);
+  }
+  if (name.length + culturalContext.length + sensitivities.length + preferredLanguage.length > MAX_RECIPIENT_LENGTH) {
+    throw new BadRequestError(`"recipient" must be at most ${MAX_RECIPIENT_LENGTH} characters.`);
+  }
+  return {
+    name,
+    relationship: relationship as RecipientContext['relationship'],
+    formality: formality as RecipientContext['formality'],
+    culturalContext,
+    sensitivities,
+    preferredLanguage,
+  };
+};
+
+/** Checks an untrusted JSON body against the inputs `analyzeContent` accepts. */
+export const parseAnalysisRequest = (body: unknown): AnalysisRequest => {
+  if (!body || typeof body !== 'object') {
+    throw new BadRequestError('Request body must be a JSON object.');
+  }
+  const fields = body as Record<string, unknown>;
+  const text = optionalString(fields, 'text') ?? '';
+  const language = optionalString(fields, 'language') ?? 'en';
+  const socialTopic = optionalString(fields, 'socialTopic') ?? 'general';
+  const images = parseImages(fields.images);
+  const audioBase64 = optionalString(fields, 'audioBase64');
+  const audioMimeType = optionalString(fields, 'audioMimeType');
+  const turns = parseTurns(fields.turns);
+  const topic = parseTopic(fields.topic);
+  const refinement = parseRefinement(fields.refinement);
+  const recipient = parseRecipient(fields.recipient);
+
+  if (!text.trim() && !images?.length && !turns?.some(turn => turn.text.trim())) {
+    throw new BadRequestError('One of "text", "images" or "turns" is required.');
+  }
+  if (audioBase64 && !audioMimeType?.startsWith('audio/')) {
+    throw new BadRequestError('"audioMimeType" must be an audio MIME type when audio is sent.');
+  }
+  return { text, language, socialTopic, topic, images, audioBase64, audioMimeType, turns, refinement, recipient };
+};
+
+export const handleAnalyze = (provider: AnalysisProvider, body: unknown, signal?: AbortSignal) =>
+  provider.analyze(parseAnalysisRequest(body), signal);
+
+export const handleAnalyzeStream = (
+    provider: AnalysisProvider,
+    body: unknown,
+    onPartial: (partial: PartialAnalysisResult) => void,
+    signal?: AbortSignal
+) => {
+  const request = parseAnalysisRequest(body);
+  return provider.analyzeStream
+    ? provider.analyzeStream(request, onPartial, signal)
+    : provider.analyze(request, signal);
+};
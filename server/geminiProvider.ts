@@ -0,0 +1,416 @@
+import { ApiError, GoogleGenAI, Type, Content } from "@google/genai";
+import { AnalysisRequest, AnalysisResult, ConversationTurn, PartialAnalysisResult, RecipientContext, RelationshipType, TranscriptExtractionRequest, TranscriptionRequest } from '../types';
+import { AnalysisError, errorCodeForStatus } from '../services/analysisErrors';
+import { AnalysisProvider } from '../services/analysisProvider';
+import { parseAnalysisResult, sanitizePartialResult, validateTranscript } from '../services/analysisValidation';
+import { defaultTopics, getTopicInstruction } from '../services/coachingTopics';
+import { formatConversation } from '../services/conversationThread';
+import { parsePartialJson } from '../services/partialJson';
+
+const recipientImpactSchema = {
+    type: Type.OBJECT,
+    description: "An analysis of the likely impact the user's original text (or the AI's suggested response) will have on the person receiving it.",
+    properties: {
+        predictedFeeling: {
+            type: Type.STRING,
+            description: "The likely primary emotion the recipient will feel (e.g., 'Understood', 'Relieved', 'Defensive', 'Hurt')."
+        },
+        impactExplanation: {
+            type: Type.STRING,
+            description: "A brief, one-sentence explanation of why the recipient might feel that way and the potential positive or negative impact on the conversation's progress."
+        }
+    },
+    required: ["predictedFeeling", "impactExplanation"]
+};
+
+const schema = {
+  type: Type.OBJECT,
+  properties: {
+    temperature: {
+      type: Type.INTEGER,
+      description: "A numerical score from 0 (very calm) to 100 (very aggressive/hostile) based on the overall context."
+    },
+    emotion: {
+      type: Type.STRING,
+      description: "The primary negative or conflict-driving emotion detected in the provided context (e.g., 'Anger', 'Frustration', 'Sarcasm'). If neutral, use 'Neutral'."
+    },
+    suggestion: {
+      type: Type.STRING,
+      description: "A rephrased version of the user's text or a suggested response to the conversation in the image. This should be empathetic, neutral, and constructive advice."
+    },
+    explanation: {
+      type: Type.STRING,
+      description: "A brief, one-sentence explanation of why the suggestion is an effective and constructive way to respond in the given context."
+    },
+    recipientImpact: recipientImpactSchema,
+    alternatives: {
+        type: Type.ARRAY,
+        description: "Alternative versions of the suggestion, one per tone, ranked from most to least effective for this situation. The first entry must match 'suggestion'.",
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                tone: {
+                    type: Type.STRING,
+                    enum: ["brief", "warm", "assertive", "formal"],
+                    description: "'brief': short and to the point; 'warm': emotionally supportive; 'assertive': states the user's needs clearly but respectfully; 'formal': polite and professional."
+                },
+                suggestion: {
+                    type: Type.STRING,
+                    description: "The suggested text written in this tone."
+                },
+                explanation: {
+                    type: Type.STRING,
+                    description: "A brief, one-sentence explanation of when and why this version works."
+                },
+                recipientImpact: {
+                    ...recipientImpactSchema,
+                    description: "The likely impact of this particular version on the recipient."
+                }
+            },
+            required: ["tone", "suggestion", "explanation", "recipientImpact"]
+        }
+    },
+    turns: {
+        type: Type.ARRAY,
+        description: "Only when the input is a numbered conversation thread: one entry per turn, in the same order as the input.",
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                speaker: {
+                    type: Type.STRING,
+                    description: "The speaker label of the turn, exactly as given in the input."
+                },
+                temperature: {
+                    type: Type.INTEGER,
+                    description: "A score from 0 (very calm) to 100 (very aggressive/hostile) for this turn alone, read in the context of the previous turns."
+                },
+                emotion: {
+                    type: Type.STRING,
+                    description: "The primary emotion expressed in this turn (e.g., 'Anger', 'Hurt', 'Neutral')."
+                },
+                isEscalation: {
+                    type: Type.BOOLEAN,
+                    description: "True if this turn is a point where the conflict noticeably escalates."
+                }
+            },
+            required: ["speaker", "temperature", "emotion", "isEscalation"]
+        }
+    },
+    phrases: {
+        type: Type.ARRAY,
+        description: "Only for a single message the user typed: the specific phrases in it that raise the temperature, in the order they appear. Leave empty when the text is calm.",
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                text: {
+                    type: Type.STRING,
+                    description: "The phrase quoted exactly, character for character, as it appears in the user's text."
+                },
+                category: {
+                    type: Type.STRING,
+                    enum: ["blame", "absolute", "sarcasm", "insult"],
+                    description: "'blame': accuses or faults the recipient; 'absolute': sweeping words like 'always' or 'never'; 'sarcasm': mocking or ironic phrasing; 'insult': name-calling or contempt."
+                },
+                heat: {
+                    type: Type.INTEGER,
+                    description: "How much this phrase alone inflames the message, from 0 (barely) to 100 (severely)."
+                },
+                explanation: {
+                    type: Type.STRING,
+                    description: "A brief, one-sentence explanation of why this phrase is likely to provoke the recipient."
+                },
+                rewrite: {
+                    type: Type.STRING,
+                    description: "A calmer replacement for just this phrase that fits grammatically in its place. Use an empty string if the phrase should simply be removed."
+                }
+            },
+            required: ["text", "category", "heat", "explanation", "rewrite"]
+        }
+    },
+    vocal: {
+        type: Type.OBJECT,
+        description: "Only when an audio recording is attached: how the speaker sounds, independent of the words.",
+        properties: {
+            temperature: {
+                type: Type.INTEGER,
+                description: "Emotional heat of the voice alone, from 0 (calm, soft) to 100 (shouting, hostile)."
+            },
+            cues: {
+                type: Type.ARRAY,
+                description: "Up to five short observations about the delivery, e.g. 'raised volume', 'fast speaking rate', 'sarcastic intonation', 'sighing'.",
+                items: { type: Type.STRING }
+            }
+        },
+        required: ["temperature", "cues"]
+    }
+  },
+  required: ["temperature", "emotion", "suggestion", "explanation", "recipientImpact", "alternatives"],
+  // Streamed responses surface fields in this order, so the gauge can update first.
+  propertyOrdering: ["temperature", "vocal", "emotion", "turns", "suggestion", "explanation", "recipientImpact", "phrases", "alternatives"]
+};
+
+const languageMap: { [key: string]: string } = {
+  en: 'English',
+  ko: 'Korean',
+  es: 'Spanish',
+  fr: 'French',
+  ja: 'Japanese',
+  zh: 'Chinese',
+};
+
+const MODEL = "gemini-2.5-flash";
+
+const relationshipDescriptions: { [key in RelationshipType]: string } = {
+  manager: "the user's manager or boss",
+  colleague: "a colleague at the user's level",
+  report: 'someone who reports to the user',
+  client: 'a client or customer',
+  partner: "the user's romantic partner",
+  family: 'a family member',
+  child: "the user's child",
+  friend: 'a friend',
+  other: 'someone the user knows',
+};
+
+const describeRecipient = ({ name, relationship, formality, culturalContext, sensitivities }: RecipientContext) => [
+  `- Name: ${name}`,
+  `- Relationship: ${relationshipDescriptions[relationship]}`,
+  `- Expected formality: ${formality}`,
+  ...(culturalContext.trim() ? [`- Cultural context: ${culturalContext.trim()}`] : []),
+  ...(sensitivities.trim() ? [`- Known sensitivities: ${sensitivities.trim()}`] : []),
+].join('\n');
+
+const buildGenerateParams = ({ text, language, socialTopic, topic, images = [], audioBase64, audioMimeType, turns, refinement, recipient }: AnalysisRequest, abortSignal?: AbortSignal) => {
+  const responseLanguage = languageMap[language] || 'English';
+  const isThread = !!turns && turns.length > 0;
+
+  let systemInstruction = isThread
+    ? `You are an expert communication coach named 'PeaceTalk'. The user has provided a conversation as numbered turns, each labeled with its speaker. Analyze how the emotional tone develops from turn to turn, rate every turn individually in the "turns" field, and mark the turns where the conflict escalates. The overall temperature should reflect the current state of the conversation. Predict how the latest turn will land, and suggest a constructive, empathetic next reply that would de-escalate the conversation.`
+    : images.length > 1
+    ? `You are an expert communication coach named 'PeaceTalk'. The provided images are consecutive screenshots of one conversation, in order. Read them as a single continuous conversation, counting messages that appear on two overlapping screenshots only once. The user has also provided text which might be a draft response or a question. Your goal is to give them the best advice on how to respond. Analyze the emotional tone, predict impact, and suggest a constructive, empathetic response.`
+    : images.length === 1
+    ? `You are an expert communication coach named 'PeaceTalk'. Analyze the conversation in the provided image. The user has also provided text which might be a draft response or a question. Your goal is to give them the best advice on how to respond. Analyze the emotional tone, predict impact, and suggest a constructive, empathetic response.`
+    : `You are an expert communication coach named 'PeaceTalk'. Your goal is to analyze user-provided text to identify its emotional tone, predict its likely impact on the recipient, and suggest a more constructive, empathetic, and neutral alternative.`;
+
+  // Clients send the resolved topic so custom topics work; bare ids fall back to the built-ins.
+  const builtInTopic = defaultTopics.find(({ id }) => id === socialTopic);
+  const focus = topic ?? (builtInTopic && getTopicInstruction(builtInTopic, language));
+  if (focus) {
+      systemInstruction += `\n\n**Special Coaching Focus: ${focus.name}**\n${focus.instruction}`;
+  }
+
+  if (recipient) {
+      systemInstruction += `\n\n**Recipient**\n${describeRecipient(recipient)}\nWrite the suggestion and every alternative for this person, at their level of formality and steering clear of their sensitivities. Predict "recipientImpact" for them specifically, from the relationship, cultural context and sensitivities above.`;
+  }
+
+  systemInstruction += ` Offer the suggestion in four tones (brief, warm, assertive, formal) in the "alternatives" field, ranked best first.`;
+  if (!isThread && text.trim()) {
+    systemInstruction += ` In the "phrases" field, quote the exact phrases from the user's text that make it more heated, so they can be highlighted; quotes must stay in the original language of the text.`;
+  }
+  if (audioBase64 && audioMimeType) {
+    systemInstruction += ` The user's text was spoken aloud and the recording is attached. Rate the voice separately in the "vocal" field from volume, speaking rate and intonation, and let clear vocal cues such as sarcasm inform the overall analysis.`;
+  }
+  if (refinement) {
+    systemInstruction += ` The user has already received your suggestion and now asks for changes to it. Revise "suggestion", "explanation", "recipientImpact" and "alternatives" to follow their instruction while staying constructive and calm. The temperature, emotion and phrases still describe the user's own input.`;
+  }
+  systemInstruction += ` You must always respond in ${responseLanguage} in the structured JSON format defined by the schema.`;
+  const recipientLanguage = recipient?.preferredLanguage && recipient.preferredLanguage !== language && languageMap[recipient.preferredLanguage];
+  if (recipientLanguage) {
+    systemInstruction += ` The one exception: write every "suggestion" text, including those in "alternatives", in ${recipientLanguage}, the recipient's preferred language.`;
+  }
+
+
+  const textPart = { text: isThread ? formatConversation(turns) : text || `Please analyze the conversation in the ${images.length > 1 ? 'screenshots' : 'image'} and advise me on the best way to respond to continue the conversation peacefully.` };
+  
+  const imageParts = images.map(({ base64, mimeType }) => ({ inlineData: { mimeType, data: base64 } }));
+  const input: Content = { role: 'user', parts: [...imageParts, textPart] };
+  if (audioBase64 && audioMimeType) {
+    input.parts!.push({ inlineData: { mimeType: audioMimeType, data: audioBase64 } });
+  }
+  // The earlier suggestion is replayed as the model's own turn, so the instruction reads as a follow-up to it.
+  const contents: Content[] = refinement
+    ? [
+        input,
+        { role: 'model', parts: [{ text: JSON.stringify({ suggestion: refinement.suggestion, explanation: refinement.explanation }) }] },
+        { role: 'user', parts: [{ text: refinement.instruction }] },
+      ]
+    : [input];
+
+  return {
+    model: MODEL,
+    contents,
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: schema,
+      abortSignal,
+    }
+  };
+};
+
+const toAnalysisError = (error: unknown) => {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return error;
+  }
+  console.error("Error analyzing content with Gemini API:", error);
+  if (error instanceof AnalysisError) {
+    return error;
+  }
+  if (error instanceof ApiError) {
+    return new AnalysisError(errorCodeForStatus(error.status), `Failed to get analysis from AI: ${error.message}`);
+  }
+  if (error instanceof TypeError) {
+    // fetch() reports DNS and connection failures as a bare TypeError.
+    return new AnalysisError('network', `Failed to reach the AI service: ${error.message}`);
+  }
+  if (error instanceof Error) {
+      return new AnalysisError('unknown', `Failed to get analysis from AI: ${error.message}`);
+  }
+  return new AnalysisError('unknown', "An unknown error occurred while analyzing the content.");
+};
+
+const isInvalidResponse = (error: unknown) => error instanceof AnalysisError && error.code === 'invalid-response';
+
+// The client is created on first use so that a missing key only fails the
+// call instead of the whole server at startup.
+const createClientGetter = (apiKey: string | undefined) => {
+  let ai: GoogleGenAI | null = null;
+  return () => {
+    if (!apiKey) {
+      throw new AnalysisError('missing-api-key', "GEMINI_API_KEY environment variable not set");
+    }
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+  };
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): AnalysisProvider => {
+  const getClient = createClientGetter(apiKey);
+
+  const generate = async (request: AnalysisRequest, signal?: AbortSignal): Promise<AnalysisResult> => {
+    const response = await getClient().models.generateContent(buildGenerateParams(request, signal));
+    return parseAnalysisResult(response.text, request);
+  };
+
+  const analyze = async (request: AnalysisRequest, signal?: AbortSignal): Promise<AnalysisResult> => {
+    try {
+      try {
+        return await generate(request, signal);
+      } catch (error) {
+        // Malformed output is usually a one-off; a second sample almost always parses.
+        if (!isInvalidResponse(error)) throw error;
+        console.warn("Retrying after an invalid Gemini response:", (error as Error).message);
+        return await generate(request, signal);
+      }
+    } catch (error) {
+      throw toAnalysisError(error);
+    }
+  };
+
+  const analyzeStream = async (
+      request: AnalysisRequest,
+      onPartial: (partial: PartialAnalysisResult) => void,
+      signal?: AbortSignal
+  ): Promise<AnalysisResult> => {
+    try {
+      const stream = await getClient().models.generateContentStream(buildGenerateParams(request, signal));
+      let jsonString = '';
+      for await (const chunk of stream) {
+        jsonString += chunk.text ?? '';
+        const partial = sanitizePartialResult(parsePartialJson(jsonString));
+        if (partial) {
+          onPartial(partial);
+        }
+      }
+      try {
+        return parseAnalysisResult(jsonString, request);
+      } catch (error) {
+        // The partials already on screen stay until the retried result replaces them.
+        if (!isInvalidResponse(error)) throw error;
+        console.warn("Retrying after an invalid Gemini response:", (error as Error).message);
+        return await generate(request, signal);
+      }
+    } catch (error) {
+      throw toAnalysisError(error);
+    }
+  };
+
+  return { id: 'gemini', analyze, analyzeStream };
+};
+
+export type GeminiTranscriber = (request: TranscriptionRequest, signal?: AbortSignal) => Promise<string>;
+
+/** Transcribes recorded speech for browsers without a built-in speech recognizer. */
+export const createGeminiTranscriber = (apiKey: string | undefined): GeminiTranscriber => {
+  const getClient = createClientGetter(apiKey);
+
+  return async ({ audioBase64, mimeType, language }, signal) => {
+    try {
+      const response = await getClient().models.generateContent({
+        model: MODEL,
+        contents: { parts: [{ inlineData: { mimeType, data: audioBase64 } }] },
+        config: {
+          systemInstruction: `Transcribe the speech in the audio verbatim. The expected language is ${language}, but keep words in whatever language they are spoken. Respond with the transcript only, without quotes, labels or commentary. If there is no intelligible speech, respond with an empty string.`,
+          abortSignal: signal,
+        },
+      });
+      return response.text?.trim() ?? '';
+    } catch (error) {
+      throw toAnalysisError(error);
+    }
+  };
+};
+
+const transcriptSchema = {
+  type: Type.OBJECT,
+  properties: {
+    turns: {
+      type: Type.ARRAY,
+      description: "Every message in the screenshots, in the order it was sent.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          speaker: { type: Type.STRING, description: "The sender's name as shown in the chat." },
+          text: { type: Type.STRING, description: "The message exactly as written, in its original language." },
+          timestamp: { type: Type.STRING, description: "The time or date shown for the message, if any, copied as displayed." },
+        },
+        required: ["speaker", "text"],
+        propertyOrdering: ["speaker", "timestamp", "text"],
+      },
+    },
+  },
+  required: ["turns"],
+};
+
+export type GeminiTranscriptExtractor = (request: TranscriptExtractionRequest, signal?: AbortSignal) => Promise<ConversationTurn[]>;
+
+/** Reads the conversation in chat screenshots back as editable turns. */
+export const createGeminiTranscriptExtractor = (apiKey: string | undefined): GeminiTranscriptExtractor => {
+  const getClient = createClientGetter(apiKey);
+
+  return async ({ images, selfSpeaker }, signal) => {
+    try {
+      const response = await getClient().models.generateContent({
+        model: MODEL,
+        contents: { parts: images.map(({ base64, mimeType }) => ({ inlineData: { mimeType, data: base64 } })) },
+        config: {
+          systemInstruction: `The images are consecutive screenshots of one chat conversation, in order. Transcribe every message as one turn, top to bottom, without translating, correcting or summarizing it. Messages that appear on two overlapping screenshots are listed once. Use the sender name shown in the chat; messages sent by the owner of the device (usually aligned right and unnamed) use the speaker "${selfSpeaker}". Include the timestamp only when one is visible for that message. Leave out system notices, reactions and read receipts. If there is no conversation in the images, return an empty "turns" array.`,
+          responseMimeType: "application/json",
+          responseSchema: transcriptSchema,
+          abortSignal: signal,
+        },
+      });
+      let raw: unknown;
+      try {
+        raw = JSON.parse(response.text ?? '');
+      } catch {
+        throw new AnalysisError('invalid-response', 'The AI returned an invalid transcript: the response is not valid JSON.');
+      }
+      return validateTranscript(raw);
+    } catch (error) {
+      throw toAnalysisError(error);
+    }
+  };
+};
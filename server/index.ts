@@ -0,0 +1,154 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { createGeminiProvider, createGeminiTranscriber, createGeminiTranscriptExtractor } from './geminiProvider';
+import { BadRequestError, handleAnalyze, handleAnalyzeStream } from './analyzeRoute';
+import { handleTranscribe } from './transcribeRoute';
+import { handleExtractTranscript } from './transcriptRoute';
+import { AnalysisError, statusForErrorCode } from '../services/analysisErrors';
+
+// Pick up GEMINI_API_KEY from the same .env.local file the Vite dev server uses.
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+// Only needed when the client is served from a different origin than the API.
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN;
+const MAX_BODY_BYTES = 16 * 1024 * 1024; // Room for a full set of screenshots after base64 encoding
+
+const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+const provider = createGeminiProvider(apiKey);
+const transcriber = createGeminiTranscriber(apiKey);
+const transcriptExtractor = createGeminiTranscriptExtractor(apiKey);
+
+const readJsonBody = (req: IncomingMessage, res: ServerResponse): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop buffering but keep the socket until the error response is out;
+        // destroying it right away would reach the client as a connection reset.
+        req.off('data', onData);
+        req.pause();
+        res.setHeader('Connection', 'close');
+        res.on('finish', () => req.destroy());
+        reject(new BadRequestError('Request body is too large.'));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new BadRequestError('Request body must be valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+interface Route {
+  /**
+   * Streaming routes answer with newline-delimited JSON: any number of lines
+   * sent through `emit`, then `{ result }` or `{ error, code }`.
+   */
+  stream?: boolean;
+  handle: (body: unknown, emit: (payload: unknown) => void, signal: AbortSignal) => Promise<unknown>;
+}
+
+const routes: { [path: string]: Route } = {
+  '/api/analyze': { handle: (body, _emit, signal) => handleAnalyze(provider, body, signal) },
+  '/api/analyze/stream': {
+    stream: true,
+    handle: (body, emit, signal) => handleAnalyzeStream(provider, body, partial => emit({ partial }), signal),
+  },
+  '/api/transcribe': { handle: (body, _emit, signal) => handleTranscribe(transcriber, body, signal) },
+  '/api/transcript': { handle: (body, _emit, signal) => handleExtractTranscript(transcriptExtractor, body, signal) },
+};
+
+/** `code` lets the client show a localized message instead of `error`. */
+const toErrorPayload = (error: unknown) => ({
+  error: error instanceof Error ? error.message : 'An unknown error occurred.',
+  code: error instanceof AnalysisError ? error.code : 'unknown',
+});
+
+const sendError = (res: ServerResponse, url: string | undefined, error: unknown) => {
+  if (!(error instanceof BadRequestError)) {
+    console.error('Error handling', url, error);
+  }
+  const status = error instanceof AnalysisError ? statusForErrorCode(error.code) : 502;
+  sendJson(res, status, toErrorPayload(error));
+};
+
+const server = createServer(async (req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+  }
+  const route = req.url ? routes[req.url.split('?')[0]] : undefined;
+  if (!route) {
+    sendJson(res, 404, { error: 'Not found.' });
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    sendJson(res, 405, { error: 'Method not allowed.' });
+    return;
+  }
+
+  // Headers go out with the first streamed line, so errors raised before then
+  // (bad input, missing key) still get a proper status code.
+  let hasStarted = false;
+  const emit = (payload: unknown) => {
+    if (!hasStarted) {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+      hasStarted = true;
+    }
+    res.write(`${JSON.stringify(payload)}\n`);
+  };
+
+  // Stop paying for model output nobody will read once the client goes away.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const body = await readJsonBody(req, res);
+    const result = await route.handle(body, emit, controller.signal);
+    if (route.stream) {
+      emit({ result });
+      res.end();
+    } else {
+      sendJson(res, 200, result);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    if (!hasStarted) {
+      sendError(res, req.url, error);
+      return;
+    }
+    console.error('Error handling', req.url, error);
+    emit(toErrorPayload(error));
+    res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`PeaceTalk API listening on http://localhost:${PORT}`);
+});
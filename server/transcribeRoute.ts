@@ -0,0 +1,26 @@
+import { TranscriptionRequest } from '../types';
+import { BadRequestError } from './analyzeRoute';
+import { GeminiTranscriber } from './geminiProvider';
+
+const AUDIO_MIME_TYPE = /^audio\/[\w.+-]+$/;
+
+/** Checks an untrusted JSON body against the inputs the transcriber accepts. */
+export const parseTranscriptionRequest = (body: unknown): TranscriptionRequest => {
+  if (!body || typeof body !== 'object') {
+    throw new BadRequestError('Request body must be a JSON object.');
+  }
+  const { audioBase64, mimeType, language } = body as Record<string, unknown>;
+  if (typeof audioBase64 !== 'string' || !audioBase64) {
+    throw new BadRequestError('"audioBase64" is required.');
+  }
+  if (typeof mimeType !== 'string' || !AUDIO_MIME_TYPE.test(mimeType)) {
+    throw new BadRequestError('"mimeType" must be an audio MIME type.');
+  }
+  if (language !== undefined && typeof language !== 'string') {
+    throw new BadRequestError('"language" must be a string.');
+  }
+  return { audioBase64, mimeType, language: typeof language === 'string' && language ? language : 'en-US' };
+};
+
+export const handleTranscribe = async (transcribe: GeminiTranscriber, body: unknown, signal?: AbortSignal) =>
+  ({ text: await transcribe(parseTranscriptionRequest(body), signal) });
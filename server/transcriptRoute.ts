@@ -0,0 +1,28 @@
+import { TranscriptExtractionRequest } from '../types';
+import { BadRequestError, parseImages } from './analyzeRoute';
+import { GeminiTranscriptExtractor } from './geminiProvider';
+
+const MAX_SPEAKER_LENGTH = 40;
+
+/** Checks an untrusted JSON body against the inputs the transcript extractor accepts. */
+export const parseTranscriptExtractionRequest = (body: unknown): TranscriptExtractionRequest => {
+  if (!body || typeof body !== 'object') {
+    throw new BadRequestError('Request body must be a JSON object.');
+  }
+  const { images, selfSpeaker } = body as Record<string, unknown>;
+  const parsedImages = parseImages(images);
+  if (!parsedImages?.length) {
+    throw new BadRequestError('"images" must contain at least one image.');
+  }
+  if (selfSpeaker !== undefined && (typeof selfSpeaker !== 'string' || selfSpeaker.length > MAX_SPEAKER_LENGTH)) {
+    throw new BadRequestError(`"selfSpeaker" must be a string of at most ${MAX_SPEAKER_LENGTH} characters.`);
+  }
+  return {
+    images: parsedImages,
+    // Quotes would break out of the instruction the name is embedded in.
+    selfSpeaker: typeof selfSpeaker === 'string' && selfSpeaker.trim() ? selfSpeaker.replace(/"/g, '').trim() : 'Me',
+  };
+};
+
+export const handleExtractTranscript = async (extract: GeminiTranscriptExtractor, body: unknown, signal?: AbortSignal) =>
+  ({ turns: await extract(parseTranscriptExtractionRequest(body), signal) });
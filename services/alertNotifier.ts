@@ -0,0 +1,36 @@
+/** Asks for permission to show browser notifications; resolves to whether they are allowed. */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showNotification = (title: string, body: string) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  // The shared tag replaces an unread alert instead of stacking a new one.
+  new Notification(title, { body, tag: 'peacetalk-alert' });
+};
+
+let audioContext: AudioContext | null = null;
+
+/** Plays a short, soft two-tone chime; no audio file needed. */
+export const playAlertSound = () => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) return;
+  audioContext ??= new AudioContextClass();
+  const context = audioContext;
+  [660, 880].forEach((frequency, index) => {
+    const start = context.currentTime + index * 0.18;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.3);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.3);
+  });
+};
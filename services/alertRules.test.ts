@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { AlertRule, AnalysisResult } from '../types';
+import { createAlertRule, evaluateAlertRules } from './alertRules';
+
+const result = (temperature: number, emotion = 'Neutral'): AnalysisResult => ({
+  temperature,
+  emotion,
+  suggestion: '',
+  explanation: '',
+  recipientImpact: { predictedFeeling: '', impactExplanation: '' },
+});
+
+const above: AlertRule = { id: 'above', enabled: true, type: 'temperature-above', threshold: 70 };
+const rise: AlertRule = { id: 'rise', enabled: true, type: 'temperature-rise', points: 25, window: 3 };
+const emotion: AlertRule = { id: 'emotion', enabled: true, type: 'emotion', emotions: [' contempt ', 'Hostility'] };
+
+const firedIds = (history: AnalysisResult[], rules: AlertRule[]) =>
+  evaluateAlertRules(history, rules).map(({ rule }) => rule.id);
+
+describe('evaluateAlertRules', () => {
+  it('fires nothing without history', () => {
+    expect(evaluateAlertRules([], [above, rise, emotion])).toEqual([]);
+  });
+
+  it('fires threshold rules strictly above the threshold', () => {
+    expect(firedIds([result(70)], [above])).toEqual([]);
+    expect(firedIds([result(71)], [above])).toEqual(['above']);
+  });
+
+  it('measures a rise from the coolest analysis within the window', () => {
+    const [match] = evaluateAlertRules([result(20), result(40), result(50)], [rise]);
+    expect(match).toMatchObject({ temperature: 50, rise: 30 });
+  });
+
+  it('ignores analyses older than the window', () => {
+    expect(firedIds([result(10), result(40), result(45), result(50)], [rise])).toEqual([]);
+  });
+
+  it('compares a window of two with the analysis just before', () => {
+    const pair = { ...rise, window: 2 };
+    expect(firedIds([result(20), result(45)], [pair])).toEqual(['rise']);
+    expect(firedIds([result(45)], [pair])).toEqual([]);
+  });
+
+  it('matches emotions regardless of case and spacing', () => {
+    expect(firedIds([result(30, 'Contempt')], [emotion])).toEqual(['emotion']);
+    expect(firedIds([result(30, 'Anger')], [emotion])).toEqual([]);
+  });
+
+  it('skips disabled rules', () => {
+    expect(firedIds([result(90)], [{ ...above, enabled: false }])).toEqual([]);
+  });
+
+  it('creates rules that evaluate without further setup', () => {
+    const rules = (['temperature-above', 'temperature-rise', 'emotion'] as const).map(createAlertRule);
+    expect(new Set(rules.map(({ id }) => id)).size).toBe(3);
+    expect(evaluateAlertRules([result(0), result(80)], rules).map(({ rule }) => rule.type))
+      .toEqual(['temperature-above', 'temperature-rise']);
+  });
+});
@@ -0,0 +1,67 @@
+import { AlertRule, AlertRuleType, AlertSettings, AnalysisResult } from '../types';
+import { createId } from './ids';
+
+/** A rule that fired for the latest analysis, with the numbers behind it. */
+export interface AlertMatch {
+  rule: AlertRule;
+  temperature: number;
+  /** How far the temperature rose, for 'temperature-rise' rules. */
+  rise?: number;
+  emotion: string;
+}
+
+/**
+ * Bounds for a rise rule's `window`. It counts the latest analysis, so it needs
+ * at least one earlier one to compare with; the app keeps the last 15.
+ */
+export const MIN_RISE_WINDOW = 2;
+export const MAX_RISE_WINDOW = 15;
+
+export const defaultAlertSettings: AlertSettings = {
+  rules: [
+    { id: 'above-70', enabled: true, type: 'temperature-above', threshold: 70 },
+    { id: 'rise-25', enabled: true, type: 'temperature-rise', points: 25, window: 3 },
+    { id: 'contempt', enabled: true, type: 'emotion', emotions: ['Contempt', 'Hostility'] },
+  ],
+  notifications: false,
+  sound: false,
+  cooldownMs: 60_000,
+};
+
+export const createAlertRule = (type: AlertRuleType): AlertRule => {
+  const id = createId();
+  switch (type) {
+    case 'temperature-above': return { id, enabled: true, type, threshold: 70 };
+    case 'temperature-rise': return { id, enabled: true, type, points: 25, window: 3 };
+    case 'emotion': return { id, enabled: true, type, emotions: [] };
+  }
+};
+
+const matchRule = (rule: AlertRule, history: AnalysisResult[]): AlertMatch | null => {
+  const latest = history[history.length - 1];
+  const match = { rule, temperature: latest.temperature, emotion: latest.emotion };
+  switch (rule.type) {
+    case 'temperature-above':
+      return latest.temperature > rule.threshold ? match : null;
+    case 'temperature-rise': {
+      // Compare against the coolest of the previous analyses in the window.
+      const previous = history.slice(-rule.window, -1);
+      if (previous.length === 0) return null;
+      const rise = latest.temperature - Math.min(...previous.map(result => result.temperature));
+      return rise >= rule.points ? { ...match, rise } : null;
+    }
+    case 'emotion': {
+      const emotion = latest.emotion.trim().toLowerCase();
+      return rule.emotions.some(candidate => candidate.trim().toLowerCase() === emotion) ? match : null;
+    }
+  }
+};
+
+/** The enabled rules that the latest result in `history` (oldest first) triggers. */
+export const evaluateAlertRules = (history: AnalysisResult[], rules: AlertRule[]): AlertMatch[] => {
+  if (history.length === 0) return [];
+  return rules
+    .filter(rule => rule.enabled)
+    .map(rule => matchRule(rule, history))
+    .filter((match): match is AlertMatch => match !== null);
+};
@@ -0,0 +1,43 @@
+import { AlertRule, AlertSettings } from '../types';
+import { MAX_RISE_WINDOW, MIN_RISE_WINDOW, defaultAlertSettings } from './alertRules';
+
+const STORAGE_KEY = 'peacetalk.alerts.v1';
+
+const isAlertRule = (value: unknown): value is AlertRule => {
+  const rule = value as AlertRule;
+  if (!rule || typeof rule !== 'object' || typeof rule.id !== 'string' || typeof rule.enabled !== 'boolean') return false;
+  switch (rule.type) {
+    case 'temperature-above': return typeof rule.threshold === 'number';
+    case 'temperature-rise':
+      return typeof rule.points === 'number' && Number.isInteger(rule.window)
+        && rule.window >= MIN_RISE_WINDOW && rule.window <= MAX_RISE_WINDOW;
+    case 'emotion': return Array.isArray(rule.emotions) && rule.emotions.every(emotion => typeof emotion === 'string');
+    default: return false;
+  }
+};
+
+export const loadAlertSettings = (): AlertSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!parsed || typeof parsed !== 'object') return defaultAlertSettings;
+    return {
+      rules: Array.isArray(parsed.rules) ? parsed.rules.filter(isAlertRule) : defaultAlertSettings.rules,
+      notifications: parsed.notifications === true,
+      sound: parsed.sound === true,
+      cooldownMs: typeof parsed.cooldownMs === 'number' ? parsed.cooldownMs : defaultAlertSettings.cooldownMs,
+    };
+  } catch (error) {
+    console.error('Failed to read alert settings:', error);
+    return defaultAlertSettings;
+  }
+};
+
+export const saveAlertSettings = (settings: AlertSettings): AlertSettings => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save alert settings:', error);
+  }
+  return settings;
+};
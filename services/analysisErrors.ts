@@ -0,0 +1,51 @@
+export type AnalysisErrorCode =
+  | 'invalid-response'
+  | 'rate-limited'
+  | 'unavailable'
+  | 'network'
+  | 'bad-request'
+  | 'missing-api-key'
+  | 'unknown';
+
+/**
+ * An analysis failure the UI can explain. `code` is stable across the
+ * server/client boundary and maps to a localized message; `message` is the
+ * technical detail for logs.
+ */
+export class AnalysisError extends Error {
+  readonly code: AnalysisErrorCode;
+
+  constructor(code: AnalysisErrorCode, message: string) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+  }
+}
+
+const ERROR_CODES: AnalysisErrorCode[] = [
+  'invalid-response', 'rate-limited', 'unavailable', 'network', 'bad-request', 'missing-api-key', 'unknown',
+];
+
+export const isAnalysisErrorCode = (value: unknown): value is AnalysisErrorCode =>
+  ERROR_CODES.includes(value as AnalysisErrorCode);
+
+export const errorCodeForStatus = (status: number): AnalysisErrorCode => {
+  if (status === 429) return 'rate-limited';
+  if (status === 400 || status === 413) return 'bad-request';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+};
+
+export const statusForErrorCode = (code: AnalysisErrorCode): number => {
+  switch (code) {
+    case 'bad-request': return 400;
+    case 'rate-limited': return 429;
+    case 'missing-api-key': return 500;
+    case 'unavailable': return 503;
+    default: return 502;
+  }
+};
+
+/** Whether trying the same request again later could succeed. */
+export const isRetryableError = (error: unknown): boolean =>
+  !(error instanceof AnalysisError && (error.code === 'bad-request' || error.code === 'missing-api-key'));
@@ -0,0 +1,23 @@
+import { AnalysisRequest, AnalysisResult, PartialAnalysisResult } from '../types';
+
+export type AnalysisProviderId = 'gemini' | 'remote' | 'local';
+
+/**
+ * A backend capable of turning user input into an AnalysisResult.
+ * `analyzeContent` delegates to whichever provider is configured, so the UI
+ * never needs to know whether it is talking to Gemini or an offline stand-in.
+ */
+export interface AnalysisProvider {
+  readonly id: AnalysisProviderId;
+  /** Aborting `signal` rejects the returned promise with an `AbortError`. */
+  analyze(request: AnalysisRequest, signal?: AbortSignal): Promise<AnalysisResult>;
+  /**
+   * Like `analyze`, but reports fields as they arrive. Providers that cannot
+   * stream leave this out and callers fall back to `analyze`.
+   */
+  analyzeStream?(
+    request: AnalysisRequest,
+    onPartial: (partial: PartialAnalysisResult) => void,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult>;
+}
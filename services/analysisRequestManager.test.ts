@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisRequest, AnalysisResult, PartialAnalysisResult } from '../types';
+import { AnalysisProvider } from './analysisProvider';
+import { createAnalysisRequestManager, getRequestKey } from './analysisRequestManager';
+import { setAnalysisProvider } from './geminiService';
+
+const request = (text: string, extra: Partial<AnalysisRequest> = {}): AnalysisRequest =>
+  ({ text, language: 'en', socialTopic: 'general', ...extra });
+
+const resultFor = (text: string): AnalysisResult => ({
+  temperature: 50,
+  emotion: 'Frustration',
+  suggestion: `Calmer: ${text}`,
+  explanation: '',
+  recipientImpact: { predictedFeeling: '', impactExplanation: '' },
+});
+
+interface Call {
+  request: AnalysisRequest;
+  signal?: AbortSignal;
+  onPartial: (partial: PartialAnalysisResult) => void;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/** A streaming provider whose calls finish only when the test says so. */
+const installProvider = () => {
+  const calls: Call[] = [];
+  const provider: AnalysisProvider = {
+    id: 'local',
+    analyze: () => Promise.reject(new Error('expected the streaming path')),
+    analyzeStream: (req, onPartial, signal) => new Promise((resolve, reject) => {
+      const call: Call = { request: req, signal, onPartial, resolve: () => resolve(resultFor(req.text)), reject };
+      signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      calls.push(call);
+    }),
+  };
+  setAnalysisProvider(provider);
+  return calls;
+};
+
+describe('createAnalysisRequestManager', () => {
+  afterEach(() => {
+    setAnalysisProvider(null);
+  });
+
+  it('aborts in-flight work when the input changes and resolves the superseded run with null', async () => {
+    const calls = installProvider();
+    const manager = createAnalysisRequestManager();
+    const first = manager.run(request('You never listen'), () => {});
+    const second = manager.run(request('You never listen to me'), () => {});
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0].signal?.aborted).toBe(true);
+    expect(calls[1].signal?.aborted).toBe(false);
+    calls[1].resolve();
+    await expect(first).resolves.toBeNull();
+    await expect(second).resolves.toEqual(resultFor('You never listen to me'));
+  });
+
+  it('drops partial results and failures of a superseded request', async () => {
+    const calls = installProvider();
+    const manager = createAnalysisRequestManager();
+    const stalePartials = vi.fn();
+    const first = manager.run(request('one'), stalePartials);
+    manager.run(request('two'), () => {});
+
+    calls[0].onPartial({ temperature: 10 });
+    calls[0].reject(new Error('late failure'));
+    expect(stalePartials).not.toHaveBeenCalled();
+    await expect(first).resolves.toBeNull();
+  });
+
+  it('joins an identical request that is still in flight', async () => {
+    const calls = installProvider();
+    const manager = createAnalysisRequestManager();
+    const first = manager.run(request('same'), () => {});
+    const partials = vi.fn();
+    const second = manager.run(request('same'), partials);
+
+    expect(calls).toHaveLength(1);
+    calls[0].onPartial({ temperature: 40 });
+    expect(partials).toHaveBeenCalledWith({ temperature: 40 });
+    calls[0].resolve();
+    expect(await second).toBe(await first);
+  });
+
+  it('reuses the cached result for the same input', async () => {
+    const calls = installProvider();
+    const manager = createAnalysisRequestManager();
+    const first = manager.run(request('cache me'), () => {});
+    calls[0].resolve();
+    const result = await first;
+
+    await expect(manager.run(request('cache me'), () => {})).resolves.toBe(result);
+    expect(calls).toHaveLength(1);
+
+    manager.clearCache();
+    manager.run(request('cache me'), () => {});
+    expect(calls).toHaveLength(2);
+  });
+
+  it('evicts the least recently used result beyond the cache size', async () => {
+    const calls = installProvider();
+    const manager = createAnalysisRequestManager(2);
+    for (const text of ['a', 'b', 'c']) {
+      const run = manager.run(request(text), () => {});
+      calls[calls.length - 1].resolve();
+      await run;
+    }
+    await manager.run(request('c'), () => {});
+    expect(calls).toHaveLength(3);
+    manager.run(request('a'), () => {});
+    expect(calls).toHaveLength(4);
+  });
+
+  it('cancels the request in flight', async () => {
+    const calls = installProvider();
+    const manager = createAnalysisRequestManager();
+    const run = manager.run(request('cancel me'), () => {});
+    manager.cancel();
+    expect(calls[0].signal?.aborted).toBe(true);
+    await expect(run).resolves.toBeNull();
+  });
+
+  it('rejects with failures of the latest request', async () => {
+    const calls = installProvider();
+    const manager = createAnalysisRequestManager();
+    const run = manager.run(request('fails'), () => {});
+    calls[0].reject(new Error('server down'));
+    await expect(run).rejects.toThrow('server down');
+  });
+});
+
+describe('getRequestKey', () => {
+  it('tells apart every input that changes the analysis', () => {
+    const base = request('Fine.');
+    const keys = [
+      base,
+      request('Fine!'),
+      request('Fine.', { language: 'ko' }),
+      request('Fine.', { socialTopic: 'workplace-conflict' }),
+      request('Fine.', { refinement: { suggestion: 'Okay.', explanation: '', instruction: 'shorter' } }),
+      request('Fine.', { images: [{ base64: 'AAAA', mimeType: 'image/png' }] }),
+    ].map(getRequestKey);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(getRequestKey({ ...base })).toBe(keys[0]);
+  });
+});
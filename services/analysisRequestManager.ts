@@ -0,0 +1,116 @@
+import { AnalysisRequest, AnalysisResult, PartialAnalysisResult } from '../types';
+import { analyzeContentStream } from './geminiService';
+
+const DEFAULT_CACHE_SIZE = 50;
+
+// 53-bit string hash (cyrb53). Not cryptographic; it only has to tell inputs apart.
+const hashString = (value: string, seed = 0) => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/** Cache key covering every input that can change the analysis. */
+export const getRequestKey = (request: AnalysisRequest) =>
+  hashString(JSON.stringify([
+    request.text,
+    request.language,
+    request.socialTopic,
+    request.topic ?? null,
+    request.turns ?? null,
+    request.images?.map(image => [image.mimeType, hashString(image.base64)]) ?? null,
+    request.audioBase64 ? hashString(request.audioBase64) : null,
+    request.refinement ?? null,
+    request.recipient ?? null,
+  ]));
+
+const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+interface InFlight {
+  key: string;
+  controller: AbortController;
+  promise: Promise<AnalysisResult | null>;
+  onPartial: (partial: PartialAnalysisResult) => void;
+}
+
+/**
+ * Coordinates analysis calls from the UI:
+ * - starting a request aborts the one in flight, so only the latest can render;
+ * - an identical request joins the one in flight instead of re-sending it;
+ * - finished results are cached by input, so re-analyzing the same text is free.
+ *
+ * `run` resolves with null when the request was superseded or cancelled, and
+ * only rejects for failures of the latest request.
+ */
+export const createAnalysisRequestManager = (cacheSize = DEFAULT_CACHE_SIZE) => {
+  const cache = new Map<string, AnalysisResult>();
+  let current: InFlight | null = null;
+
+  const remember = (key: string, result: AnalysisResult) => {
+    // Map iteration order doubles as recency order for eviction.
+    cache.delete(key);
+    cache.set(key, result);
+    if (cache.size > cacheSize) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  };
+
+  const cancel = () => {
+    current?.controller.abort();
+    current = null;
+  };
+
+  const run = (request: AnalysisRequest, onPartial: (partial: PartialAnalysisResult) => void): Promise<AnalysisResult | null> => {
+    const key = getRequestKey(request);
+
+    if (current?.key === key) {
+      current.onPartial = onPartial;
+      return current.promise;
+    }
+    cancel();
+
+    const cached = cache.get(key);
+    if (cached) {
+      remember(key, cached);
+      return Promise.resolve(cached);
+    }
+
+    const controller = new AbortController();
+    const entry: InFlight = { key, controller, onPartial, promise: Promise.resolve(null) };
+    const isLatest = () => current === entry && !controller.signal.aborted;
+
+    entry.promise = analyzeContentStream(
+      request,
+      partial => { if (isLatest()) entry.onPartial(partial); },
+      controller.signal
+    ).then(
+      result => {
+        remember(key, result);
+        if (!isLatest()) return null;
+        current = null;
+        return result;
+      },
+      error => {
+        if (!isLatest() || isAbortError(error)) return null;
+        current = null;
+        throw error;
+      }
+    );
+    current = entry;
+    return entry.promise;
+  };
+
+  const clearCache = () => cache.clear();
+
+  return { run, cancel, clearCache };
+};
+
+export type AnalysisRequestManager = ReturnType<typeof createAnalysisRequestManager>;
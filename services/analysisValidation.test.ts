@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisRequest } from '../types';
+import { AnalysisError } from './analysisErrors';
+import {
+  normalizeTemperature, parseAnalysisResult, sanitizePartialResult, validateAnalysisResult, validateTranscript,
+} from './analysisValidation';
+
+const impact = { predictedFeeling: 'Defensive', impactExplanation: 'It reads as an accusation.' };
+const valid = {
+  temperature: 72,
+  emotion: 'Anger',
+  suggestion: 'Can we talk about this?',
+  explanation: 'It invites a conversation.',
+  recipientImpact: impact,
+};
+
+const request = (text: string, extra: Partial<AnalysisRequest> = {}): AnalysisRequest =>
+  ({ text, language: 'en', socialTopic: 'default', ...extra });
+
+const expectInvalid = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect((error as AnalysisError).code).toBe('invalid-response');
+    return;
+  }
+  throw new Error('expected an invalid-response error');
+};
+
+describe('normalizeTemperature', () => {
+  it('accepts numbers and numeric strings, rounded and clamped', () => {
+    expect(normalizeTemperature(41.6)).toBe(42);
+    expect(normalizeTemperature('72°C')).toBe(72);
+    expect(normalizeTemperature(140)).toBe(100);
+    expect(normalizeTemperature(-5)).toBe(0);
+  });
+
+  it('rejects anything else', () => {
+    expect(normalizeTemperature('hot')).toBeUndefined();
+    expect(normalizeTemperature(null)).toBeUndefined();
+    expect(normalizeTemperature(Infinity)).toBeUndefined();
+  });
+});
+
+describe('validateAnalysisResult', () => {
+  it('passes a well-formed result through', () => {
+    expect(validateAnalysisResult(valid)).toEqual(valid);
+  });
+
+  it('fails on missing required fields', () => {
+    expectInvalid(() => validateAnalysisResult(null));
+    expectInvalid(() => validateAnalysisResult({ ...valid, temperature: 'n/a' }));
+    expectInvalid(() => validateAnalysisResult({ ...valid, emotion: '  ' }));
+    expectInvalid(() => validateAnalysisResult({ ...valid, recipientImpact: { predictedFeeling: 'Calm' } }));
+  });
+
+  it('fills the suggestion from the best alternative and drops broken ones', () => {
+    const { suggestion, explanation, ...rest } = valid;
+    const result = validateAnalysisResult({
+      ...rest,
+      alternatives: [
+        { tone: 'Warm', suggestion: 'I miss talking.', explanation: 'Names the feeling.', recipientImpact: impact },
+        { tone: 'warm', suggestion: 'Duplicate tone.', explanation: 'Dropped.', recipientImpact: impact },
+        { tone: 'sarcastic', suggestion: 'Unknown tone.', explanation: 'Dropped.', recipientImpact: impact },
+        { tone: 'brief', suggestion: 'Talk?', explanation: 'Short.' },
+      ],
+    });
+    expect(result.suggestion).toBe('I miss talking.');
+    expect(result.explanation).toBe('Names the feeling.');
+    expect(result.alternatives?.map(({ tone }) => tone)).toEqual(['warm']);
+  });
+
+  it('recovers phrase offsets from the quoted text and skips overlaps', () => {
+    const text = 'You never listen. You NEVER do.';
+    const result = validateAnalysisResult({
+      ...valid,
+      phrases: [
+        { text: 'never', category: 'absolute', explanation: 'An absolute.', heat: 40 },
+        { text: 'never', category: 'absolute', explanation: 'Again.', start: 2 },
+        { text: 'You never', category: 'blame', explanation: 'Overlaps the first.' },
+        { text: 'missing', category: 'blame', explanation: 'Not in the text.' },
+      ],
+    }, request(text));
+    expect(result.phrases?.map(({ start, end, text: quoted }) => [start, end, quoted])).toEqual([
+      [4, 9, 'never'],
+      [22, 27, 'NEVER'],
+    ]);
+    expect(result.phrases?.[1].heat).toBe(50);
+  });
+
+  it('keeps exactly one turn per input turn', () => {
+    const turns = [{ speaker: 'A', text: 'Hi' }, { speaker: 'B', text: 'Whatever.' }];
+    const result = validateAnalysisResult(
+      { ...valid, turns: [{ temperature: '30', emotion: 'Calm' }] },
+      request('A: Hi\nB: Whatever.', { turns })
+    );
+    expect(result.turns).toEqual([
+      { speaker: 'A', temperature: 30, emotion: 'Calm', isEscalation: false },
+      { speaker: 'B', temperature: 0, emotion: 'Neutral', isEscalation: false },
+    ]);
+    expect(result.phrases).toBeUndefined();
+  });
+
+  it('only keeps vocal cues for requests that sent audio', () => {
+    const vocal = { temperature: 80, cues: ['raised volume', ' ', 'clipped pacing'] };
+    expect(validateAnalysisResult({ ...valid, vocal }).vocal).toBeUndefined();
+    expect(validateAnalysisResult({ ...valid, vocal }, request('', { audioBase64: 'AAAA' })).vocal)
+      .toEqual({ temperature: 80, cues: ['raised volume', 'clipped pacing'] });
+  });
+});
+
+describe('parseAnalysisResult', () => {
+  it('strips code fences', () => {
+    expect(parseAnalysisResult('```json\n' + JSON.stringify(valid) + '\n```')).toEqual(valid);
+  });
+
+  it('accepts a response cut off after the required fields', () => {
+    const truncated = JSON.stringify({ ...valid, alternatives: [] }).replace(/\[\]\}$/, '[{"tone":"wa');
+    expect(parseAnalysisResult(truncated).suggestion).toBe(valid.suggestion);
+  });
+
+  it('fails on a response cut off inside a required string', () => {
+    const json = JSON.stringify(valid);
+    const cut = json.indexOf(valid.recipientImpact.impactExplanation) + 5;
+    expectInvalid(() => parseAnalysisResult(json.slice(0, cut)));
+  });
+
+  it('never keeps a half-written phrase rewrite', () => {
+    const phrase = { text: 'never', category: 'absolute', explanation: 'An absolute.', rewrite: 'sometimes' };
+    const json = JSON.stringify({ ...valid, phrases: [phrase] });
+    const result = parseAnalysisResult(json.slice(0, json.indexOf('sometimes') + 4), request('You never listen.'));
+    expect(result.phrases?.[0]).toMatchObject({ text: 'never' });
+    expect(result.phrases?.[0].rewrite).toBeUndefined();
+  });
+
+  it('fails on empty or unparseable responses', () => {
+    expectInvalid(() => parseAnalysisResult(undefined));
+    expectInvalid(() => parseAnalysisResult('Sorry, I cannot help with that.'));
+  });
+});
+
+describe('sanitizePartialResult', () => {
+  it('keeps only well-formed fields', () => {
+    expect(sanitizePartialResult({ temperature: '4x', emotion: 7, suggestion: 'I feel', recipientImpact: { predictedFeeling: 'Hurt' } }))
+      .toEqual({ temperature: 4, suggestion: 'I feel', recipientImpact: { predictedFeeling: 'Hurt' } });
+    expect(sanitizePartialResult('nope')).toBeUndefined();
+  });
+});
+
+describe('validateTranscript', () => {
+  it('drops unreadable messages and keeps timestamps', () => {
+    expect(validateTranscript({
+      turns: [
+        { speaker: 'Sam', text: ' On my way ', timestamp: '9:41' },
+        { speaker: 'Alex', text: '' },
+        { text: 'Unknown sender' },
+      ],
+    })).toEqual([
+      { speaker: 'Sam', text: 'On my way', timestamp: '9:41' },
+      { speaker: '', text: 'Unknown sender' },
+    ]);
+  });
+
+  it('fails without a turns array', () => {
+    expectInvalid(() => validateTranscript({ messages: [] }));
+  });
+});
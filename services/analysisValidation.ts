@@ -0,0 +1,236 @@
+import {
+  AnalysisRequest, AnalysisResult, ConversationTurn, FlaggedPhrase, PartialAnalysisResult, PhraseCategory, RecipientImpact,
+  SuggestionAlternative, SuggestionTone, TurnAnalysis, VocalAnalysis,
+} from '../types';
+import { AnalysisError } from './analysisErrors';
+import { parsePartialJson } from './partialJson';
+
+const TONES: SuggestionTone[] = ['brief', 'warm', 'assertive', 'formal'];
+const PHRASE_CATEGORIES: PhraseCategory[] = ['blame', 'absolute', 'sarcasm', 'insult'];
+
+type Fields = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Fields =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const invalid = (detail: string) =>
+  new AnalysisError('invalid-response', `The AI returned an invalid analysis: ${detail}`);
+
+/** Accepts numbers and numeric strings ("72", "72°C"), clamped to 0-100. */
+export const normalizeTemperature = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  return Number.isFinite(number) ? Math.max(0, Math.min(100, Math.round(number))) : undefined;
+};
+
+const normalizeText = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  return text ? text : undefined;
+};
+
+const requireText = (fields: Fields, key: string, path = key): string => {
+  const text = normalizeText(fields[key]);
+  if (text === undefined) throw invalid(`"${path}" is missing or empty.`);
+  return text;
+};
+
+const normalizeImpact = (value: unknown, path: string): RecipientImpact => {
+  if (!isObject(value)) throw invalid(`"${path}" is missing.`);
+  return {
+    predictedFeeling: requireText(value, 'predictedFeeling', `${path}.predictedFeeling`),
+    impactExplanation: requireText(value, 'impactExplanation', `${path}.impactExplanation`),
+  };
+};
+
+// Alternatives are optional extras, so broken entries are dropped rather than
+// failing the whole analysis.
+const normalizeAlternatives = (value: unknown): SuggestionAlternative[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const seen = new Set<string>();
+  const alternatives = value.flatMap((item, index): SuggestionAlternative[] => {
+    if (!isObject(item)) return [];
+    const tone = typeof item.tone === 'string' ? item.tone.toLowerCase() as SuggestionTone : undefined;
+    if (!tone || !TONES.includes(tone) || seen.has(tone)) return [];
+    try {
+      const alternative = {
+        tone,
+        suggestion: requireText(item, 'suggestion'),
+        explanation: requireText(item, 'explanation'),
+        recipientImpact: normalizeImpact(item.recipientImpact, `alternatives[${index}].recipientImpact`),
+      };
+      seen.add(tone);
+      return [alternative];
+    } catch {
+      return [];
+    }
+  });
+  return alternatives.length > 0 ? alternatives : undefined;
+};
+
+const normalizeTurns = (value: unknown, request?: AnalysisRequest): TurnAnalysis[] | undefined => {
+  const inputTurns = request?.turns;
+  if (!inputTurns || inputTurns.length === 0) return undefined;
+  const output = Array.isArray(value) ? value : [];
+  // The model occasionally drops or merges turns; keep exactly one entry per input turn.
+  return inputTurns.map((turn, index) => {
+    const item = isObject(output[index]) ? output[index] : {};
+    return {
+      speaker: turn.speaker,
+      temperature: normalizeTemperature(item.temperature) ?? 0,
+      emotion: normalizeText(item.emotion) ?? 'Neutral',
+      isEscalation: item.isEscalation === true,
+    };
+  });
+};
+
+/**
+ * Finds where a quoted phrase sits in the text. The model quotes phrases
+ * rather than counting characters, so offsets are recovered here; searching
+ * from `from` keeps repeated phrases matched in order.
+ */
+const locatePhrase = (text: string, phrase: string, from: number): number => {
+  const index = text.indexOf(phrase, from);
+  if (index !== -1) return index;
+  const lower = text.toLowerCase();
+  const needle = phrase.toLowerCase();
+  // Case folding can change string length (e.g. 'İ'), which would shift offsets.
+  if (lower.length !== text.length) return -1;
+  const folded = lower.indexOf(needle, from);
+  return folded !== -1 ? folded : lower.indexOf(needle);
+};
+
+const normalizePhrases = (value: unknown, text: string): FlaggedPhrase[] | undefined => {
+  if (!Array.isArray(value) || !text) return undefined;
+  const phrases: FlaggedPhrase[] = [];
+  let cursor = 0;
+  value.forEach(item => {
+    if (!isObject(item)) return;
+    const quoted = normalizeText(item.text);
+    const category = typeof item.category === 'string' ? item.category.toLowerCase() as PhraseCategory : undefined;
+    const explanation = normalizeText(item.explanation);
+    if (!quoted || !category || !PHRASE_CATEGORIES.includes(category) || !explanation) return;
+
+    const hasOffsets = typeof item.start === 'number' && text.slice(item.start, item.start + quoted.length) === quoted;
+    const start = hasOffsets ? item.start as number : locatePhrase(text, quoted, cursor);
+    if (start === -1) return;
+    const end = start + quoted.length;
+    if (phrases.some(phrase => start < phrase.end && end > phrase.start)) return;
+
+    const rewrite = typeof item.rewrite === 'string' ? item.rewrite.trim() : undefined;
+    phrases.push({
+      start,
+      end,
+      text: text.slice(start, end),
+      category,
+      heat: normalizeTemperature(item.heat) ?? 50,
+      explanation,
+      ...(rewrite !== undefined && { rewrite }),
+    });
+    cursor = end;
+  });
+  return phrases.length > 0 ? phrases.sort((a, b) => a.start - b.start) : undefined;
+};
+
+const MAX_VOCAL_CUES = 5;
+
+// Vocal cues are a bonus on top of the text analysis; without a usable score they are dropped.
+const normalizeVocal = (value: unknown, request?: AnalysisRequest): VocalAnalysis | undefined => {
+  if (!request?.audioBase64 || !isObject(value)) return undefined;
+  const temperature = normalizeTemperature(value.temperature);
+  if (temperature === undefined) return undefined;
+  const cues = Array.isArray(value.cues)
+    ? value.cues.map(normalizeText).filter((cue): cue is string => cue !== undefined).slice(0, MAX_VOCAL_CUES)
+    : [];
+  return { temperature, cues };
+};
+
+/**
+ * Checks raw model output against the AnalysisResult contract and normalizes
+ * what can be normalized. Throws an `invalid-response` AnalysisError when a
+ * required field is missing, so the caller can retry.
+ */
+export const validateAnalysisResult = (raw: unknown, request?: AnalysisRequest): AnalysisResult => {
+  if (!isObject(raw)) throw invalid('expected a JSON object.');
+
+  const temperature = normalizeTemperature(raw.temperature);
+  if (temperature === undefined) throw invalid('"temperature" is not a number.');
+
+  const alternatives = normalizeAlternatives(raw.alternatives);
+  // The top-level suggestion mirrors the best alternative, so either can stand in for the other.
+  const suggestion = normalizeText(raw.suggestion) ?? alternatives?.[0].suggestion;
+  const explanation = normalizeText(raw.explanation) ?? alternatives?.[0].explanation;
+  if (!suggestion) throw invalid('"suggestion" is missing or empty.');
+  if (!explanation) throw invalid('"explanation" is missing or empty.');
+
+  const turns = normalizeTurns(raw.turns, request);
+  // Offsets only make sense against the text the user typed, not a formatted thread.
+  const phrases = turns ? undefined : normalizePhrases(raw.phrases, request?.text ?? '');
+  const vocal = normalizeVocal(raw.vocal, request);
+  return {
+    temperature,
+    emotion: requireText(raw, 'emotion'),
+    suggestion,
+    explanation,
+    recipientImpact: normalizeImpact(raw.recipientImpact, 'recipientImpact'),
+    ...(alternatives && { alternatives }),
+    ...(turns && { turns }),
+    ...(phrases && { phrases }),
+    ...(vocal && { vocal }),
+  };
+};
+
+/**
+ * Parses model text into an AnalysisResult. Code fences are stripped and
+ * truncated JSON is closed before validation, so a response that was cut off
+ * after all required fields still counts. A string cut off midway is dropped
+ * rather than closed, so half-written text never passes as complete.
+ */
+export const parseAnalysisResult = (text: string | undefined, request?: AnalysisRequest): AnalysisResult => {
+  const trimmed = (text ?? '').trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  if (!trimmed) throw invalid('the response was empty.');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(trimmed);
+  } catch {
+    raw = parsePartialJson(trimmed, { keepOpenString: false });
+    if (raw === undefined) throw invalid('the response is not valid JSON.');
+  }
+  return validateAnalysisResult(raw, request);
+};
+
+/**
+ * Keeps only well-formed fields of a streamed partial result, so components
+ * never render half-typed numbers or out-of-range temperatures.
+ */
+export const sanitizePartialResult = (raw: unknown): PartialAnalysisResult | undefined => {
+  if (!isObject(raw)) return undefined;
+  const partial: PartialAnalysisResult = {};
+  const temperature = normalizeTemperature(raw.temperature);
+  if (temperature !== undefined) partial.temperature = temperature;
+  if (typeof raw.emotion === 'string') partial.emotion = raw.emotion;
+  if (typeof raw.suggestion === 'string') partial.suggestion = raw.suggestion;
+  if (typeof raw.explanation === 'string') partial.explanation = raw.explanation;
+  if (isObject(raw.recipientImpact)) {
+    const { predictedFeeling, impactExplanation } = raw.recipientImpact;
+    partial.recipientImpact = {
+      ...(typeof predictedFeeling === 'string' && { predictedFeeling }),
+      ...(typeof impactExplanation === 'string' && { impactExplanation }),
+    };
+  }
+  return partial;
+};
+
+/**
+ * Checks a transcript read from screenshots. Messages the model could not
+ * read are dropped; an empty transcript is still valid.
+ */
+export const validateTranscript = (raw: unknown): ConversationTurn[] => {
+  if (!isObject(raw) || !Array.isArray(raw.turns)) throw invalid('expected a "turns" array.');
+  return raw.turns.flatMap((item): ConversationTurn[] => {
+    if (!isObject(item)) return [];
+    const text = normalizeText(item.text);
+    if (!text) return [];
+    const timestamp = normalizeText(item.timestamp);
+    return [{ speaker: normalizeText(item.speaker) ?? '', text, ...(timestamp && { timestamp }) }];
+  });
+};
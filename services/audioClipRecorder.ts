@@ -0,0 +1,88 @@
+import { blobToBase64 } from './base64';
+
+export interface AudioClip {
+  base64: string;
+  /** Without codec parameters, e.g. "audio/webm". */
+  mimeType: string;
+  durationMs: number;
+}
+
+export interface AudioClipRecorder {
+  /** Rejects when the microphone is unavailable. */
+  start: () => Promise<void>;
+  /** Resolves with the recording, or null when nothing was captured. */
+  stop: () => Promise<AudioClip | null>;
+}
+
+// Keeps requests well under the server's body limit; later audio is not kept.
+const MAX_CLIP_MS = 120_000;
+
+/** Records one microphone clip to send along with its transcript. */
+export const createAudioClipRecorder = (): AudioClipRecorder => {
+  let recorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+  let startedAt = 0;
+  let stoppedAt = 0;
+  let limitTimer: number | null = null;
+  // Bumped by every start and stop, so a start that is still waiting for the microphone can tell it was stopped.
+  let session = 0;
+
+  const start = async () => {
+    const startedSession = ++session;
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    if (startedSession !== session) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    chunks = [];
+    recorder = new MediaRecorder(stream);
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.start();
+    startedAt = Date.now();
+    stoppedAt = 0;
+    limitTimer = window.setTimeout(() => {
+      stoppedAt = Date.now();
+      recorder?.stop();
+    }, MAX_CLIP_MS);
+  };
+
+  const stop = () => new Promise<AudioClip | null>((resolve) => {
+    session++;
+    const current = recorder;
+    recorder = null;
+    if (limitTimer !== null) {
+      clearTimeout(limitTimer);
+      limitTimer = null;
+    }
+    if (!current) {
+      resolve(null);
+      return;
+    }
+    const finish = async () => {
+      current.stream.getTracks().forEach(track => track.stop());
+      const blob = new Blob(chunks, { type: current.mimeType });
+      if (blob.size === 0) {
+        resolve(null);
+        return;
+      }
+      try {
+        resolve({
+          base64: await blobToBase64(blob),
+          mimeType: current.mimeType.split(';')[0] || 'audio/webm',
+          durationMs: (stoppedAt || Date.now()) - startedAt,
+        });
+      } catch (error) {
+        console.error('Failed to read the voice recording:', error);
+        resolve(null);
+      }
+    };
+    if (current.state === 'inactive') {
+      finish();
+    } else {
+      current.onstop = finish;
+      current.stop();
+    }
+  });
+
+  return { start, stop };
+};
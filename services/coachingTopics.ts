@@ -0,0 +1,130 @@
+import { CoachingTopic, LocalizedList, LocalizedText, TopicInstruction } from '../types';
+import { translations, Language } from '../translations';
+
+/** Collects one translation key across every UI language. */
+const fromTranslations = (key: keyof typeof translations.en): LocalizedText =>
+  Object.fromEntries((Object.keys(translations) as Language[]).map(language => [language, translations[language][key]]));
+
+/**
+ * The topics PeaceTalk ships with. Custom topics use the same shape, and
+ * saving a topic with one of these ids overrides the default.
+ */
+export const defaultTopics: CoachingTopic[] = [
+  {
+    id: 'general',
+    icon: '💬',
+    name: fromTranslations('topicGeneral'),
+    instructions: {},
+    examples: {
+      en: ['Can you finally answer my email?', 'Why do I always have to remind you?'],
+      ko: ['이제 제 메일에 답 좀 해 주시겠어요?', '왜 항상 제가 다시 말해야 하죠?'],
+      es: ['¿Puedes contestar por fin mi correo?', '¿Por qué siempre tengo que recordártelo?'],
+      fr: ['Tu peux enfin répondre à mon e-mail ?', 'Pourquoi je dois toujours te le rappeler ?'],
+      ja: ['いい加減、私のメールに返信してもらえますか？', 'どうしていつも私が念を押さないといけないの？'],
+      zh: ['你能不能终于回一下我的邮件？', '为什么总是要我来提醒你？'],
+    },
+  },
+  {
+    id: 'gender-equality',
+    icon: '⚖️',
+    name: fromTranslations('topicGenderEquality'),
+    instructions: {
+      en: 'In your analysis, pay special attention to language related to gender equality. Identify any potential gender bias, stereotypes, or microaggressions. Your suggestions should promote respectful, inclusive, and equitable communication between genders.',
+      ko: '분석 시 성 평등과 관련된 언어에 특히 주의를 기울여 주십시오. 잠재적인 성 편견, 고정관념 또는 미묘한 차별을 식별하십시오. 당신의 제안은 성별 간에 존중하고 포용적이며 공평한 의사소통을 촉진해야 합니다.',
+      es: 'En tu análisis, presta especial atención al lenguaje relacionado con la igualdad de género. Identifica posibles sesgos de género, estereotipos o microagresiones. Tus sugerencias deben promover una comunicación respetuosa, inclusiva y equitativa entre géneros.',
+      fr: "Dans votre analyse, portez une attention particulière au langage lié à l'égalité des genres. Repérez les éventuels biais de genre, stéréotypes ou micro-agressions. Vos suggestions doivent favoriser une communication respectueuse, inclusive et équitable entre les genres.",
+      ja: '分析の際は、ジェンダー平等に関わる言葉遣いに特に注意してください。ジェンダーに関する偏見、固定観念、マイクロアグレッションがないかを見極めてください。提案は、性別を問わず敬意があり、包摂的で公平なコミュニケーションを促すものにしてください。',
+      zh: '在分析中，请特别关注与性别平等相关的措辞。识别任何潜在的性别偏见、刻板印象或微歧视。你的建议应促进不同性别之间相互尊重、包容和平等的沟通。',
+    },
+    examples: {
+      en: ['Let the guys handle the heavy lifting.', "You're too emotional to lead this project."],
+      ko: ['힘쓰는 일은 남자들한테 맡겨.', '당신은 너무 감정적이라 이 프로젝트를 이끌 수 없어요.'],
+      es: ['Deja que los chicos se encarguen del trabajo pesado.', 'Eres demasiado emocional para dirigir este proyecto.'],
+      fr: ['Laisse les gars s’occuper des tâches physiques.', 'Tu es trop émotive pour diriger ce projet.'],
+      ja: ['力仕事は男性陣に任せておきなよ。', 'あなたは感情的すぎて、このプロジェクトは任せられない。'],
+      zh: ['重活就交给男生们吧。', '你太情绪化了，带不了这个项目。'],
+    },
+  },
+  {
+    id: 'human-rights',
+    icon: '🕊️',
+    name: fromTranslations('topicHumanRights'),
+    instructions: {
+      en: 'Analyze the conversation through a human rights lens. Identify any language that may be discriminatory, dehumanizing, or disrespectful of fundamental rights. Provide suggestions that uphold dignity, respect, and empathy for all individuals.',
+      ko: '인권의 관점에서 대화를 분석하십시오. 차별적이거나, 비인간적이거나, 기본권을 무시하는 언어가 있는지 식별하십시오. 모든 개인에 대한 존엄성, 존중, 공감을 지지하는 제안을 제공하십시오.',
+      es: 'Analiza la conversación desde la perspectiva de los derechos humanos. Identifica cualquier lenguaje que pueda ser discriminatorio, deshumanizante o irrespetuoso con los derechos fundamentales. Ofrece sugerencias que defiendan la dignidad, el respeto y la empatía hacia todas las personas.',
+      fr: "Analysez la conversation sous l'angle des droits humains. Repérez tout langage discriminatoire, déshumanisant ou irrespectueux des droits fondamentaux. Proposez des suggestions qui préservent la dignité, le respect et l'empathie envers chaque personne.",
+      ja: '人権の観点から会話を分析してください。差別的、非人間的、または基本的人権を軽んじる言葉がないかを見極めてください。すべての人の尊厳、尊重、共感を守る提案をしてください。',
+      zh: '请从人权的角度分析对话。识别任何可能带有歧视性、贬低人格或不尊重基本权利的措辞。提出维护每个人尊严、尊重与同理心的建议。',
+    },
+    examples: {
+      en: ["People like them don't belong here.", 'They should be grateful we even let them in.'],
+      ko: ['저런 사람들은 여기 있을 자격이 없어.', '받아 준 것만으로도 고마워해야지.'],
+      es: ['La gente como ellos no pertenece aquí.', 'Deberían estar agradecidos de que los dejemos entrar.'],
+      fr: ['Les gens comme eux n’ont rien à faire ici.', 'Ils devraient être reconnaissants qu’on les laisse entrer.'],
+      ja: ['ああいう人たちはここにふさわしくない。', '受け入れてもらえただけでも感謝すべきだ。'],
+      zh: ['像他们那样的人不属于这里。', '我们肯让他们进来，他们就该感恩了。'],
+    },
+  },
+  {
+    id: 'violence-prevention',
+    icon: '🛡️',
+    name: fromTranslations('topicViolencePrevention'),
+    instructions: {
+      en: 'Focus on de-escalation and violence prevention. Analyze the text for aggressive language, threats, or warning signs of conflict escalation. Your suggestions must prioritize safety and guide the user toward peaceful resolutions and non-violent communication techniques.',
+      ko: '상황 완화 및 폭력 예방에 중점을 두십시오. 공격적인 언어, 위협 또는 갈등 고조의 경고 신호가 있는지 텍스트를 분석하십시오. 당신의 제안은 안전을 최우선으로 해야 하며, 사용자를 평화로운 해결책과 비폭력적인 의사소통 기술로 안내해야 합니다.',
+      es: 'Céntrate en la desescalada y la prevención de la violencia. Analiza el texto en busca de lenguaje agresivo, amenazas o señales de advertencia de una escalada del conflicto. Tus sugerencias deben priorizar la seguridad y guiar al usuario hacia soluciones pacíficas y técnicas de comunicación no violenta.',
+      fr: "Concentrez-vous sur la désescalade et la prévention de la violence. Analysez le texte à la recherche de propos agressifs, de menaces ou de signes d'escalade du conflit. Vos suggestions doivent donner la priorité à la sécurité et orienter l'utilisateur vers des solutions pacifiques et des techniques de communication non violente.",
+      ja: '緊張緩和と暴力の防止に重点を置いてください。攻撃的な言葉、脅し、対立がエスカレートする兆候がないかテキストを分析してください。提案では安全を最優先し、ユーザーを平和的な解決と非暴力的なコミュニケーションの手法へ導いてください。',
+      zh: '请专注于缓和局势和预防暴力。分析文本中是否存在攻击性语言、威胁或冲突升级的预警信号。你的建议必须将安全放在首位，引导用户采用和平的解决方式和非暴力沟通技巧。',
+    },
+    examples: {
+      en: ["If you say that again, you'll regret it.", 'Keep pushing me and see what happens.'],
+      ko: ['한 번만 더 그런 말 하면 후회하게 될 거야.', '계속 건드려 봐, 어떻게 되는지.'],
+      es: ['Si vuelves a decir eso, te vas a arrepentir.', 'Sigue provocándome y verás lo que pasa.'],
+      fr: ['Si tu redis ça, tu vas le regretter.', 'Continue à me pousser à bout et tu verras.'],
+      ja: ['もう一度それを言ったら、後悔することになるよ。', 'これ以上追い詰めたらどうなるか見てろ。'],
+      zh: ['你再说一遍试试，你会后悔的。', '再逼我试试，看看会怎么样。'],
+    },
+  },
+  {
+    id: 'workplace-conflict',
+    icon: '🏢',
+    name: fromTranslations('topicWorkplaceConflict'),
+    instructions: {
+      en: 'Analyze the conversation within the context of a school or workplace. Consider power dynamics, professionalism, and constructive conflict resolution. Suggestions should be practical for a professional or academic setting, aiming to resolve disputes while maintaining relationships.',
+      ko: '학교나 직장 내의 맥락에서 대화를 분석하십시오. 권력 역학, 전문성, 건설적인 갈등 해결을 고려하십시오. 제안은 관계를 유지하면서 분쟁을 해결하는 것을 목표로 전문적이거나 학문적인 환경에 실용적이어야 합니다.',
+      es: 'Analiza la conversación en el contexto de una escuela o un lugar de trabajo. Ten en cuenta las dinámicas de poder, la profesionalidad y la resolución constructiva de conflictos. Las sugerencias deben ser prácticas para un entorno profesional o académico y buscar resolver las disputas manteniendo las relaciones.',
+      fr: "Analysez la conversation dans le contexte d'une école ou d'un lieu de travail. Tenez compte des rapports de pouvoir, du professionnalisme et de la résolution constructive des conflits. Les suggestions doivent être applicables dans un cadre professionnel ou scolaire et viser à régler les différends tout en préservant les relations.",
+      ja: '学校や職場という文脈で会話を分析してください。力関係、プロ意識、建設的な対立解決を考慮してください。提案は職場や学校の場で実践しやすく、関係を保ちながら対立を解決することを目指すものにしてください。',
+      zh: '请在学校或职场的背景下分析对话。考虑权力关系、职业素养和建设性的冲突解决方式。建议应适用于职场或学术环境，在维护关系的同时化解分歧。',
+    },
+    examples: {
+      en: ['This report is a mess. Did you even try?', "I'm tired of covering for your mistakes."],
+      ko: ['이 보고서 엉망이네요. 노력은 한 거예요?', '당신 실수 뒷수습하는 것도 이제 지쳤어요.'],
+      es: ['Este informe es un desastre. ¿Al menos lo intentaste?', 'Estoy cansado de cubrir tus errores.'],
+      fr: ['Ce rapport est un vrai fouillis. Tu as au moins essayé ?', 'J’en ai assez de rattraper tes erreurs.'],
+      ja: ['この報告書はひどいね。ちゃんとやろうとした？', 'あなたのミスの尻拭いをするのはもううんざりです。'],
+      zh: ['这份报告一团糟。你到底有没有用心？', '我受够了总是替你的错误收拾残局。'],
+    },
+  },
+];
+
+export const DEFAULT_TOPIC_ID = 'general';
+
+/** The most a topic's name and instruction may add up to in one request. */
+export const MAX_TOPIC_LENGTH = 4000;
+
+export const isDefaultTopic = (id: string) => defaultTopics.some(topic => topic.id === id);
+
+export const getLocalizedText = (text: LocalizedText, language: string) =>
+  text[language]?.trim() || text.en?.trim() || Object.values(text).find(value => value.trim()) || '';
+
+export const getLocalizedList = (list: LocalizedList, language: string): string[] =>
+  [list[language], list.en, ...Object.values(list)].find(items => items?.length) ?? [];
+
+/** Resolves a topic for the request, or nothing when it adds no instruction. */
+export const getTopicInstruction = (topic: CoachingTopic, language: string): TopicInstruction | undefined => {
+  const instruction = getLocalizedText(topic.instructions, language);
+  return instruction ? { name: getLocalizedText(topic.name, language), instruction } : undefined;
+};
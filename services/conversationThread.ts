@@ -0,0 +1,37 @@
+import { ConversationTurn } from '../types';
+
+// "Speaker: message" — also accepts the full-width colon used in CJK chat exports.
+const TURN_LINE = /^\s*([^:：\n]{1,40}?)\s*[:：]\s*(.*)$/;
+
+/**
+ * Splits a pasted chat log into turns. Lines without a speaker prefix are
+ * treated as a continuation of the previous turn.
+ */
+export const parseConversation = (raw: string): ConversationTurn[] => {
+  const turns: ConversationTurn[] = [];
+  raw.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) return;
+    const match = line.match(TURN_LINE);
+    if (match) {
+      turns.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (turns.length > 0) {
+      const last = turns[turns.length - 1];
+      last.text = last.text ? `${last.text}\n${line.trim()}` : line.trim();
+    } else {
+      turns.push({ speaker: '', text: line.trim() });
+    }
+  });
+  return turns;
+};
+
+export const formatConversation = (turns: ConversationTurn[]): string =>
+  turns.map((turn, index) =>
+    `[${index + 1}] ${turn.speaker || '?'}${turn.timestamp ? ` (${turn.timestamp})` : ''}: ${turn.text}`).join('\n');
+
+export const hasThreadContent = (turns: ConversationTurn[]) =>
+  turns.some(turn => turn.text.trim());
+
+/** Unique speakers in order of first appearance. */
+export const getSpeakers = (turns: { speaker: string }[]): string[] =>
+  turns.reduce<string[]>((speakers, { speaker }) =>
+    speakers.includes(speaker) ? speakers : [...speakers, speaker], []);
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { GuardInput, getGuardState } from './coolDownGuard';
+import { defaultGuardSettings } from './guardStore';
+
+const heated: GuardInput = {
+  settings: { ...defaultGuardSettings, enabled: true, threshold: 70 },
+  temperature: 85,
+  isDraft: true,
+  suggestion: 'Can we talk about this?',
+  isUnlocked: false,
+};
+
+describe('getGuardState', () => {
+  it('holds back copying a heated draft until the guard is unlocked', () => {
+    expect(getGuardState(heated)).toEqual({ isEngaged: true, isShown: true, blocksCopy: true });
+    expect(getGuardState({ ...heated, isUnlocked: true }).blocksCopy).toBe(false);
+  });
+
+  it('lets go once a heated draft is edited until it screens calm', () => {
+    // The calm screening clears both the score and the result that carried the suggestion.
+    expect(getGuardState({ ...heated, temperature: undefined, suggestion: undefined }))
+      .toEqual({ isEngaged: false, isShown: false, blocksCopy: false });
+  });
+
+  it('never blocks copying while there is no panel to unlock', () => {
+    expect(getGuardState({ ...heated, suggestion: undefined })).toEqual({ isEngaged: true, isShown: false, blocksCopy: false });
+  });
+
+  it('stays out of the way at or below the threshold, when disabled, and for anything but a draft', () => {
+    expect(getGuardState({ ...heated, temperature: 70 }).isEngaged).toBe(false);
+    expect(getGuardState({ ...heated, settings: { ...heated.settings, enabled: false } }).isEngaged).toBe(false);
+    expect(getGuardState({ ...heated, isDraft: false }).isEngaged).toBe(false);
+  });
+});
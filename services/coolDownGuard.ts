@@ -0,0 +1,27 @@
+import { GuardSettings } from '../types';
+
+export interface GuardInput {
+  settings: GuardSettings;
+  /** The latest score of the draft on screen; undefined once it screens calm or is cleared. */
+  temperature: number | undefined;
+  /** A single typed draft; threads, images and shared screens are never guarded. */
+  isDraft: boolean;
+  /** The calmer version the guard offers. */
+  suggestion: string | undefined;
+  isUnlocked: boolean;
+}
+
+export interface GuardState {
+  isEngaged: boolean;
+  /** The guard panel is on screen, so there is a way to unlock it. */
+  isShown: boolean;
+  /** Copying the draft out of the text box is held back until the guard is unlocked. */
+  blocksCopy: boolean;
+}
+
+export const getGuardState = ({ settings, temperature, isDraft, suggestion, isUnlocked }: GuardInput): GuardState => {
+  const isEngaged = settings.enabled && isDraft && temperature !== undefined && temperature > settings.threshold;
+  const isShown = isEngaged && !!suggestion;
+  // Without the panel there is nothing to unlock, so copying must not be blocked.
+  return { isEngaged, isShown, blocksCopy: isShown && !isUnlocked };
+};
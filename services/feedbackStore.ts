@@ -0,0 +1,133 @@
+import { FeedbackRecord } from '../types';
+import { createId } from './ids';
+
+const STORAGE_KEY = 'peacetalk.feedback.v1';
+const FEEDBACK_ENDPOINT = process.env.FEEDBACK_ENDPOINT;
+const RETRY_DELAYS_MS = [1000, 2000, 4000];
+// Between flushes that end with records still queued, waits double up to the cap.
+const FLUSH_BACKOFF_MS = 30_000;
+const MAX_FLUSH_BACKOFF_MS = 15 * 60_000;
+
+export const loadFeedback = (): FeedbackRecord[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to read feedback records:', error);
+    return [];
+  }
+};
+
+const persist = (records: FeedbackRecord[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.error('Failed to save feedback records:', error);
+  }
+  return records;
+};
+
+const updateStatus = (id: string, syncStatus: FeedbackRecord['syncStatus']) =>
+  persist(loadFeedback().map(record => (record.id === id ? { ...record, syncStatus } : record)));
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+type UploadOutcome = 'synced' | 'rejected' | 'retry-later';
+
+// Network errors, 5xx and 429 are worth retrying; any other error status means
+// the endpoint will never accept the record.
+const upload = async (endpoint: string, record: FeedbackRecord): Promise<UploadOutcome> => {
+  for (let attempt = 0; attempt <= RETRY_DELAYS_MS.length; attempt++) {
+    if (attempt > 0) {
+      await wait(RETRY_DELAYS_MS[attempt - 1]);
+    }
+    try {
+      const { syncStatus, ...payload } = record;
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (response.ok) return 'synced';
+      if (response.status < 500 && response.status !== 429) return 'rejected';
+    } catch (error) {
+      if (!navigator.onLine) return 'retry-later';
+    }
+  }
+  return 'retry-later';
+};
+
+let isFlushing = false;
+let backoffMs = 0;
+let backoffTimer: ReturnType<typeof setTimeout> | undefined;
+
+const cancelBackoff = () => {
+  clearTimeout(backoffTimer);
+  backoffTimer = undefined;
+};
+
+/**
+ * Uploads pending records in order. Stops at the first record that still fails
+ * after retrying so the rest stay queued, and schedules another flush with
+ * backoff. Coming back online flushes right away.
+ */
+export const flushFeedbackQueue = async () => {
+  if (!FEEDBACK_ENDPOINT || isFlushing || !navigator.onLine) return;
+  isFlushing = true;
+  cancelBackoff();
+  try {
+    for (const record of loadFeedback().filter(({ syncStatus }) => syncStatus === 'pending')) {
+      const outcome = await upload(FEEDBACK_ENDPOINT, record);
+      if (outcome === 'retry-later') {
+        backoffMs = Math.min(MAX_FLUSH_BACKOFF_MS, backoffMs ? backoffMs * 2 : FLUSH_BACKOFF_MS);
+        backoffTimer = setTimeout(() => { flushFeedbackQueue(); }, backoffMs);
+        return;
+      }
+      if (outcome === 'rejected') {
+        console.error('Feedback endpoint rejected record', record.id);
+      }
+      updateStatus(record.id, outcome);
+    }
+    backoffMs = 0;
+  } finally {
+    isFlushing = false;
+  }
+};
+
+/** Flushes queued feedback now and again whenever the browser comes back online. */
+export const startFeedbackSync = () => {
+  const handleOnline = () => { flushFeedbackQueue(); };
+  window.addEventListener('online', handleOnline);
+  flushFeedbackQueue();
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    cancelBackoff();
+  };
+};
+
+export const submitFeedback = (input: Omit<FeedbackRecord, 'id' | 'createdAt' | 'syncStatus'>): FeedbackRecord[] => {
+  const record: FeedbackRecord = { ...input, id: createId(), createdAt: Date.now(), syncStatus: 'pending' };
+  const records = persist([...loadFeedback(), record]);
+  flushFeedbackQueue();
+  return records;
+};
+
+export const exportFeedbackJson = (records: FeedbackRecord[]) => JSON.stringify(records, null, 2);
+
+const CSV_COLUMNS: (keyof FeedbackRecord)[] = [
+  'id', 'createdAt', 'language', 'socialTopic', 'rating', 'comment', 'tone', 'originalText', 'suggestion', 'syncStatus',
+];
+
+const toCsvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportFeedbackCsv = (records: FeedbackRecord[]) =>
+  [
+    CSV_COLUMNS.join(','),
+    ...records.map(record => CSV_COLUMNS.map(column =>
+      toCsvCell(column === 'createdAt' ? new Date(record.createdAt).toISOString() : record[column])
+    ).join(',')),
+  ].join('\r\n');
@@ -0,0 +1,166 @@
+/** A region of the shared screen, as fractions (0-1) of the video's size. */
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameMonitorOptions {
+  /** How often to sample while the screen is changing. */
+  intervalMs: number;
+  /** Fraction of sampled pixels (0-1) that must change before a frame is analyzed. */
+  changeThreshold: number;
+  crop: CropRegion | null;
+}
+
+export type FrameMonitorStatus = 'analyzing' | 'unchanged' | 'retrying';
+
+export interface FrameSample {
+  /** A small grayscale thumbnail used only for change detection. */
+  signature: Uint8ClampedArray;
+  /** Encodes the full-resolution frame; only called for frames that get analyzed. */
+  toBase64: () => string;
+}
+
+const SIGNATURE_SIZE = 32;
+// Ignore per-pixel noise from video compression and cursor blinking.
+const PIXEL_DELTA = 24;
+// While nothing changes, sampling slows down step by step up to this multiple of the interval.
+const IDLE_BACKOFF_FACTOR = 1.5;
+const MAX_IDLE_MULTIPLIER = 4;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * Draws the current video frame (or the cropped part of it) onto `canvas`
+ * and returns a change-detection signature plus a lazy JPEG encoder.
+ */
+export const sampleFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement, crop: CropRegion | null): FrameSample | null => {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const region = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const sx = Math.round(region.x * video.videoWidth);
+  const sy = Math.round(region.y * video.videoHeight);
+  const sw = Math.max(1, Math.round(region.width * video.videoWidth));
+  const sh = Math.max(1, Math.round(region.height * video.videoHeight));
+
+  canvas.width = sw;
+  canvas.height = sh;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(video, sx, sy, sw, sh, 0, 0, sw, sh);
+
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = SIGNATURE_SIZE;
+  thumbnail.height = SIGNATURE_SIZE;
+  const thumbnailContext = thumbnail.getContext('2d', { willReadFrequently: true });
+  if (!thumbnailContext) return null;
+  thumbnailContext.drawImage(canvas, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+  const { data } = thumbnailContext.getImageData(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+  const signature = new Uint8ClampedArray(SIGNATURE_SIZE * SIGNATURE_SIZE);
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  return { signature, toBase64: () => canvas.toDataURL('image/jpeg', 0.8).split(',')[1] };
+};
+
+/** The fraction of signature pixels whose brightness changed noticeably. */
+export const frameDifference = (previous: Uint8ClampedArray, next: Uint8ClampedArray): number => {
+  if (previous.length !== next.length) return 1;
+  let changed = 0;
+  for (let i = 0; i < next.length; i++) {
+    if (Math.abs(previous[i] - next[i]) > PIXEL_DELTA) changed++;
+  }
+  return changed / next.length;
+};
+
+interface FrameMonitorConfig {
+  getOptions: () => FrameMonitorOptions;
+  sample: (crop: CropRegion | null) => FrameSample | null;
+  analyze: (frameBase64: string) => Promise<void>;
+  /** Called when an analysis fails; return false to stop monitoring. */
+  onError: (error: unknown) => boolean;
+  onStatus?: (status: FrameMonitorStatus, nextCheckMs: number) => void;
+}
+
+export interface FrameMonitor {
+  start: () => void;
+  stop: () => void;
+  /** Forgets the last analyzed frame so the next sample is analyzed even if unchanged. */
+  reset: () => void;
+}
+
+/**
+ * Samples the shared screen on a timer and analyzes only frames that differ
+ * from the last analyzed one. Unchanged screens are sampled less and less
+ * often, and failures back off exponentially instead of ending the session.
+ */
+export const createFrameMonitor = ({ getOptions, sample, analyze, onError, onStatus }: FrameMonitorConfig): FrameMonitor => {
+  let timer: number | null = null;
+  let running = false;
+  let lastSignature: Uint8ClampedArray | null = null;
+  let lastCrop: CropRegion | null = null;
+  let idleDelay = 0;
+  let retryDelay = 0;
+
+  const schedule = (delay: number) => {
+    if (running) timer = window.setTimeout(tick, delay);
+  };
+
+  const tick = async () => {
+    const { intervalMs, changeThreshold, crop } = getOptions();
+    // A different crop means a different picture; compare against nothing.
+    if (crop !== lastCrop) {
+      lastSignature = null;
+      lastCrop = crop;
+    }
+    const frame = sample(crop);
+    if (!frame || (lastSignature && frameDifference(lastSignature, frame.signature) < changeThreshold)) {
+      idleDelay = Math.min(intervalMs * MAX_IDLE_MULTIPLIER, (idleDelay || intervalMs) * IDLE_BACKOFF_FACTOR);
+      onStatus?.('unchanged', idleDelay);
+      schedule(idleDelay);
+      return;
+    }
+
+    idleDelay = 0;
+    onStatus?.('analyzing', intervalMs);
+    try {
+      await analyze(frame.toBase64());
+      lastSignature = frame.signature;
+      retryDelay = 0;
+      schedule(intervalMs);
+    } catch (error) {
+      if (!running) return;
+      if (!onError(error)) {
+        stop();
+        return;
+      }
+      retryDelay = Math.min(MAX_RETRY_DELAY_MS, retryDelay ? retryDelay * 2 : intervalMs * 2);
+      onStatus?.('retrying', retryDelay);
+      schedule(retryDelay);
+    }
+  };
+
+  const start = () => {
+    if (running) return;
+    running = true;
+    reset();
+    schedule(0);
+  };
+
+  const stop = () => {
+    running = false;
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const reset = () => {
+    lastSignature = null;
+    idleDelay = 0;
+    retryDelay = 0;
+  };
+
+  return { start, stop, reset };
+};
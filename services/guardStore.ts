@@ -0,0 +1,71 @@
+import { CoolDownMode, GuardLogEntry, GuardSettings } from '../types';
+import { createId } from './ids';
+
+const SETTINGS_KEY = 'peacetalk.guard.v1';
+const LOG_KEY = 'peacetalk.guard-log.v1';
+const MAX_LOG_ENTRIES = 500;
+const COOL_DOWN_MODES: CoolDownMode[] = ['timer', 'reflection', 'compare'];
+
+export const defaultGuardSettings: GuardSettings = {
+  enabled: false,
+  threshold: 70,
+  mode: 'timer',
+  timerSeconds: 30,
+};
+
+export const loadGuardSettings = (): GuardSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!parsed || typeof parsed !== 'object') return defaultGuardSettings;
+    return {
+      enabled: parsed.enabled === true,
+      threshold: typeof parsed.threshold === 'number' ? parsed.threshold : defaultGuardSettings.threshold,
+      mode: COOL_DOWN_MODES.includes(parsed.mode) ? parsed.mode : defaultGuardSettings.mode,
+      timerSeconds: typeof parsed.timerSeconds === 'number' ? parsed.timerSeconds : defaultGuardSettings.timerSeconds,
+    };
+  } catch (error) {
+    console.error('Failed to read guard settings:', error);
+    return defaultGuardSettings;
+  }
+};
+
+export const saveGuardSettings = (settings: GuardSettings): GuardSettings => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save guard settings:', error);
+  }
+  return settings;
+};
+
+export const loadGuardLog = (): GuardLogEntry[] => {
+  try {
+    const raw = localStorage.getItem(LOG_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to read the guard log:', error);
+    return [];
+  }
+};
+
+/** Records which version left the app; the draft text itself is not stored. */
+export const logGuardChoice = (entry: Omit<GuardLogEntry, 'id' | 'createdAt'>): GuardLogEntry[] => {
+  const log = [...loadGuardLog(), { ...entry, id: createId(), createdAt: Date.now() }].slice(-MAX_LOG_ENTRIES);
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch (error) {
+    console.error('Failed to save the guard log:', error);
+  }
+  return log;
+};
+
+export const clearGuardLog = (): GuardLogEntry[] => {
+  try {
+    localStorage.removeItem(LOG_KEY);
+  } catch (error) {
+    console.error('Failed to clear the guard log:', error);
+  }
+  return [];
+};
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryEntry } from '../types';
+import { clearHistory, deleteHistoryEntry, loadHistory, saveHistoryEntry } from './historyStore';
+
+const entry = (id: string, text = 'Can we talk?'): HistoryEntry => ({
+  id,
+  createdAt: 1,
+  updatedAt: 1,
+  mode: 'single',
+  text,
+  hadImage: false,
+  language: 'en',
+  socialTopic: 'general',
+  result: {
+    temperature: 20,
+    emotion: 'Neutral',
+    suggestion: text,
+    explanation: '',
+    recipientImpact: { predictedFeeling: '', impactExplanation: '' },
+  },
+});
+
+/** A localStorage that refuses values over `quota` characters, or every write when `broken`. */
+const createStorage = (quota = Infinity) => {
+  const items = new Map<string, string>();
+  return {
+    broken: false,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem(key: string, value: string) {
+      if (this.broken || value.length > quota) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem(key: string) {
+      if (this.broken) throw new DOMException('Storage is disabled', 'SecurityError');
+      items.delete(key);
+    },
+  };
+};
+
+describe('historyStore', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the newest entries first and replaces entries by id', () => {
+    vi.stubGlobal('localStorage', createStorage());
+    saveHistoryEntry(entry('a'));
+    saveHistoryEntry(entry('b'));
+    expect(saveHistoryEntry(entry('a', 'Edited')).map(({ id, text }) => [id, text])).toEqual([['a', 'Edited'], ['b', 'Can we talk?']]);
+    expect(deleteHistoryEntry('a').map(({ id }) => id)).toEqual(['b']);
+    expect(deleteHistoryEntry('b')).toEqual([]);
+    expect(loadHistory()).toEqual([]);
+  });
+
+  it('skips an entry too large to store instead of clearing the history', () => {
+    vi.stubGlobal('localStorage', createStorage(2000));
+    saveHistoryEntry(entry('a'));
+    saveHistoryEntry(entry('b'));
+    expect(saveHistoryEntry(entry('huge', 'x'.repeat(5000))).map(({ id }) => id)).toEqual(['b', 'a']);
+    expect(loadHistory().map(({ id }) => id)).toEqual(['b', 'a']);
+  });
+
+  it('does not throw when storage is unavailable', () => {
+    const storage = createStorage();
+    vi.stubGlobal('localStorage', storage);
+    saveHistoryEntry(entry('a'));
+    storage.broken = true;
+    expect(saveHistoryEntry(entry('b')).map(({ id }) => id)).toEqual(['a']);
+    expect(deleteHistoryEntry('a')).toEqual([]);
+    expect(clearHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { HistoryEntry } from '../types';
+
+const STORAGE_KEY = 'peacetalk.history.v1';
+const MAX_ENTRIES = 200;
+
+export const loadHistory = (): HistoryEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to read analysis history:', error);
+    return [];
+  }
+};
+
+/**
+ * When storage is full, drops the oldest entries until the write fits. If not
+ * even the newest entry fits, or storage is unavailable, what is stored stays
+ * as it was and `fallback` is returned instead.
+ */
+const persist = (entries: HistoryEntry[], fallback: HistoryEntry[]): HistoryEntry[] => {
+  let kept = entries.slice(0, MAX_ENTRIES);
+  for (;;) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return kept;
+    } catch (error) {
+      if (kept.length <= 1) {
+        console.error('Failed to save analysis history:', error);
+        return fallback;
+      }
+      kept = kept.slice(0, Math.floor(kept.length / 2));
+    }
+  }
+};
+
+/**
+ * Inserts the entry, or replaces the one with the same id while keeping its
+ * original creation time. Entries are kept most recently updated first so the
+ * history view can render them without sorting.
+ */
+export const saveHistoryEntry = (entry: HistoryEntry): HistoryEntry[] => {
+  const entries = loadHistory();
+  const existing = entries.find(({ id }) => id === entry.id);
+  const others = entries.filter(({ id }) => id !== entry.id);
+  // An entry too large to store is skipped rather than pushing out the rest.
+  return persist([existing ? { ...entry, createdAt: existing.createdAt } : entry, ...others], entries);
+};
+
+export const deleteHistoryEntry = (id: string): HistoryEntry[] => {
+  const remaining = loadHistory().filter(entry => entry.id !== id);
+  return persist(remaining, remaining);
+};
+
+export const clearHistory = (): HistoryEntry[] => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to clear analysis history:', error);
+  }
+  return [];
+};
+
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(({ text, turns, result, versions }) =>
+    [
+      text,
+      ...(turns ?? []).map(turn => `${turn.speaker} ${turn.text}`),
+      ...(versions ?? []).map(version => version.text),
+      result.emotion,
+      result.suggestion,
+    ].some(value => value.toLowerCase().includes(needle))
+  );
+};
@@ -0,0 +1,59 @@
+import { ImageAttachment } from '../types';
+import { blobToBase64 } from './base64';
+
+/** Matches the server's limit on images per analysis. */
+export const MAX_IMAGES = 10;
+
+// Keeps chat text legible while a full set of screenshots stays under the server's body limit.
+const MAX_DIMENSION = 2048;
+const MAX_IMAGE_BYTES = 1024 * 1024;
+const JPEG_QUALITY = 0.85;
+const SHRINK_STEP = 0.8;
+const MAX_SHRINK_STEPS = 4;
+// Formats the model accepts as-is; anything else is re-encoded.
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the image.')), type, quality);
+  });
+
+/**
+ * Reads an image for analysis. Small images are sent unchanged; large ones are
+ * scaled down and re-encoded as JPEG until they fit, instead of being rejected.
+ */
+export const prepareImage = async (file: Blob): Promise<ImageAttachment> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && file.size <= MAX_IMAGE_BYTES && PASSTHROUGH_TYPES.includes(file.type)) {
+      return { base64: await blobToBase64(file), mimeType: file.type };
+    }
+
+    const canvas = document.createElement('canvas');
+    let width = bitmap.width * scale;
+    let height = bitmap.height * scale;
+    for (let step = 0; ; step++) {
+      canvas.width = Math.max(1, Math.round(width));
+      canvas.height = Math.max(1, Math.round(height));
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not available.');
+      // JPEG has no transparency; screenshots with an alpha channel would otherwise turn black.
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      const blob = await canvasToBlob(canvas, 'image/jpeg', JPEG_QUALITY);
+      if (blob.size <= MAX_IMAGE_BYTES || step === MAX_SHRINK_STEPS) {
+        return { base64: await blobToBase64(blob), mimeType: 'image/jpeg' };
+      }
+      width *= SHRINK_STEP;
+      height *= SHRINK_STEP;
+    }
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** The image files in a drop or paste, in the order they were given. */
+export const getImageFiles = (data: DataTransfer | null): File[] =>
+  Array.from(data?.files ?? []).filter(file => file.type.startsWith('image/'));
@@ -0,0 +1,31 @@
+import { AnalysisFixture } from './localProvider';
+
+// Canned results for the placeholder examples so offline demos look realistic.
+export const defaultFixtures: AnalysisFixture[] = [
+  {
+    match: "You're completely wrong about this",
+    result: {
+      temperature: 72,
+      emotion: 'Contempt',
+      suggestion: "I see this differently. Could you walk me through how you got there?",
+      explanation: 'Asking about their reasoning turns a verdict into an invitation to talk.',
+      recipientImpact: {
+        predictedFeeling: 'Defensive',
+        impactExplanation: 'Being told they are completely wrong is likely to make the recipient dig in rather than reconsider.',
+      },
+    },
+  },
+  {
+    match: '당신은 이 문제에 대해 완전히 틀렸어요',
+    result: {
+      temperature: 70,
+      emotion: 'Contempt',
+      suggestion: '저는 조금 다르게 생각해요. 어떻게 그런 결론에 이르렀는지 설명해 주실 수 있을까요?',
+      explanation: '상대의 생각을 묻는 것은 판정을 대화의 초대로 바꿉니다.',
+      recipientImpact: {
+        predictedFeeling: 'Defensive',
+        impactExplanation: '완전히 틀렸다는 말을 들으면 상대방은 다시 생각하기보다 자기 입장을 고수하기 쉽습니다.',
+      },
+    },
+  },
+];
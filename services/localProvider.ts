@@ -0,0 +1,318 @@
+import {
+  AnalysisRequest, AnalysisResult, ConversationTurn, FlaggedPhrase, PartialAnalysisResult, PhraseCategory,
+  SuggestionAlternative, SuggestionTone, TurnAnalysis,
+} from '../types';
+import { AnalysisProvider } from './analysisProvider';
+import { defaultFixtures } from './localFixtures';
+import { ScreeningFlag, ScreeningFlagType, screenText } from './toneScreening';
+
+export interface AnalysisFixture {
+  /** Exact (trimmed, case-insensitive) text or a pattern the input must match. */
+  match: string | RegExp;
+  result: AnalysisResult;
+}
+
+export interface LocalProviderOptions {
+  fixtures?: AnalysisFixture[];
+  /** Simulated latency in ms so loading states can be exercised offline. */
+  delayMs?: number;
+}
+
+const absoluteRewrites: { [word: string]: string } = {
+  always: 'often', never: 'rarely', everyone: 'many people', nobody: 'hardly anyone',
+  '항상': '자주', '맨날': '자주', '절대': '좀처럼', '늘': '자주',
+  siempre: 'a menudo', nunca: 'pocas veces', 'jamás': 'pocas veces', nadie: 'casi nadie',
+  toujours: 'souvent', jamais: 'rarement',
+  'いつも': 'よく', '絶対': 'おそらく', '毎回': 'ときどき',
+  '总是': '经常', '从来': '很少', '永远': '常常', '每次': '有时', '从不': '很少',
+};
+
+const localCopy: { [lang: string]: { [key: string]: string } } = {
+  en: {
+    calmSuggestion: 'Your message already reads as calm and respectful. Consider sending it as is.',
+    heatedSuggestion: 'I feel strongly about this, and I would like us to talk it through together. Can we find a time?',
+    calmExplanation: 'Keeping a neutral tone invites the other person to respond openly.',
+    heatedExplanation: 'Describing your own feelings instead of blaming makes it easier for the other person to listen.',
+    calmImpact: 'The recipient is likely to read this as a straightforward, non-threatening message.',
+    heatedImpact: 'Blame and absolute language tend to make the recipient defend themselves rather than engage.',
+    briefSuggestion: "I'm upset about this. Can we talk?",
+    briefExplanation: 'A short, honest opener leaves room for the other person to respond.',
+    assertiveSuggestion: 'This matters to me and I need us to resolve it. I want to hear your side, and I also need you to hear mine.',
+    assertiveExplanation: 'Stating your needs clearly without attacking keeps your point while respecting theirs.',
+    formalSuggestion: 'I would appreciate the opportunity to discuss this matter with you at your earliest convenience.',
+    formalExplanation: 'A polite, professional register lowers the emotional stakes.',
+    alternativeImpact: 'The recipient is more likely to engage with the issue than to defend themselves.',
+    insultPhrase: 'Name-calling attacks the person instead of the problem.',
+    absolutePhrase: 'Absolutes overstate the problem and invite the other person to argue the exception.',
+    blamePhrase: 'Pointing at "you" in a heated message reads as an accusation.',
+  },
+  ko: {
+    calmSuggestion: '이미 차분하고 정중한 메시지입니다. 그대로 보내도 좋습니다.',
+    heatedSuggestion: '이 문제에 대해 제 마음이 많이 쓰여요. 함께 차분히 이야기해 볼 수 있을까요?',
+    calmExplanation: '중립적인 어조는 상대방이 열린 마음으로 답하도록 돕습니다.',
+    heatedExplanation: '비난 대신 자신의 감정을 표현하면 상대방이 귀 기울이기 쉬워집니다.',
+    calmImpact: '상대방은 이 메시지를 위협적이지 않은 평범한 메시지로 받아들일 가능성이 높습니다.',
+    heatedImpact: '비난과 단정적인 표현은 상대방이 대화보다 방어에 집중하게 만듭니다.',
+    briefSuggestion: '이 일로 속상해요. 얘기 좀 할 수 있을까요?',
+    briefExplanation: '짧고 솔직한 말은 상대방이 답할 여지를 남깁니다.',
+    assertiveSuggestion: '이 문제는 저에게 중요하고 꼭 해결하고 싶어요. 당신의 이야기도 듣고 싶고, 제 이야기도 들어 주셨으면 해요.',
+    assertiveExplanation: '공격하지 않고 필요를 분명히 말하면 상대를 존중하면서도 내 입장을 지킬 수 있습니다.',
+    formalSuggestion: '편하신 때에 이 문제에 대해 말씀 나눌 기회를 주시면 감사하겠습니다.',
+    formalExplanation: '정중하고 공식적인 표현은 감정적인 부담을 줄여 줍니다.',
+    alternativeImpact: '상대방은 방어하기보다 문제 자체에 관심을 기울일 가능성이 높습니다.',
+    insultPhrase: '비하하는 말은 문제가 아니라 사람을 공격합니다.',
+    absolutePhrase: '단정적인 표현은 문제를 과장하고 상대방이 예외를 들어 반박하게 만듭니다.',
+    blamePhrase: '격한 메시지에서 상대를 지목하면 비난으로 읽힙니다.',
+  },
+  es: {
+    calmSuggestion: 'Tu mensaje ya suena tranquilo y respetuoso. Puedes enviarlo tal como está.',
+    heatedSuggestion: 'Esto me importa mucho y me gustaría que lo habláramos juntos. ¿Podemos buscar un momento?',
+    calmExplanation: 'Un tono neutral invita a la otra persona a responder con apertura.',
+    heatedExplanation: 'Describir lo que sientes en lugar de culpar facilita que la otra persona escuche.',
+    calmImpact: 'Es probable que el destinatario lo lea como un mensaje directo y nada amenazante.',
+    heatedImpact: 'La culpa y las expresiones absolutas llevan al destinatario a defenderse en lugar de dialogar.',
+    briefSuggestion: 'Esto me tiene molesto. ¿Podemos hablar?',
+    briefExplanation: 'Una apertura breve y sincera deja espacio para que la otra persona responda.',
+    assertiveSuggestion: 'Esto es importante para mí y necesito que lo resolvamos. Quiero escuchar tu punto de vista y también necesito que escuches el mío.',
+    assertiveExplanation: 'Expresar tus necesidades con claridad y sin atacar mantiene tu postura respetando la suya.',
+    formalSuggestion: 'Le agradecería la oportunidad de conversar sobre este asunto cuando le resulte conveniente.',
+    formalExplanation: 'Un registro cortés y profesional reduce la carga emocional.',
+    alternativeImpact: 'Es más probable que el destinatario se ocupe del problema en lugar de defenderse.',
+    insultPhrase: 'Los insultos atacan a la persona en lugar del problema.',
+    absolutePhrase: 'Los absolutos exageran el problema e invitan a la otra persona a discutir la excepción.',
+    blamePhrase: 'Señalar al "tú" en un mensaje acalorado se lee como una acusación.',
+  },
+  fr: {
+    calmSuggestion: 'Votre message est déjà calme et respectueux. Vous pouvez l’envoyer tel quel.',
+    heatedSuggestion: 'Cela me tient vraiment à cœur et j’aimerais qu’on en parle ensemble. Pouvons-nous trouver un moment ?',
+    calmExplanation: 'Un ton neutre invite l’autre personne à répondre ouvertement.',
+    heatedExplanation: 'Décrire ce que vous ressentez plutôt que de blâmer aide l’autre personne à écouter.',
+    calmImpact: 'Le destinataire lira probablement ce message comme simple et sans menace.',
+    heatedImpact: 'Le blâme et les formules absolues poussent le destinataire à se défendre plutôt qu’à dialoguer.',
+    briefSuggestion: 'Ça me contrarie. On peut en parler ?',
+    briefExplanation: 'Une ouverture courte et sincère laisse à l’autre la place de répondre.',
+    assertiveSuggestion: 'C’est important pour moi et j’ai besoin qu’on règle ça. Je veux entendre ton point de vue, et j’ai aussi besoin que tu entendes le mien.',
+    assertiveExplanation: 'Exprimer clairement vos besoins sans attaquer défend votre position tout en respectant la sienne.',
+    formalSuggestion: 'Je vous serais reconnaissant de pouvoir aborder ce sujet avec vous dès que possible.',
+    formalExplanation: 'Un registre poli et professionnel réduit la charge émotionnelle.',
+    alternativeImpact: 'Le destinataire sera plus enclin à traiter le problème qu’à se défendre.',
+    insultPhrase: 'Les insultes attaquent la personne plutôt que le problème.',
+    absolutePhrase: 'Les absolus exagèrent le problème et invitent l’autre à contester l’exception.',
+    blamePhrase: 'Pointer le « tu » dans un message tendu se lit comme une accusation.',
+  },
+  ja: {
+    calmSuggestion: 'すでに落ち着いた丁寧なメッセージです。このまま送っても大丈夫です。',
+    heatedSuggestion: 'このことがとても気になっています。一緒に落ち着いて話し合えませんか？',
+    calmExplanation: '中立的な口調は、相手が率直に返事をしやすくします。',
+    heatedExplanation: '責める代わりに自分の気持ちを伝えると、相手が耳を傾けやすくなります。',
+    calmImpact: '相手はこれを威圧感のない素直なメッセージとして受け取るでしょう。',
+    heatedImpact: '非難や断定的な表現は、相手を対話より防御に向かわせがちです。',
+    briefSuggestion: 'このことで気持ちが沈んでいます。少し話せますか？',
+    briefExplanation: '短く正直な切り出しは、相手が返事をする余地を残します。',
+    assertiveSuggestion: 'これは私にとって大切なことで、解決したいと思っています。あなたの考えも聞きたいし、私の考えも聞いてほしいです。',
+    assertiveExplanation: '攻撃せずに必要なことをはっきり伝えると、相手を尊重しながら自分の立場を守れます。',
+    formalSuggestion: 'ご都合のよろしいときに、この件についてお話しする機会をいただけますと幸いです。',
+    formalExplanation: '丁寧でフォーマルな表現は、感情的な負担を和らげます。',
+    alternativeImpact: '相手は身構えるよりも、問題そのものに向き合う可能性が高くなります。',
+    insultPhrase: '悪口は問題ではなく人を攻撃します。',
+    absolutePhrase: '断定的な表現は問題を誇張し、相手に例外を挙げて反論させます。',
+    blamePhrase: '感情的なメッセージで相手を名指しすると、非難として受け取られます。',
+  },
+  zh: {
+    calmSuggestion: '你的消息已经很平和、得体了，可以直接发送。',
+    heatedSuggestion: '这件事让我很在意，我希望我们能一起好好谈谈。我们能找个时间吗？',
+    calmExplanation: '中立的语气能让对方更愿意坦诚回应。',
+    heatedExplanation: '表达自己的感受而不是指责，对方会更容易听进去。',
+    calmImpact: '对方很可能把这条消息看作直接且没有威胁的表达。',
+    heatedImpact: '指责和绝对化的说法往往让对方忙于辩解，而不是沟通。',
+    briefSuggestion: '这件事让我很难过。我们能聊聊吗？',
+    briefExplanation: '简短而真诚的开场给对方留出了回应的空间。',
+    assertiveSuggestion: '这件事对我很重要，我需要我们把它解决。我想听听你的想法，也需要你听听我的。',
+    assertiveExplanation: '清楚表达需求而不攻击对方，既坚持了立场，也尊重了对方。',
+    formalSuggestion: '如您方便，希望能有机会与您商讨此事。',
+    formalExplanation: '礼貌、正式的措辞可以降低情绪上的压力。',
+    alternativeImpact: '对方更可能关注问题本身，而不是为自己辩护。',
+    insultPhrase: '辱骂针对的是人，而不是问题。',
+    absolutePhrase: '绝对化的说法夸大了问题，让对方忍不住去反驳例外。',
+    blamePhrase: '在激烈的消息里指向“你”，读起来就像指责。',
+  },
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The analysis was aborted.', 'AbortError'));
+  };
+  if (signal?.aborted) {
+    abort();
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+const matchCase = (original: string, replacement: string) => {
+  if (original.length > 1 && original === original.toUpperCase()) return replacement.toUpperCase();
+  if (original[0] !== original[0].toLowerCase()) return replacement[0].toUpperCase() + replacement.slice(1);
+  return replacement;
+};
+
+const phraseCategories: { [key in ScreeningFlagType]?: { category: PhraseCategory; heat: number } } = {
+  profanity: { category: 'insult', heat: 70 },
+  absolute: { category: 'absolute', heat: 40 },
+  blame: { category: 'blame', heat: 30 },
+};
+
+/** Turns screening flags into highlightable phrases; blame only counts in a heated message. */
+const toPhrases = (flags: ScreeningFlag[], copy: { [key: string]: string }, heated: boolean): FlaggedPhrase[] =>
+  flags.flatMap(({ type, start, end, text }): FlaggedPhrase[] => {
+    const mapping = phraseCategories[type];
+    if (!mapping || (type === 'blame' && !heated)) return [];
+    const rewrite = type === 'absolute' ? absoluteRewrites[text.toLowerCase()] : undefined;
+    return [{
+      start,
+      end,
+      text,
+      ...mapping,
+      explanation: copy[`${mapping.category}Phrase`],
+      ...(rewrite && { rewrite: matchCase(text, rewrite) }),
+    }];
+  });
+
+const emotionFor = (temperature: number) =>
+  temperature > 70 ? 'Anger' : temperature > 40 ? 'Frustration' : 'Neutral';
+
+// A turn escalates when it runs clearly hotter than the turn before it.
+const ESCALATION_JUMP = 20;
+
+const analyzeTurns = (turns: ConversationTurn[], language: string): TurnAnalysis[] =>
+  turns.map((turn, index) => {
+    const temperature = screenText(turn.text, language).temperature;
+    const previous = index > 0 ? screenText(turns[index - 1].text, language).temperature : 0;
+    return {
+      speaker: turn.speaker,
+      temperature,
+      emotion: emotionFor(temperature),
+      isEscalation: index > 0 && temperature - previous >= ESCALATION_JUMP,
+    };
+  });
+
+// Ranked best first; the warm version leads because it names feelings without blame.
+const ALTERNATIVE_ORDER: { tone: SuggestionTone; copyKey: string; feeling: string }[] = [
+  { tone: 'warm', copyKey: 'heated', feeling: 'Understood' },
+  { tone: 'assertive', copyKey: 'assertive', feeling: 'Respected' },
+  { tone: 'brief', copyKey: 'brief', feeling: 'Curious' },
+  { tone: 'formal', copyKey: 'formal', feeling: 'Neutral' },
+];
+
+const buildAlternatives = (copy: { [key: string]: string }): SuggestionAlternative[] =>
+  ALTERNATIVE_ORDER.map(({ tone, copyKey, feeling }) => ({
+    tone,
+    suggestion: copy[`${copyKey}Suggestion`],
+    explanation: copy[`${copyKey}Explanation`],
+    recipientImpact: { predictedFeeling: feeling, impactExplanation: copy.alternativeImpact },
+  }));
+
+// Offline, a refinement can only pick among the canned tones, by keywords in the instruction.
+const refinementTones: { tone: SuggestionTone; pattern: RegExp }[] = [
+  { tone: 'brief', pattern: /short|brief|concise|corto|breve|court|concis|短|简|짧|간단/i },
+  { tone: 'formal', pattern: /formal|polite|professional|cortés|profesional|poli|professionnel|丁寧|正式|礼貌|정중|격식/i },
+  { tone: 'assertive', pattern: /assertive|firm|direct|firme|directo|ferme|はっきり|坚定|直接|단호|분명/i },
+  { tone: 'warm', pattern: /warm|kind|gentle|soft|cálido|amable|chaleureux|doux|優し|温和|温暖|따뜻|부드/i },
+];
+
+/** Moves the alternative in `tone` to the top, or leaves the result alone without one. */
+const preferTone = (result: AnalysisResult, tone: SuggestionTone | undefined, copy: { [key: string]: string }): AnalysisResult => {
+  if (!tone) return result;
+  const alternatives = buildAlternatives(copy);
+  const preferred = alternatives.find(alternative => alternative.tone === tone)!;
+  return {
+    ...result,
+    suggestion: preferred.suggestion,
+    explanation: preferred.explanation,
+    recipientImpact: preferred.recipientImpact,
+    alternatives: [preferred, ...alternatives.filter(alternative => alternative !== preferred)],
+  };
+};
+
+// A follow-up instruction wins; otherwise a formal recipient gets the formal rewrite of a heated draft.
+const pickTone = (result: AnalysisResult, { refinement, recipient }: AnalysisRequest): SuggestionTone | undefined =>
+  refinement
+    ? refinementTones.find(({ pattern }) => pattern.test(refinement.instruction))?.tone
+    : recipient?.formality === 'formal' && result.alternatives ? 'formal' : undefined;
+
+const findFixture = (fixtures: AnalysisFixture[], text: string) => {
+  const normalized = text.trim().toLowerCase();
+  return fixtures.find(({ match }) =>
+    typeof match === 'string' ? match.trim().toLowerCase() === normalized : match.test(text)
+  );
+};
+
+/**
+ * An offline provider that never touches the network. Known inputs are answered
+ * from fixtures; anything else gets a heuristic result so the UI can be demoed
+ * and tested without an API key.
+ */
+export const createLocalProvider = ({ fixtures = defaultFixtures, delayMs = 0 }: LocalProviderOptions = {}): AnalysisProvider => {
+  const analyze = async (request: AnalysisRequest, signal?: AbortSignal): Promise<AnalysisResult> => {
+    const { text, language, images, turns } = request;
+    await wait(delayMs, signal);
+
+    const copy = localCopy[language] || localCopy.en;
+    const fixture = !turns?.length && findFixture(fixtures, text);
+    if (fixture) {
+      return preferTone(fixture.result, pickTone(fixture.result, request), copy);
+    }
+
+    const turnResults = turns?.length ? analyzeTurns(turns, language) : undefined;
+    const screening = screenText(text, language);
+    // A thread is as hot as its latest turn; images cannot be inspected
+    // offline, so they get a neutral middle score.
+    const temperature = turnResults
+      ? turnResults[turnResults.length - 1].temperature
+      : text.trim() ? screening.temperature : images?.length ? 50 : 0;
+    const heated = temperature > 40;
+    const phrases = turnResults ? [] : toPhrases(screening.flags, copy, heated);
+
+    const result: AnalysisResult = {
+      temperature,
+      emotion: emotionFor(temperature),
+      suggestion: heated ? copy.heatedSuggestion : copy.calmSuggestion,
+      explanation: heated ? copy.heatedExplanation : copy.calmExplanation,
+      recipientImpact: {
+        predictedFeeling: heated ? 'Defensive' : 'Neutral',
+        impactExplanation: heated ? copy.heatedImpact : copy.calmImpact,
+      },
+      ...(heated && { alternatives: buildAlternatives(copy) }),
+      ...(turnResults && { turns: turnResults }),
+      ...(phrases.length > 0 && { phrases }),
+    };
+    return preferTone(result, pickTone(result, request), copy);
+  };
+
+  // Replays the finished result in the same order the Gemini stream produces
+  // fields, so progressive rendering can be exercised offline.
+  const analyzeStream = async (
+      request: AnalysisRequest,
+      onPartial: (partial: PartialAnalysisResult) => void,
+      signal?: AbortSignal
+  ): Promise<AnalysisResult> => {
+    const result = await analyze(request, signal);
+    const { temperature, emotion, turns, suggestion, explanation, recipientImpact } = result;
+    const stages: PartialAnalysisResult[] = [
+      { temperature, emotion, turns },
+      { temperature, emotion, turns, suggestion, explanation },
+      { temperature, emotion, turns, suggestion, explanation, recipientImpact },
+    ];
+    for (const stage of stages) {
+      onPartial(stage);
+      await wait(delayMs / 2, signal);
+    }
+    return result;
+  };
+
+  return { id: 'local', analyze, analyzeStream };
+};
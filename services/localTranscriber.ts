@@ -0,0 +1,52 @@
+import { SpeechToTextError, Transcriber } from './speechToText';
+
+/**
+ * What the module at SPEECH_MODEL_URL must export, e.g. a thin wrapper around
+ * a Whisper WASM build. Samples are mono PCM at `sampleRate`.
+ */
+export interface LocalSpeechModel {
+  transcribe(samples: Float32Array, options: { sampleRate: number; language: string }): Promise<string>;
+}
+
+// Speech models are almost universally trained on 16 kHz mono audio.
+const MODEL_SAMPLE_RATE = 16_000;
+
+const decodeToMono = async (audio: Blob): Promise<Float32Array> => {
+  const context = new AudioContext();
+  try {
+    const decoded = await context.decodeAudioData(await audio.arrayBuffer());
+    const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * MODEL_SAMPLE_RATE), MODEL_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    return (await offline.startRendering()).getChannelData(0);
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Transcribes in the browser with a model loaded from `modelUrl`, so no audio
+ * leaves the device. The module is fetched on first use and then reused.
+ */
+export const createLocalTranscriber = (modelUrl: string): Transcriber => {
+  let model: Promise<LocalSpeechModel> | null = null;
+
+  const loadModel = () => {
+    model ??= import(/* @vite-ignore */ modelUrl).then((module: Partial<LocalSpeechModel>) => {
+      if (typeof module.transcribe !== 'function') {
+        throw new SpeechToTextError('unsupported', `${modelUrl} does not export a transcribe() function.`);
+      }
+      return module as LocalSpeechModel;
+    });
+    // A failed download should not be cached forever.
+    model.catch(() => { model = null; });
+    return model;
+  };
+
+  return async (audio, language) => {
+    const [speechModel, samples] = await Promise.all([loadModel(), decodeToMono(audio)]);
+    return speechModel.transcribe(samples, { sampleRate: MODEL_SAMPLE_RATE, language });
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses a complete document as is', () => {
+    expect(parsePartialJson('{"temperature":40,"emotion":"Anger"}')).toEqual({ temperature: 40, emotion: 'Anger' });
+  });
+
+  it('returns undefined before anything usable has arrived', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('  ')).toBeUndefined();
+  });
+
+  it('closes open objects and arrays', () => {
+    expect(parsePartialJson('{"turns":[{"speaker":"A"}')).toEqual({ turns: [{ speaker: 'A' }] });
+  });
+
+  it('cuts off numbers that may still be growing', () => {
+    expect(parsePartialJson('{"emotion":"Anger","temperature":4')).toEqual({ emotion: 'Anger' });
+  });
+
+  it('cuts off unfinished keys', () => {
+    expect(parsePartialJson('{"emotion":"Anger","sugg')).toEqual({ emotion: 'Anger' });
+  });
+
+  it('keeps an unfinished string value', () => {
+    expect(parsePartialJson('{"suggestion":"I feel')).toEqual({ suggestion: 'I feel' });
+  });
+
+  it('cuts an unfinished string value back to the last completed value when asked', () => {
+    expect(parsePartialJson('{"emotion":"Anger","suggestion":"I feel', { keepOpenString: false })).toEqual({ emotion: 'Anger' });
+    expect(parsePartialJson('{"suggestion":"I feel', { keepOpenString: false })).toEqual({});
+  });
+
+  it('drops a dangling escape sequence inside a string', () => {
+    expect(parsePartialJson('{"suggestion":"line\\')).toEqual({ suggestion: 'line' });
+    expect(parsePartialJson('{"suggestion":"caf\\u00')).toEqual({ suggestion: 'caf' });
+  });
+
+  it('does not treat braces inside strings as structure', () => {
+    expect(parsePartialJson('{"suggestion":"a {b} [c]"')).toEqual({ suggestion: 'a {b} [c]' });
+  });
+});
@@ -0,0 +1,82 @@
+const closerFor = (opener: string) => (opener === '{' ? '}' : ']');
+
+/**
+ * Parses the prefix of a JSON document that is still being streamed by closing
+ * whatever is open. Incomplete keys, numbers and literals are cut off; an
+ * unfinished string value is kept so long text can be shown as it arrives,
+ * unless `keepOpenString` is false, in which case the document is cut back to
+ * the last completed value. Returns undefined when nothing usable has arrived yet.
+ */
+export const parsePartialJson = (text: string, { keepOpenString = true } = {}): unknown => {
+  const openers: string[] = [];
+  // Parallel to `openers`: for objects, whether the next string is a key.
+  const expectKey: boolean[] = [];
+  let inString = false;
+  let isKeyString = false;
+  let escaped = false;
+  let safeLength = 0;
+  let safeOpeners: string[] = [];
+
+  const markSafe = (length: number) => {
+    safeLength = length;
+    safeOpeners = [...openers];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const top = openers.length - 1;
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (!isKeyString) markSafe(i + 1);
+      }
+      continue;
+    }
+    switch (ch) {
+      case '"':
+        inString = true;
+        isKeyString = openers[top] === '{' && expectKey[top];
+        break;
+      case '{':
+      case '[':
+        openers.push(ch);
+        expectKey.push(ch === '{');
+        markSafe(i + 1);
+        break;
+      case '}':
+      case ']':
+        openers.pop();
+        expectKey.pop();
+        markSafe(i + 1);
+        break;
+      case ':':
+        expectKey[top] = false;
+        break;
+      case ',':
+        // Everything before the comma is a complete value.
+        markSafe(i);
+        if (openers[top] === '{') expectKey[top] = true;
+        break;
+    }
+  }
+
+  let candidate: string;
+  if (inString && !isKeyString && keepOpenString) {
+    // Drop a dangling escape sequence before closing the string.
+    const body = text.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+    candidate = body + '"' + openers.map(closerFor).reverse().join('');
+  } else {
+    if (safeLength === 0) return undefined;
+    candidate = text.slice(0, safeLength) + safeOpeners.map(closerFor).reverse().join('');
+  }
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+};
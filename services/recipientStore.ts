@@ -0,0 +1,63 @@
+import { Formality, RecipientContext, RecipientProfile, RelationshipType } from '../types';
+import { createId } from './ids';
+
+const STORAGE_KEY = 'peacetalk.recipients.v1';
+
+export const RELATIONSHIP_TYPES: RelationshipType[] = ['manager', 'colleague', 'report', 'client', 'partner', 'family', 'child', 'friend', 'other'];
+export const FORMALITIES: Formality[] = ['casual', 'neutral', 'formal'];
+
+const isRecipientProfile = (value: unknown): value is RecipientProfile => {
+  const profile = value as RecipientProfile;
+  return !!profile && typeof profile === 'object'
+    && typeof profile.id === 'string' && !!profile.id
+    && typeof profile.name === 'string' && !!profile.name.trim()
+    && RELATIONSHIP_TYPES.includes(profile.relationship)
+    && FORMALITIES.includes(profile.formality)
+    && typeof profile.culturalContext === 'string'
+    && typeof profile.sensitivities === 'string'
+    && typeof profile.preferredLanguage === 'string';
+};
+
+/** Saved profiles in the order they were created. */
+export const loadRecipients = (): RecipientProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isRecipientProfile) : [];
+  } catch (error) {
+    console.error('Failed to read recipient profiles:', error);
+    return [];
+  }
+};
+
+const persist = (profiles: RecipientProfile[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save recipient profiles:', error);
+  }
+  return profiles;
+};
+
+export const createRecipient = (): RecipientProfile => ({
+  id: createId(),
+  name: '',
+  relationship: 'colleague',
+  formality: 'neutral',
+  culturalContext: '',
+  sensitivities: '',
+  preferredLanguage: '',
+});
+
+/** Inserts or replaces a profile. */
+export const saveRecipient = (profile: RecipientProfile): RecipientProfile[] => {
+  const saved = loadRecipients();
+  const index = saved.findIndex(({ id }) => id === profile.id);
+  return persist(index === -1 ? [...saved, profile] : saved.map((existing, i) => i === index ? profile : existing));
+};
+
+export const deleteRecipient = (id: string): RecipientProfile[] =>
+  persist(loadRecipients().filter(profile => profile.id !== id));
+
+/** What the model needs to know about the recipient; the id stays in the browser. */
+export const toRecipientContext = ({ id, ...context }: RecipientProfile): RecipientContext => context;
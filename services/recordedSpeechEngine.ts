@@ -0,0 +1,132 @@
+import { SpeechResultLike } from './utteranceSegmenter';
+import { SpeechToTextCallbacks, SpeechToTextEngine, SpeechToTextEngineId, SpeechToTextError, Transcriber } from './speechToText';
+
+const LEVEL_POLL_MS = 100;
+// RMS level of the microphone signal above which a clip counts as containing speech.
+const SPEECH_LEVEL = 0.02;
+// A clip is cut after this much silence following speech, so each clip is roughly one utterance.
+const SILENCE_MS = 800;
+// Past this length, a clip is cut at the next brief pause instead of waiting for a full one.
+const LONG_CLIP_MS = 15_000;
+const BRIEF_PAUSE_MS = 200;
+// Cut even mid-speech past this length, so results never fall too far behind.
+const MAX_CLIP_MS = 60_000;
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+interface Clip {
+  recorder: MediaRecorder;
+  startedAt: number;
+  lastSpeechAt: number;
+  hasSpeech: boolean;
+}
+
+const finalResult = (transcript: string): SpeechResultLike => ({ isFinal: true, 0: { transcript } });
+
+/**
+ * Records the microphone with MediaRecorder and transcribes it clip by clip,
+ * cutting clips at pauses in speech. Clips without speech are never sent.
+ * Works in any browser that can record audio, at the cost of results
+ * arriving only after each utterance ends.
+ */
+export const createRecordedSpeechEngine = (
+    id: SpeechToTextEngineId,
+    transcribe: Transcriber,
+    { onResults, onError, onEnd }: SpeechToTextCallbacks
+): SpeechToTextEngine => {
+  let stopSession: (() => void) | null = null;
+
+  const start = async (language: string) => {
+    if (stopSession) return;
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      throw new SpeechToTextError('not-allowed', `Microphone access was denied: ${(error as Error).message}`);
+    }
+
+    let results: SpeechResultLike[] = [];
+    // Clips are transcribed one at a time so results stay in spoken order.
+    let pending = Promise.resolve();
+    let isStopping = false;
+    const enqueue = (clip: Blob) => {
+      pending = pending.then(async () => {
+        try {
+          const text = (await transcribe(clip, language)).trim();
+          if (!text) return;
+          results = [...results, finalResult(results.length > 0 ? ` ${text}` : text)];
+          onResults(results);
+        } catch (error) {
+          onError(error);
+        }
+      });
+    };
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    let clip: Clip;
+    let isFinished = false;
+
+    // Runs once, whether the last clip's onstop or stopSession gets here first.
+    const finish = () => {
+      if (isFinished) return;
+      isFinished = true;
+      stream.getTracks().forEach(track => track.stop());
+      audioContext.close();
+      pending.then(onEnd);
+    };
+
+    const startClip = () => {
+      const chunks: Blob[] = [];
+      const current: Clip = { recorder: new MediaRecorder(stream), startedAt: Date.now(), lastSpeechAt: 0, hasSpeech: false };
+      current.recorder.ondataavailable = (event) => chunks.push(event.data);
+      current.recorder.onstop = () => {
+        if (current.hasSpeech) enqueue(new Blob(chunks, { type: current.recorder.mimeType }));
+        if (isStopping) {
+          finish();
+        } else {
+          startClip();
+        }
+      };
+      clip = current;
+      current.recorder.start();
+    };
+
+    const poller = window.setInterval(() => {
+      if (clip.recorder.state !== 'recording') return;
+      analyser.getFloatTimeDomainData(samples);
+      const level = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      const now = Date.now();
+      if (level > SPEECH_LEVEL) {
+        clip.hasSpeech = true;
+        clip.lastSpeechAt = now;
+      }
+      const length = now - clip.startedAt;
+      const silence = clip.hasSpeech ? now - clip.lastSpeechAt : length;
+      if ((clip.hasSpeech && silence > SILENCE_MS)
+          || (length > LONG_CLIP_MS && silence >= BRIEF_PAUSE_MS)
+          || length > MAX_CLIP_MS) {
+        clip.recorder.stop();
+      }
+    }, LEVEL_POLL_MS);
+
+    stopSession = () => {
+      stopSession = null;
+      isStopping = true;
+      clearInterval(poller);
+      if (clip.recorder.state === 'recording') {
+        clip.recorder.stop();
+      } else {
+        finish();
+      }
+    };
+    startClip();
+  };
+
+  return { id, start, stop: () => stopSession?.() };
+};
@@ -0,0 +1,106 @@
+import { AnalysisRequest, AnalysisResult, PartialAnalysisResult } from '../types';
+import { AnalysisError, AnalysisErrorCode, errorCodeForStatus, isAnalysisErrorCode } from './analysisErrors';
+import { AnalysisProvider } from './analysisProvider';
+import { isObject, sanitizePartialResult, validateAnalysisResult } from './analysisValidation';
+
+/** Rebuilds the server's `{ error, code }` payload as an AnalysisError. */
+const toAnalysisError = (data: unknown, fallbackCode: AnalysisErrorCode, fallbackMessage: string) => {
+  const fields = isObject(data) ? data : {};
+  return new AnalysisError(
+    isAnalysisErrorCode(fields.code) ? fields.code : fallbackCode,
+    typeof fields.error === 'string' ? fields.error : fallbackMessage
+  );
+};
+
+const postRequest = async (url: string, payload: unknown, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal,
+    });
+  } catch (error) {
+    if (error instanceof TypeError) {
+      throw new AnalysisError('network', `Failed to reach the analysis server: ${error.message}`);
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw toAnalysisError(data, errorCodeForStatus(response.status),
+      `Failed to get analysis from AI: request failed with status ${response.status}`);
+  }
+  return response;
+};
+
+/** POSTs JSON to the PeaceTalk API and unwraps its `{ error, code }` responses. */
+export const postJson = async <T>(url: string, payload: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await postRequest(url, payload, signal);
+  return (await response.json()) as T;
+};
+
+const parseLine = (line: string): unknown => {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new AnalysisError('invalid-response', 'Failed to get analysis from AI: the stream contained malformed JSON.');
+  }
+};
+
+/** Calls `onLine` for every line of a newline-delimited JSON response body. */
+const readNdjson = async (response: Response, onLine: (line: unknown) => void) => {
+  if (!response.body) {
+    throw new AnalysisError('invalid-response', 'Failed to get analysis from AI: the response has no body.');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.filter(line => line.trim()).forEach(line => onLine(parseLine(line)));
+  }
+  if (buffer.trim()) {
+    onLine(parseLine(buffer));
+  }
+};
+
+/**
+ * Talks to the server-side proxy, which owns the Gemini API key, so the key
+ * never has to ship in the client bundle.
+ */
+export const createRemoteProvider = (baseUrl = '/api'): AnalysisProvider => {
+  // The server validates too; checking again guards against proxies and
+  // older server builds handing the components something unrenderable.
+  const analyze = async (request: AnalysisRequest, signal?: AbortSignal) =>
+    validateAnalysisResult(await postJson<unknown>(`${baseUrl}/analyze`, request, signal), request);
+
+  const analyzeStream = async (
+      request: AnalysisRequest,
+      onPartial: (partial: PartialAnalysisResult) => void,
+      signal?: AbortSignal
+  ): Promise<AnalysisResult> => {
+    const response = await postRequest(`${baseUrl}/analyze/stream`, request, signal);
+    let result: unknown;
+    await readNdjson(response, line => {
+      if (!isObject(line)) {
+        throw new AnalysisError('invalid-response', 'Failed to get analysis from AI: the stream contained an unexpected line.');
+      }
+      if (typeof line.error === 'string') throw toAnalysisError(line, 'unknown', line.error);
+      const partial = sanitizePartialResult(line.partial);
+      if (partial) onPartial(partial);
+      if (line.result) result = line.result;
+    });
+    if (!result) {
+      throw new AnalysisError('invalid-response', 'Failed to get analysis from AI: the response ended early.');
+    }
+    return validateAnalysisResult(result, request);
+  };
+
+  return { id: 'remote', analyze, analyzeStream };
+};
@@ -0,0 +1,17 @@
+import { TranscriptionRequest } from '../types';
+import { blobToBase64 } from './base64';
+import { postJson } from './remoteProvider';
+import { Transcriber } from './speechToText';
+
+/** Sends recorded clips to the API server, which transcribes them with Gemini's audio input. */
+export const createRemoteTranscriber = (baseUrl = '/api'): Transcriber =>
+  async (audio, language, signal) => {
+    const request: TranscriptionRequest = {
+      audioBase64: await blobToBase64(audio),
+      // Drop codec parameters such as ";codecs=opus", which the model does not accept.
+      mimeType: audio.type.split(';')[0] || 'audio/webm',
+      language,
+    };
+    const { text } = await postJson<{ text: string }>(`${baseUrl}/transcribe`, request, signal);
+    return typeof text === 'string' ? text : '';
+  };
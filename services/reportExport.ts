@@ -0,0 +1,199 @@
+import { AnalysisResult, ConversationTurn, SuggestionTone, TurnAnalysis } from '../types';
+import { getSpeakers } from './conversationThread';
+
+/** 'pdf' prints the HTML report, so the browser's print dialog can save it as a PDF. */
+export type ReportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+/** Everything a report shows, captured at export time. */
+export interface SessionReport {
+  generatedAt: number;
+  language: string;
+  topic: string;
+  text: string;
+  turns?: ConversationTurn[];
+  result: AnalysisResult;
+  /** Results of this session, oldest first, for the trend chart. */
+  history: AnalysisResult[];
+}
+
+export interface ReportLabels {
+  title: string;
+  generatedAt: string;
+  topic: string;
+  input: string;
+  temperature: string;
+  emotion: string;
+  recipientImpact: string;
+  predictedFeeling: string;
+  potentialImpact: string;
+  suggestion: string;
+  explanation: string;
+  alternatives: string;
+  trend: string;
+  escalation: string;
+  tones: { [key in SuggestionTone]: string };
+}
+
+const SVG_WIDTH = 500;
+const SVG_HEIGHT = 200;
+const PADDING = 30;
+const LEGEND_HEIGHT = 24;
+const SPEAKER_COLORS = ['#0ea5e9', '#a855f7', '#10b981', '#f97316', '#ec4899', '#64748b'];
+
+const temperatureColor = (temperature: number) =>
+  temperature <= 33 ? '#0ea5e9' : temperature <= 66 ? '#f59e0b' : '#ef4444';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * Draws the temperature trend as a standalone SVG with inline colors, since
+ * the on-screen `EmotionChart` relies on Tailwind classes that exported
+ * files do not have. Returns null when there are fewer than two points.
+ */
+export const renderTrendSvg = (history: AnalysisResult[], turns: TurnAnalysis[] | undefined, title: string, escalationLabel: string): string | null => {
+  const values = turns ?? history.map(result => ({ speaker: '', temperature: result.temperature, emotion: result.emotion, isEscalation: false }));
+  if (values.length < 2) return null;
+
+  const chartWidth = SVG_WIDTH - PADDING * 2;
+  const chartHeight = SVG_HEIGHT - PADDING * 2;
+  const getX = (index: number) => PADDING + (index / (values.length - 1)) * chartWidth;
+  const getY = (temperature: number) => PADDING + chartHeight - (temperature / 100) * chartHeight;
+  const speakers = turns ? getSpeakers(turns) : [''];
+  const speakerColor = (speaker: string) => SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+  const height = turns ? SVG_HEIGHT + LEGEND_HEIGHT : SVG_HEIGHT;
+
+  const grid = [100, 50, 0].map(value => {
+    const y = getY(value);
+    return `<text x="${PADDING - 10}" y="${y + 4}" text-anchor="end" font-size="12" fill="#94a3b8">${value}</text>`
+      + `<line x1="${PADDING}" y1="${y}" x2="${SVG_WIDTH - PADDING}" y2="${y}" stroke="#e2e8f0" stroke-width="1" stroke-dasharray="2,3"/>`;
+  });
+  const lines = speakers.map(speaker => {
+    const points = values
+      .map((value, index) => ({ value, index }))
+      .filter(({ value }) => !turns || value.speaker === speaker)
+      .map(({ value, index }) => `${getX(index)},${getY(value.temperature)}`)
+      .join(' ');
+    const stroke = turns ? speakerColor(speaker) : '#94a3b8';
+    return `<polyline fill="none" stroke="${stroke}" stroke-width="3" stroke-linecap="round" stroke-linejoin="round" points="${points}"/>`;
+  });
+  const dots = values.map((value, index) => {
+    const x = getX(index);
+    const y = getY(value.temperature);
+    const fill = turns ? speakerColor(value.speaker) : temperatureColor(value.temperature);
+    const ring = value.isEscalation
+      ? `<circle cx="${x}" cy="${y}" r="10" fill="none" stroke="#ef4444" stroke-width="2" stroke-dasharray="3,2"/>`
+      : '';
+    const label = `${index + 1}. ${value.speaker ? `${value.speaker}: ` : ''}${value.temperature}°C · ${value.emotion}`;
+    return `${ring}<circle cx="${x}" cy="${y}" r="5" fill="${fill}" stroke="#ffffff" stroke-width="2"><title>${escapeHtml(label)}</title></circle>`;
+  });
+  const legendItems = turns ? [
+    ...speakers.map(speaker => ({ color: speakerColor(speaker), label: speaker, dashed: false })),
+    ...(turns.some(turn => turn.isEscalation) ? [{ color: '#ef4444', label: escalationLabel, dashed: true }] : []),
+  ] : [];
+  const legend = legendItems.map(({ color, label, dashed }, index) => {
+    const x = PADDING + index * 110;
+    const y = SVG_HEIGHT + 8;
+    const swatch = dashed
+      ? `<circle cx="${x + 6}" cy="${y}" r="5" fill="none" stroke="${color}" stroke-width="2" stroke-dasharray="3,2"/>`
+      : `<circle cx="${x + 6}" cy="${y}" r="5" fill="${color}"/>`;
+    return `${swatch}<text x="${x + 16}" y="${y + 4}" font-size="12" fill="#475569">${escapeHtml(label)}</text>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${SVG_WIDTH} ${height}" width="${SVG_WIDTH}" height="${height}" font-family="sans-serif">`
+    + `<title>${escapeHtml(title)}</title>${grid.join('')}${lines.join('')}${dots.join('')}${legend.join('')}</svg>`;
+};
+
+const getInputText = (report: SessionReport) =>
+  report.turns ? report.turns.map(turn => `${turn.speaker}: ${turn.text}`).join('\n') : report.text;
+
+const getTrendSvg = (report: SessionReport, labels: ReportLabels) =>
+  renderTrendSvg(report.history, report.result.turns, labels.trend, labels.escalation);
+
+export const reportToJson = (report: SessionReport, labels: ReportLabels) =>
+  JSON.stringify({
+    generatedAt: new Date(report.generatedAt).toISOString(),
+    language: report.language,
+    topic: report.topic,
+    text: report.text,
+    ...(report.turns && { turns: report.turns }),
+    result: report.result,
+    trend: report.history.map(result => result.temperature),
+    trendSvg: getTrendSvg(report, labels),
+  }, null, 2);
+
+const quoteMarkdown = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+export const reportToMarkdown = (report: SessionReport, labels: ReportLabels, locale: string) => {
+  const { result } = report;
+  const svg = getTrendSvg(report, labels);
+  const sections = [
+    `# ${labels.title}`,
+    `${labels.generatedAt}: ${new Date(report.generatedAt).toLocaleString(locale)}  \n${labels.topic}: ${report.topic}`,
+    `## ${labels.input}\n\n${quoteMarkdown(getInputText(report))}`,
+    `- **${labels.temperature}:** ${result.temperature}°C\n- **${labels.emotion}:** ${result.emotion}`,
+    `## ${labels.recipientImpact}\n\n- **${labels.predictedFeeling}:** ${result.recipientImpact.predictedFeeling}\n- **${labels.potentialImpact}:** ${result.recipientImpact.impactExplanation}`,
+    `## ${labels.suggestion}\n\n${quoteMarkdown(result.suggestion)}\n\n**${labels.explanation}** ${result.explanation}`,
+  ];
+  if (result.alternatives && result.alternatives.length > 1) {
+    sections.push(`## ${labels.alternatives}\n\n${result.alternatives
+      .map(alternative => `### ${labels.tones[alternative.tone]}\n\n${quoteMarkdown(alternative.suggestion)}\n\n${alternative.explanation}`)
+      .join('\n\n')}`);
+  }
+  if (svg) {
+    // A data URI keeps the report a single self-contained file.
+    sections.push(`## ${labels.trend}\n\n![${labels.trend}](data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)})`);
+  }
+  return `${sections.join('\n\n')}\n`;
+};
+
+const paragraphs = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+export const reportToHtml = (report: SessionReport, labels: ReportLabels, locale: string) => {
+  const { result } = report;
+  const svg = getTrendSvg(report, labels);
+  const alternatives = result.alternatives && result.alternatives.length > 1
+    ? `<h2>${escapeHtml(labels.alternatives)}</h2>${result.alternatives.map(alternative =>
+        `<h3>${escapeHtml(labels.tones[alternative.tone])}</h3><blockquote>${paragraphs(alternative.suggestion)}</blockquote><p>${escapeHtml(alternative.explanation)}</p>`
+      ).join('')}`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(report.language)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(labels.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; max-width: 720px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { color: #0284c7; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; margin-bottom: 0.25rem; }
+  .meta { color: #64748b; font-size: 0.9rem; }
+  .stats { display: flex; gap: 2rem; }
+  .stat strong { display: block; font-size: 2rem; color: ${temperatureColor(result.temperature)}; }
+  blockquote { margin: 0.5rem 0; padding: 0.75rem 1rem; background: #f1f5f9; border-left: 4px solid #0ea5e9; }
+  svg { max-width: 100%; height: auto; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } blockquote, svg { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(labels.title)}</h1>
+<p class="meta">${escapeHtml(labels.generatedAt)}: ${escapeHtml(new Date(report.generatedAt).toLocaleString(locale))} · ${escapeHtml(labels.topic)}: ${escapeHtml(report.topic)}</p>
+<h2>${escapeHtml(labels.input)}</h2>
+<blockquote>${paragraphs(getInputText(report))}</blockquote>
+<div class="stats">
+  <div class="stat">${escapeHtml(labels.temperature)}<strong>${result.temperature}°C</strong></div>
+  <div class="stat">${escapeHtml(labels.emotion)}<strong style="color:#334155">${escapeHtml(result.emotion)}</strong></div>
+</div>
+<h2>${escapeHtml(labels.recipientImpact)}</h2>
+<p><b>${escapeHtml(labels.predictedFeeling)}:</b> ${escapeHtml(result.recipientImpact.predictedFeeling)}<br>
+<b>${escapeHtml(labels.potentialImpact)}:</b> ${escapeHtml(result.recipientImpact.impactExplanation)}</p>
+<h2>${escapeHtml(labels.suggestion)}</h2>
+<blockquote>${paragraphs(result.suggestion)}</blockquote>
+<p><b>${escapeHtml(labels.explanation)}</b> ${escapeHtml(result.explanation)}</p>
+${alternatives}
+${svg ? `<h2>${escapeHtml(labels.trend)}</h2>\n${svg}` : ''}
+</body>
+</html>
+`;
+};
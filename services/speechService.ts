@@ -0,0 +1,44 @@
+import { SpeechToTextCallbacks, SpeechToTextEngine, SpeechToTextEngineId } from './speechToText';
+import { createWebSpeechEngine, isWebSpeechSupported } from './webSpeechEngine';
+import { createRecordedSpeechEngine, isRecordingSupported } from './recordedSpeechEngine';
+import { createRemoteTranscriber } from './remoteTranscriber';
+import { createLocalTranscriber } from './localTranscriber';
+
+const isEngineAvailable = (id: SpeechToTextEngineId) => {
+  switch (id) {
+    case 'web-speech': return isWebSpeechSupported();
+    case 'gemini': return isRecordingSupported();
+    case 'local': return isRecordingSupported() && !!process.env.SPEECH_MODEL_URL;
+  }
+};
+
+/**
+ * SPEECH_TO_TEXT picks an engine explicitly. Otherwise the browser's own
+ * recognizer is preferred, then an in-browser model if one is configured,
+ * then recording for the API server, unless the app runs fully offline.
+ */
+export const resolveSpeechEngineId = (): SpeechToTextEngineId | null => {
+  const configured = process.env.SPEECH_TO_TEXT as SpeechToTextEngineId;
+  if (configured === 'web-speech' || configured === 'gemini' || configured === 'local') {
+    return isEngineAvailable(configured) ? configured : null;
+  }
+  const candidates: SpeechToTextEngineId[] = process.env.ANALYSIS_PROVIDER === 'local'
+    ? ['web-speech', 'local']
+    : ['web-speech', 'local', 'gemini'];
+  return candidates.find(isEngineAvailable) ?? null;
+};
+
+/** Returns null when no engine can run in this browser. */
+export const createSpeechToText = (callbacks: SpeechToTextCallbacks): SpeechToTextEngine | null => {
+  const id = resolveSpeechEngineId();
+  switch (id) {
+    case 'web-speech':
+      return createWebSpeechEngine(callbacks);
+    case 'gemini':
+      return createRecordedSpeechEngine(id, createRemoteTranscriber(process.env.ANALYSIS_API_URL || '/api'), callbacks);
+    case 'local':
+      return createRecordedSpeechEngine(id, createLocalTranscriber(process.env.SPEECH_MODEL_URL!), callbacks);
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,39 @@
+import { SpeechResultLike } from './utteranceSegmenter';
+
+/**
+ * 'web-speech' uses the browser's built-in recognizer; 'gemini' and 'local'
+ * record audio and transcribe it through the API server or an in-browser model.
+ */
+export type SpeechToTextEngineId = 'web-speech' | 'gemini' | 'local';
+
+export type SpeechToTextErrorCode = 'not-allowed' | 'unsupported' | 'failed';
+
+export class SpeechToTextError extends Error {
+  readonly code: SpeechToTextErrorCode;
+
+  constructor(code: SpeechToTextErrorCode, message: string) {
+    super(message);
+    this.name = 'SpeechToTextError';
+    this.code = code;
+  }
+}
+
+export interface SpeechToTextCallbacks {
+  /** The cumulative results of the current session, shaped like the Web Speech API's result list. */
+  onResults: (results: ArrayLike<SpeechResultLike>) => void;
+  /** Recording may keep going after an error; `onEnd` reports when it has stopped. */
+  onError: (error: unknown) => void;
+  onEnd: () => void;
+}
+
+/** Turns microphone input into text, whatever does the recognizing. */
+export interface SpeechToTextEngine {
+  readonly id: SpeechToTextEngineId;
+  /** Asks for microphone access and starts a new session; rejects with a `SpeechToTextError`. */
+  start(language: string): Promise<void>;
+  /** Ends the session once pending audio has been transcribed. */
+  stop(): void;
+}
+
+/** Turns a recorded audio clip into text. */
+export type Transcriber = (audio: Blob, language: string, signal?: AbortSignal) => Promise<string>;
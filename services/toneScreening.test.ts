@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Language, translations } from '../translations';
+import { defaultFixtures } from './localFixtures';
+import { screenText, shouldEscalate } from './toneScreening';
+
+const flagsOf = (text: string, language = 'en') =>
+  screenText(text, language).flags.map(({ type, text: matched }) => [type, matched]);
+
+describe('screenText', () => {
+  it('scores empty drafts as zero', () => {
+    expect(screenText('   ', 'en')).toEqual({ temperature: 0, flags: [] });
+  });
+
+  it('escalates the example drafts shipped with the app', () => {
+    (Object.keys(translations) as Language[]).forEach(language => {
+      const result = screenText(translations[language].placeholder, language);
+      expect(shouldEscalate(result), `${language}: ${translations[language].placeholder}`).toBe(true);
+    });
+    defaultFixtures.forEach(({ match }) => {
+      if (typeof match === 'string') {
+        expect(shouldEscalate(screenText(match, /[가-힣]/.test(match) ? 'ko' : 'en')), match).toBe(true);
+      }
+    });
+    expect(shouldEscalate(screenText('You never listen to me.', 'en'))).toBe(true);
+  });
+
+  it('leaves calm drafts alone', () => {
+    ['Thanks, see you tomorrow.', "You're welcome!", 'Could we move the meeting to Friday?', 'I was wrong about the date.']
+      .forEach(text => expect(shouldEscalate(screenText(text, 'en')), text).toBe(false));
+    expect(shouldEscalate(screenText('내일 회의 시간을 바꿀 수 있을까요?', 'ko'))).toBe(false);
+  });
+
+  it('counts repeats of the same word once', () => {
+    expect(screenText('stupid stupid stupid', 'en').temperature).toBe(screenText('stupid', 'en').temperature);
+  });
+
+  it('respects word boundaries in spaced scripts', () => {
+    expect(flagsOf('Nevertheless, the hatchback is fine.')).toEqual([]);
+    expect(flagsOf('항상 그래', 'ko')).toEqual([['absolute', '항상']]);
+  });
+
+  it('keeps the longer match where words overlap', () => {
+    expect(flagsOf('You never call.')).toEqual([['blame', 'You never']]);
+    expect(flagsOf('That is bullshit.')).toEqual([['profanity', 'bullshit']]);
+    // The hidden absolute still adds heat; the hidden "shit" does not.
+    expect(screenText('You never call.', 'en').temperature).toBe(30);
+    expect(screenText('That is bullshit.', 'en').temperature).toBe(30);
+  });
+
+  it('flags shouting within a sentence but not acronyms across sentences', () => {
+    expect(flagsOf('Are you OK? NASA launched today.')).toEqual([]);
+    expect(flagsOf('I said STOP IT now.')).toEqual([['all-caps', 'STOP IT']]);
+    expect(flagsOf('STOP. NOW.')).toEqual([]);
+  });
+
+  it('keeps shouting alongside the flagged words it wraps', () => {
+    expect(flagsOf('YOU ARE AN IDIOT')).toEqual([
+      ['all-caps', 'YOU ARE AN IDIOT'],
+      ['blame', 'YOU ARE'],
+      ['profanity', 'IDIOT'],
+    ]);
+  });
+
+  it('adds heat for exclamation points, up to a cap', () => {
+    const calm = screenText('Fine', 'en').temperature;
+    expect(screenText('Fine!', 'en').temperature).toBe(calm + 5);
+    expect(screenText('Fine!!!!!!!!', 'en').temperature).toBe(calm + 15);
+  });
+});
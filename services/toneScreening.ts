@@ -0,0 +1,182 @@
+import { Language } from '../translations';
+
+export type ScreeningFlagType = 'profanity' | 'all-caps' | 'absolute' | 'blame';
+
+export interface ScreeningFlag {
+  type: ScreeningFlagType;
+  /** Character offsets into the screened text; `end` is exclusive. */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ScreeningResult {
+  /** A provisional 0-100 score on the same scale as `AnalysisResult.temperature`. */
+  temperature: number;
+  flags: ScreeningFlag[];
+}
+
+/**
+ * Drafts scoring at or above this are worth a full model analysis: one insult,
+ * shouting, or two blame or absolute phrases get there; "You're welcome!" does not.
+ */
+export const ESCALATION_THRESHOLD = 30;
+
+interface Lexicon {
+  /**
+   * How entries must be delimited: 'word' for space-separated scripts,
+   * 'prefix' where particles and endings attach to the word (Korean), and
+   * 'none' for scripts written without spaces.
+   */
+  boundary: 'word' | 'prefix' | 'none';
+  profanity: string[];
+  /** Absolutes and intensifiers that overstate the problem. */
+  absolutes: string[];
+  /** Second-person phrasing and verdicts ("wrong") that pin the problem on the reader. */
+  blame: string[];
+}
+
+// Insults and name-calling count as profanity here; both attack the person.
+const lexicons: { [key in Language]: Lexicon } = {
+  en: {
+    boundary: 'word',
+    profanity: [
+      'fuck', 'fucking', 'shit', 'bullshit', 'damn', 'crap', 'wtf', 'stupid', 'idiot', 'moron', 'dumb',
+      'shut up', 'pathetic', 'useless', 'ridiculous', 'liar', 'hate',
+    ],
+    absolutes: ['always', 'never', 'everyone', 'nobody', 'every time', 'everything', 'nothing', 'completely', 'totally'],
+    blame: ["you're", 'you are', 'you always', 'you never', 'you did', 'you made', 'your fault', 'because of you', 'wrong'],
+  },
+  ko: {
+    boundary: 'prefix',
+    profanity: ['씨발', '시발', '개새끼', '병신', '존나', '미친', '바보', '멍청', '닥쳐', '한심', '짜증', '싫어', '거짓말'],
+    absolutes: ['항상', '맨날', '절대', '늘', '매번', '전혀', '완전히'],
+    blame: ['너는', '너가', '니가', '네가', '당신은', '당신이', '너 때문에', '당신 때문에', '네 탓', '니 탓', '틀렸', '틀려'],
+  },
+  es: {
+    boundary: 'word',
+    profanity: [
+      'mierda', 'joder', 'carajo', 'puta', 'estúpido', 'estúpida', 'idiota', 'imbécil', 'cállate', 'inútil',
+      'ridículo', 'ridícula', 'mentiroso', 'mentirosa', 'odio',
+    ],
+    absolutes: ['siempre', 'nunca', 'jamás', 'todo el mundo', 'nadie', 'cada vez', 'completamente', 'totalmente'],
+    blame: ['tú siempre', 'tú nunca', 'eres', 'es tu culpa', 'por tu culpa', 'por ti', 'equivocado', 'equivocada'],
+  },
+  fr: {
+    boundary: 'word',
+    profanity: [
+      'merde', 'putain', 'connard', 'connasse', 'idiot', 'idiote', 'imbécile', 'stupide', 'ferme-la', 'tais-toi',
+      'nul', 'nulle', 'ridicule', 'menteur', 'menteuse', 'déteste',
+    ],
+    absolutes: ['toujours', 'jamais', 'tout le monde', 'à chaque fois', 'personne ne', 'complètement', 'totalement'],
+    blame: [
+      'tu es', "t'es", 'tu as', 'vous êtes', 'vous avez', "c'est ta faute", "c'est votre faute", 'à cause de toi',
+      'à cause de vous', 'tort',
+    ],
+  },
+  ja: {
+    boundary: 'none',
+    profanity: ['くそ', 'クソ', 'ばか', 'バカ', '馬鹿', 'アホ', '死ね', 'うざい', 'ウザい', '黙れ', '最低', '嫌い', 'ふざけるな', '嘘つき'],
+    absolutes: ['いつも', '絶対', '全然', '毎回', '誰も', '決して', '完全に'],
+    blame: ['あなたのせい', 'お前のせい', '君のせい', 'お前', 'あんた', 'てめえ', '間違'],
+  },
+  zh: {
+    boundary: 'none',
+    profanity: ['他妈的', '妈的', '傻逼', '笨蛋', '白痴', '蠢', '闭嘴', '滚', '废物', '可笑', '骗子', '讨厌', '恨'],
+    absolutes: ['总是', '从来', '永远', '每次', '所有人', '没有人', '从不', '完全'],
+    blame: ['都是你', '你的错', '怪你', '因为你', '你总是', '你从来', '错了'],
+  },
+};
+
+const WEIGHTS: { [key in ScreeningFlagType]: number } = {
+  profanity: 20,
+  'all-caps': 20,
+  absolute: 10,
+  blame: 10,
+};
+const BASE_SCORE = 10;
+const MAX_EXCLAMATION_POINTS = 15;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const entryPattern = (entry: string, boundary: Lexicon['boundary']) => {
+  const body = escapeRegExp(entry).replace(/ /g, '\\s+');
+  switch (boundary) {
+    case 'word': return new RegExp(`(?<![\\p{L}\\p{N}'])${body}(?![\\p{L}\\p{N}])`, 'giu');
+    case 'prefix': return new RegExp(`(?<!\\p{L})${body}`, 'gu');
+    case 'none': return new RegExp(body, 'gu');
+  }
+};
+
+// Runs of capitalized words within one sentence, e.g. "STOP IT" or "NEVER".
+// Short acronyms like "OK" or "ASAP" fall under MIN_SHOUTED_LETTERS and are
+// ignored, even when one sentence ends in one and the next starts with another.
+const SHOUTING_PATTERN = /(?<!\p{L})\p{Lu}{2,}(?:[ \t,]+\p{Lu}{2,})*(?!\p{L})/gu;
+const MIN_SHOUTED_LETTERS = 5;
+
+const overlaps = (a: ScreeningFlag, b: ScreeningFlag) => a.start < b.end && a.end > b.start;
+
+/**
+ * Where word matches overlap, keeps the longer span, then the heavier type, so
+ * "You never" stays one blame flag instead of shrinking to "never". Shouting
+ * often wraps other flagged words and is kept alongside them.
+ */
+const resolveOverlaps = (found: ScreeningFlag[]): ScreeningFlag[] => {
+  const kept: ScreeningFlag[] = [];
+  [...found]
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start) || WEIGHTS[b.type] - WEIGHTS[a.type] || a.start - b.start)
+    .forEach(flag => {
+      if (flag.type === 'all-caps' || !kept.some(other => other.type !== 'all-caps' && overlaps(flag, other))) {
+        kept.push(flag);
+      }
+    });
+  return kept.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Scores a draft with per-language rules only, so it runs on every keystroke
+ * without touching the network. Repeats of the same word count once.
+ */
+export const screenText = (text: string, language: string): ScreeningResult => {
+  if (!text.trim()) {
+    return { temperature: 0, flags: [] };
+  }
+  const lexicon = lexicons[language as Language] ?? lexicons.en;
+  const found: ScreeningFlag[] = [];
+  const collect = (type: ScreeningFlagType, pattern: RegExp) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      found.push({ type, start, end: start + match[0].length, text: match[0] });
+    }
+  };
+
+  lexicon.profanity.forEach(entry => collect('profanity', entryPattern(entry, lexicon.boundary)));
+  for (const match of text.matchAll(SHOUTING_PATTERN)) {
+    if (match[0].replace(/\P{L}/gu, '').length >= MIN_SHOUTED_LETTERS) {
+      const start = match.index ?? 0;
+      found.push({ type: 'all-caps', start, end: start + match[0].length, text: match[0] });
+    }
+  }
+  lexicon.absolutes.forEach(entry => collect('absolute', entryPattern(entry, lexicon.boundary)));
+  lexicon.blame.forEach(entry => collect('blame', entryPattern(entry, lexicon.boundary)));
+
+  const flags = resolveOverlaps(found);
+  // A match hidden inside a longer one of another type still counts: "You
+  // never" is both blame and an absolute. "shit" inside "bullshit" does not.
+  const scoring = found.filter(flag =>
+    flags.includes(flag) || !flags.some(kept => kept.type === flag.type && overlaps(flag, kept)));
+
+  const scored = new Set<string>();
+  let score = BASE_SCORE;
+  scoring.forEach(flag => {
+    const key = flag.type === 'all-caps' ? flag.type : `${flag.type}:${flag.text.toLowerCase()}`;
+    if (scored.has(key)) return;
+    scored.add(key);
+    score += WEIGHTS[flag.type];
+  });
+  score += Math.min(MAX_EXCLAMATION_POINTS, (text.match(/[!！]/g) || []).length * 5);
+
+  return { temperature: Math.max(0, Math.min(100, score)), flags };
+};
+
+export const shouldEscalate = ({ temperature }: ScreeningResult) => temperature >= ESCALATION_THRESHOLD;
@@ -0,0 +1,95 @@
+import { CoachingTopic, LocalizedList, LocalizedText } from '../types';
+import { defaultTopics, isDefaultTopic } from './coachingTopics';
+import { createId } from './ids';
+
+const STORAGE_KEY = 'peacetalk.topics.v1';
+const EXPORT_VERSION = 1;
+
+/** Custom topics plus any edited defaults, in the order they were created. */
+const loadSavedTopics = (): CoachingTopic[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isStoredTopic).map(toCoachingTopic) : [];
+  } catch (error) {
+    console.error('Failed to read coaching topics:', error);
+    return [];
+  }
+};
+
+// A failed write still returns the edited list, so the change stays on screen for this session.
+const persist = (topics: CoachingTopic[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(topics));
+  } catch (error) {
+    console.error('Failed to save coaching topics:', error);
+  }
+  return mergeTopics(topics);
+};
+
+const isLocalizedText = (value: unknown): value is LocalizedText =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && Object.values(value).every(text => typeof text === 'string');
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isLocalizedList = (value: unknown): value is LocalizedList =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(isStringList);
+
+/** Topics saved or exported before examples were localized have one list for every language. */
+type StoredTopic = Omit<CoachingTopic, 'examples'> & { examples: LocalizedList | string[] };
+
+const isStoredTopic = (value: unknown): value is StoredTopic => {
+  const topic = value as StoredTopic;
+  return !!topic && typeof topic === 'object'
+    && typeof topic.id === 'string' && !!topic.id
+    && typeof topic.icon === 'string'
+    && isLocalizedText(topic.name) && Object.values(topic.name).some(name => name.trim())
+    && isLocalizedText(topic.instructions)
+    && (isStringList(topic.examples) || isLocalizedList(topic.examples));
+};
+
+const toCoachingTopic = ({ examples, ...topic }: StoredTopic): CoachingTopic =>
+  ({ ...topic, examples: Array.isArray(examples) ? { en: examples } : examples });
+
+/** Built-in topics first (with any saved edits applied), then custom ones. */
+const mergeTopics = (saved: CoachingTopic[]): CoachingTopic[] => {
+  const defaults = defaultTopics.map(topic => saved.find(({ id }) => id === topic.id) ?? topic);
+  return [...defaults, ...saved.filter(({ id }) => !isDefaultTopic(id))];
+};
+
+export const loadTopics = (): CoachingTopic[] => mergeTopics(loadSavedTopics());
+
+export const createTopic = (): CoachingTopic => ({ id: `custom-${createId()}`, icon: '💡', name: {}, instructions: {}, examples: {} });
+
+/** Inserts or replaces a topic. Saving a built-in id stores an edited copy of it. */
+export const saveTopic = (topic: CoachingTopic): CoachingTopic[] => {
+  const saved = loadSavedTopics();
+  const index = saved.findIndex(({ id }) => id === topic.id);
+  return persist(index === -1 ? [...saved, topic] : saved.map((existing, i) => i === index ? topic : existing));
+};
+
+/** Removes a custom topic, or restores a built-in one to its shipped version. */
+export const deleteTopic = (id: string): CoachingTopic[] =>
+  persist(loadSavedTopics().filter(topic => topic.id !== id));
+
+export const isTopicModified = (id: string) => isDefaultTopic(id) && loadSavedTopics().some(topic => topic.id === id);
+
+export const exportTopics = (topics: CoachingTopic[]) =>
+  JSON.stringify({ version: EXPORT_VERSION, topics }, null, 2);
+
+/**
+ * Merges topics from an exported file, replacing topics with the same id.
+ * Throws when the file is not a topic export, so nothing is half-imported.
+ */
+export const importTopics = (json: string): CoachingTopic[] => {
+  const data = JSON.parse(json);
+  const topics: unknown = Array.isArray(data) ? data : data?.topics;
+  if (!Array.isArray(topics) || topics.length === 0 || !topics.every(isStoredTopic)) {
+    throw new Error('The file does not contain valid coaching topics.');
+  }
+  const imported = new Map(topics.map(topic => [topic.id, toCoachingTopic(topic)]));
+  const saved = loadSavedTopics().filter(({ id }) => !imported.has(id));
+  return persist([...saved, ...imported.values()]);
+};
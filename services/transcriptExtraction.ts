@@ -0,0 +1,10 @@
+import { ConversationTurn, TranscriptExtractionRequest } from '../types';
+import { postJson } from './remoteProvider';
+import { validateTranscript } from './analysisValidation';
+
+/** Reading screenshots needs the model, so it is unavailable when the app runs fully offline. */
+export const isTranscriptExtractionAvailable = () => process.env.ANALYSIS_PROVIDER !== 'local';
+
+/** Asks the API server for the conversation in chat screenshots, as editable turns. */
+export const extractTranscript = async (request: TranscriptExtractionRequest, signal?: AbortSignal): Promise<ConversationTurn[]> =>
+  validateTranscript(await postJson<unknown>(`${process.env.ANALYSIS_API_URL || '/api'}/transcript`, request, signal));
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SpeechResultLike, createUtteranceSegmenter } from './utteranceSegmenter';
+
+const PAUSE_MS = 1500;
+
+const final = (transcript: string): SpeechResultLike => ({ isFinal: true, 0: { transcript } });
+const interim = (transcript: string): SpeechResultLike => ({ isFinal: false, 0: { transcript } });
+
+const setup = () => {
+  const utterances: string[] = [];
+  const interims: string[] = [];
+  const segmenter = createUtteranceSegmenter({
+    pauseMs: PAUSE_MS,
+    onInterim: text => interims.push(text),
+    onUtterance: text => utterances.push(text),
+  });
+  return { segmenter, utterances, interims };
+};
+
+describe('createUtteranceSegmenter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('emits each final result once as the cumulative list grows', () => {
+    const { segmenter, utterances } = setup();
+    segmenter.handleResults([final(' You never listen. ')]);
+    segmenter.handleResults([final(' You never listen. '), final('That is not fair.')]);
+    expect(utterances).toEqual(['You never listen.', 'That is not fair.']);
+  });
+
+  it('reports interim text after the final results', () => {
+    const { segmenter, utterances, interims } = setup();
+    segmenter.handleResults([final('Hi.'), interim(' how are'), interim(' you')]);
+    expect(utterances).toEqual(['Hi.']);
+    expect(interims.at(-1)).toBe('how are you');
+  });
+
+  it('closes interim text as an utterance after a pause', () => {
+    const { segmenter, utterances, interims } = setup();
+    segmenter.handleResults([interim('wait for')]);
+    vi.advanceTimersByTime(PAUSE_MS - 1);
+    segmenter.handleResults([interim('wait for me')]);
+    vi.advanceTimersByTime(PAUSE_MS - 1);
+    expect(utterances).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(utterances).toEqual(['wait for me']);
+    expect(interims.at(-1)).toBe('');
+  });
+
+  it('does not repeat text the engine finalizes after a pause closed it', () => {
+    const { segmenter, utterances } = setup();
+    segmenter.handleResults([interim('stop it')]);
+    vi.advanceTimersByTime(PAUSE_MS);
+    segmenter.handleResults([final('stop it'), interim('please')]);
+    segmenter.flush();
+    expect(utterances).toEqual(['stop it', 'please']);
+  });
+
+  it('starts counting from zero after a reset', () => {
+    const { segmenter, utterances } = setup();
+    segmenter.handleResults([final('First session.')]);
+    segmenter.handleResults([final('First session.'), interim('dropped')]);
+    segmenter.reset();
+    vi.advanceTimersByTime(PAUSE_MS);
+    segmenter.handleResults([final('Second session.')]);
+    expect(utterances).toEqual(['First session.', 'Second session.']);
+  });
+
+  it('ignores blank results', () => {
+    const { segmenter, utterances } = setup();
+    segmenter.handleResults([final('  '), interim(' ')]);
+    vi.advanceTimersByTime(PAUSE_MS);
+    segmenter.flush();
+    expect(utterances).toEqual([]);
+  });
+});
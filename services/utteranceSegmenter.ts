@@ -0,0 +1,83 @@
+/** The parts of a Web Speech `SpeechRecognitionResult` the segmenter reads. */
+export interface SpeechResultLike {
+  readonly isFinal: boolean;
+  readonly [index: number]: { readonly transcript: string };
+}
+
+interface UtteranceSegmenterConfig {
+  /** Silence after which pending interim text is closed as an utterance, even if the engine has not finalized it. */
+  pauseMs: number;
+  onInterim: (text: string) => void;
+  onUtterance: (text: string) => void;
+}
+
+export interface UtteranceSegmenter {
+  /** Feeds the cumulative result list of the current recognition session. */
+  handleResults: (results: ArrayLike<SpeechResultLike>) => void;
+  /** Closes any pending text, e.g. when recording stops. */
+  flush: () => void;
+  /** Starts over for a new recognition session, whose result list begins at zero. */
+  reset: () => void;
+}
+
+/**
+ * Splits a continuous recognition session into utterances: each final result
+ * closes one, and so does a pause while the engine is still holding interim text.
+ */
+export const createUtteranceSegmenter = ({ pauseMs, onInterim, onUtterance }: UtteranceSegmenterConfig): UtteranceSegmenter => {
+  // Results before this index have already been emitted.
+  let consumed = 0;
+  let pending = '';
+  let pauseTimer: number | null = null;
+
+  const clearPauseTimer = () => {
+    if (pauseTimer !== null) {
+      clearTimeout(pauseTimer);
+      pauseTimer = null;
+    }
+  };
+
+  const emit = (text: string) => {
+    const utterance = text.trim();
+    if (utterance) onUtterance(utterance);
+  };
+
+  const flush = () => {
+    clearPauseTimer();
+    emit(pending);
+    pending = '';
+    onInterim('');
+  };
+
+  const handleResults = (results: ArrayLike<SpeechResultLike>) => {
+    clearPauseTimer();
+    // Engines finalize results in order, so emit the leading run of final ones.
+    while (consumed < results.length && results[consumed].isFinal) {
+      emit(results[consumed][0].transcript);
+      consumed++;
+    }
+    let interim = '';
+    for (let i = consumed; i < results.length; i++) {
+      interim += results[i][0].transcript;
+    }
+    pending = interim;
+    onInterim(interim.trim());
+    if (pending.trim()) {
+      const seen = results.length;
+      pauseTimer = window.setTimeout(() => {
+        // Whatever the engine does with these results later belongs to this utterance.
+        consumed = seen;
+        flush();
+      }, pauseMs);
+    }
+  };
+
+  const reset = () => {
+    clearPauseTimer();
+    consumed = 0;
+    pending = '';
+    onInterim('');
+  };
+
+  return { handleResults, flush, reset };
+};
@@ -0,0 +1,79 @@
+import { SpeechToTextCallbacks, SpeechToTextEngine, SpeechToTextError } from './speechToText';
+
+// The Web Speech API is not part of the default DOM typings.
+interface SpeechRecognitionAlternative {
+  readonly transcript: string;
+  readonly confidence: number;
+}
+
+interface SpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly length: number;
+  item(index: number): SpeechRecognitionAlternative;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionResultList {
+  readonly length: number;
+  item(index: number): SpeechRecognitionResult;
+  [index: number]: SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+  readonly message: string;
+}
+
+// Named to avoid colliding with the native type where it does exist.
+interface SpeechRecognitionService extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  onresult: (event: SpeechRecognitionEvent) => void;
+  onerror: (event: SpeechRecognitionErrorEvent) => void;
+  onend: () => void;
+}
+
+const getSpeechRecognitionAPI = (): (new () => SpeechRecognitionService) | undefined =>
+  (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export const isWebSpeechSupported = () => !!getSpeechRecognitionAPI();
+
+/** The browser's built-in recognizer, with live interim results. */
+export const createWebSpeechEngine = ({ onResults, onError, onEnd }: SpeechToTextCallbacks): SpeechToTextEngine => {
+  const SpeechRecognitionAPI = getSpeechRecognitionAPI();
+  if (!SpeechRecognitionAPI) {
+    throw new SpeechToTextError('unsupported', 'Speech recognition is not supported by this browser.');
+  }
+  const recognition = new SpeechRecognitionAPI();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.onresult = (event) => onResults(event.results);
+  recognition.onerror = (event) => {
+    onError(event.error === 'not-allowed' || event.error === 'service-not-allowed'
+      ? new SpeechToTextError('not-allowed', 'Microphone access was denied.')
+      : new SpeechToTextError('failed', `Speech recognition error: ${event.error}`));
+  };
+  recognition.onend = onEnd;
+
+  const start = async (language: string) => {
+    try {
+      // Ask up front so a denied permission surfaces here rather than as a silent session.
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach(track => track.stop());
+    } catch (error) {
+      throw new SpeechToTextError('not-allowed', `Microphone access was denied: ${(error as Error).message}`);
+    }
+    recognition.lang = language;
+    recognition.start();
+  };
+
+  return { id: 'web-speech', start, stop: () => recognition.stop() };
+};
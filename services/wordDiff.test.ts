@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DiffHunk, diffWords } from './wordDiff';
+
+// Changes may carry the spaces around them; the diff view trims them for its notes.
+const changes = (hunks: DiffHunk[]) =>
+  hunks.flatMap(hunk => hunk.type === 'change' ? [[hunk.removed.trim(), hunk.added.trim()]] : []);
+
+/** Rebuilds one side of the diff, which must reproduce the input exactly. */
+const side = (hunks: DiffHunk[], which: 'original' | 'revised') =>
+  hunks.map(hunk => hunk.type === 'equal'
+    ? (which === 'original' ? hunk.text : hunk.revisedText)
+    : (which === 'original' ? hunk.removed : hunk.added)).join('');
+
+describe('diffWords', () => {
+  it('returns one equal hunk for identical texts', () => {
+    expect(diffWords('Can we talk?', 'Can we talk?', 'en')).toEqual([
+      { type: 'equal', text: 'Can we talk?', revisedText: 'Can we talk?' },
+    ]);
+  });
+
+  it('merges edits separated only by spaces into one change', () => {
+    const hunks = diffWords('You always forget the keys.', 'I noticed this was missed the keys.', 'en');
+    expect(changes(hunks)).toEqual([['You always forget', 'I noticed this was missed']]);
+  });
+
+  it('reports offsets into the original text', () => {
+    const original = 'Please stop doing that.';
+    const hunks = diffWords(original, 'Please avoid doing that.', 'en');
+    const change = hunks.find(hunk => hunk.type === 'change');
+    expect(change).toMatchObject({ removed: 'stop', added: 'avoid' });
+    if (change?.type === 'change') expect(original.slice(change.start, change.end)).toBe('stop');
+  });
+
+  it('treats reflowed whitespace as unchanged but keeps both sides intact', () => {
+    const original = 'one two\nthree';
+    const revised = 'one  two three';
+    const hunks = diffWords(original, revised, 'en');
+    expect(changes(hunks)).toEqual([]);
+    expect(side(hunks, 'original')).toBe(original);
+    expect(side(hunks, 'revised')).toBe(revised);
+  });
+
+  it('reproduces both texts from any diff', () => {
+    const original = "Why didn't you call me back? I waited all evening!";
+    const revised = 'I was hoping to hear from you. Could you call me back when you can?';
+    const hunks = diffWords(original, revised, 'en');
+    expect(side(hunks, 'original')).toBe(original);
+    expect(side(hunks, 'revised')).toBe(revised);
+  });
+
+  it('splits scripts written without spaces into words', () => {
+    const hunks = diffWords('你总是迟到。', '你最近经常迟到。', 'zh');
+    expect(side(hunks, 'original')).toBe('你总是迟到。');
+    expect(side(hunks, 'revised')).toBe('你最近经常迟到。');
+    expect(hunks.some(hunk => hunk.type === 'equal' && hunk.text.includes('你'))).toBe(true);
+  });
+
+  it('falls back to a single replacement for very long texts', () => {
+    const original = 'word '.repeat(1500);
+    const revised = 'other '.repeat(1500);
+    expect(diffWords(original, revised, 'en')).toEqual([
+      { type: 'change', removed: original, added: revised, start: 0, end: original.length },
+    ]);
+  });
+});
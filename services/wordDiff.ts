@@ -0,0 +1,110 @@
+export type DiffHunk =
+  /** `revisedText` differs from `text` only in whitespace. */
+  | { type: 'equal'; text: string; revisedText: string }
+  /** `start`/`end` are character offsets of `removed` in the original text; `end` is exclusive. */
+  | { type: 'change'; removed: string; added: string; start: number; end: number };
+
+// Beyond this many token comparisons the rewrite is shown as one replacement
+// instead; drafts that long are rarely rewritten word for word anyway.
+const MAX_COMPARISONS = 1_000_000;
+
+const isSpace = (token: string) => !token.trim();
+
+/** Words, spaces and punctuation as separate tokens; also splits scripts written without spaces. */
+const tokenize = (text: string, language: string): string[] => {
+  try {
+    return Array.from(new Intl.Segmenter(language, { granularity: 'word' }).segment(text), ({ segment }) => segment);
+  } catch {
+    return text.match(/\s+|[\p{L}\p{N}'’]+|[^\s\p{L}\p{N}]/gu) ?? [];
+  }
+};
+
+// Any run of whitespace matches any other, so reflowed lines do not show up as changes.
+const sameToken = (a: string, b: string) => a === b || (isSpace(a) && isSpace(b));
+
+/** For 'equal', `token` is from the original and `revisedToken` from the rewrite. */
+type Operation = { type: 'equal' | 'removed' | 'added'; token: string; revisedToken?: string };
+
+/** Longest-common-subsequence diff over tokens. */
+const diffTokens = (before: string[], after: string[]): Operation[] => {
+  const rows = before.length + 1;
+  const columns = after.length + 1;
+  const lengths = new Uint32Array(rows * columns);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = sameToken(before[i], after[j])
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+  const operations: Operation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (sameToken(before[i], after[j])) {
+      operations.push({ type: 'equal', token: before[i], revisedToken: after[j] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+      operations.push({ type: 'removed', token: before[i++] });
+    } else {
+      operations.push({ type: 'added', token: after[j++] });
+    }
+  }
+  while (i < before.length) operations.push({ type: 'removed', token: before[i++] });
+  while (j < after.length) operations.push({ type: 'added', token: after[j++] });
+  return operations;
+};
+
+/**
+ * Compares `original` with its rewrite word by word. Adjacent edits separated
+ * only by spaces are merged into one change, so "you always forget" becoming
+ * "I noticed this was missed" reads as a single rewrite rather than a
+ * patchwork of single words.
+ */
+export const diffWords = (original: string, revised: string, language: string): DiffHunk[] => {
+  const before = tokenize(original, language);
+  const after = tokenize(revised, language);
+  if (before.length * after.length > MAX_COMPARISONS) {
+    return [{ type: 'change', removed: original, added: revised, start: 0, end: original.length }];
+  }
+
+  const operations = diffTokens(before, after);
+  const hunks: DiffHunk[] = [];
+  let offset = 0;
+  let change: Extract<DiffHunk, { type: 'change' }> | null = null;
+  const flush = () => {
+    if (change) hunks.push(change);
+    change = null;
+  };
+
+  operations.forEach((operation, index) => {
+    const previous = operations[index - 1];
+    const next = operations[index + 1];
+    const bridgesEdits = operation.type === 'equal' && isSpace(operation.token)
+      && previous && previous.type !== 'equal' && next && next.type !== 'equal';
+    if (operation.type === 'equal' && !bridgesEdits) {
+      flush();
+      const last = hunks[hunks.length - 1];
+      if (last?.type === 'equal') {
+        last.text += operation.token;
+        last.revisedText += operation.revisedToken ?? operation.token;
+      } else {
+        hunks.push({ type: 'equal', text: operation.token, revisedText: operation.revisedToken ?? operation.token });
+      }
+      offset += operation.token.length;
+      return;
+    }
+    change ??= { type: 'change', removed: '', added: '', start: offset, end: offset };
+    if (operation.type !== 'added') {
+      change.removed += operation.token;
+      offset += operation.token.length;
+      change.end = offset;
+    }
+    if (operation.type !== 'removed') {
+      change.added += operation.revisedToken ?? operation.token;
+    }
+  });
+  flush();
+  return hunks;
+};
@@ -1,3 +1,5 @@
+import { AnalysisErrorCode } from './services/analysisErrors';
+
 export const translations = {
   en: {
     languageName: 'English',
@@ -11,7 +13,7 @@ export const translations = {
     analyzeButton: 'Analyze Tone',
     analyzeImageButton: 'Analyze Image & Text',
     analyzingButton: 'Analyzing...',
-    uploadImage: 'Upload Image',
+    uploadImage: 'Upload Images',
     shareScreen: 'Share Screen',
     stopSharing: 'Stop Sharing',
     recordVoice: 'Record Voice',
@@ -20,7 +22,6 @@ export const translations = {
     micNotSupportedError: 'Speech recognition is not supported by your browser.',
     analyzingFrame: 'Analyzing frame...',
     removeImage: 'Remove Image',
-    imageSizeError: 'Image is too large. Please upload a file under 4MB.',
     imageLoadError: 'Failed to load image. Please try again.',
     loadingMessage: 'Analyzing communication context...',
     errorPrefix: 'Error: ',
@@ -46,6 +47,211 @@ export const translations = {
     submitFeedback: 'Submit Feedback',
     feedbackThanks: 'Thank you for your feedback!',
     emotionTrendTitle: 'Emotion Trend',
+    modeSingle: 'Single Message',
+    modeThread: 'Conversation Thread',
+    enterThread: 'Build the conversation turn by turn',
+    speakerPlaceholder: 'Speaker',
+    turnMessagePlaceholder: 'What did they say?',
+    addTurn: 'Add Turn',
+    removeTurn: 'Remove Turn',
+    pasteConversation: 'Paste Conversation',
+    pasteConversationPlaceholder: "One message per line, e.g.\nAlex: You never listen to me.\nSam: That's not fair.",
+    pasteConversationButton: 'Split into Turns',
+    speakerMe: 'Me',
+    speakerOther: 'Them',
+    analyzeThreadButton: 'Analyze Conversation',
+    escalationPoint: 'Escalation point',
+    speakerTrendTitle: 'Temperature by Speaker',
+    historyButton: 'History',
+    historyTitle: 'Analysis History',
+    historySearchPlaceholder: 'Search text, emotions or suggestions...',
+    historyEmpty: 'No saved analyses yet.',
+    historyOpen: 'Open',
+    historyDelete: 'Delete entry',
+    historyCompare: 'Select for comparison',
+    historyCompareHint: 'Tick two entries to compare them side by side.',
+    historyClearAll: 'Clear All',
+    exportFeedback: 'Export feedback',
+    toneBrief: 'Brief',
+    toneWarm: 'Warm',
+    toneAssertive: 'Assertive but Respectful',
+    toneFormal: 'Formal',
+    copySuggestion: 'Copy',
+    copied: 'Copied!',
+    errorInvalidResponse: 'The AI returned an incomplete analysis. Please try again.',
+    errorRateLimited: 'Too many requests right now. Please wait a moment and try again.',
+    errorUnavailable: 'The analysis service is temporarily unavailable. Please try again later.',
+    errorNetwork: 'Could not reach the analysis server. Check your connection and try again.',
+    errorBadRequest: 'This input could not be analyzed. Try shortening the text or using a smaller image.',
+    errorMissingApiKey: 'The analysis server is not configured with an API key.',
+    errorUnknown: 'Something went wrong while analyzing. Please try again.',
+    flaggedPhrasesTitle: 'Heated phrases (hover for details)',
+    phraseBlame: 'Blame',
+    phraseAbsolute: 'Absolute',
+    phraseSarcasm: 'Sarcasm',
+    phraseInsult: 'Insult',
+    phraseRewrite: 'Replace with',
+    phraseRemove: 'Remove this phrase',
+    provisionalTemperature: 'Quick local check — not yet reviewed by the AI',
+    screeningTitle: 'Quick Check',
+    screeningNoFlags: 'No heated words found.',
+    screeningCalmHint: 'This draft looks calm, so it was not sent to the AI. Press Analyze Tone for full coaching.',
+    screeningEscalatingHint: 'This draft looks heated. The AI will review it when you pause typing.',
+    flagProfanity: 'Profanity',
+    flagAllCaps: 'All caps',
+    flagAbsolute: 'Absolute',
+    flagBlame: 'Blame',
+    manageTopics: '+ Manage topics',
+    topicTryExample: 'Try an example:',
+    topicManagerTitle: 'Coaching Topics',
+    topicNew: 'New topic',
+    topicEdit: 'Edit',
+    topicDelete: 'Delete topic',
+    topicReset: 'Reset to default',
+    topicImport: 'Import',
+    topicExport: 'Export',
+    topicIcon: 'Icon',
+    topicName: 'Name',
+    topicInstruction: 'Coaching instructions',
+    topicInstructionPlaceholder: 'What should the coach pay special attention to? Leave empty for general coaching.',
+    topicExamples: 'Example inputs (one per line)',
+    topicExamplesPlaceholder: 'e.g., Why is this late again?',
+    topicEditingLanguage: 'Editing language',
+    topicSave: 'Save',
+    topicCancel: 'Cancel',
+    topicImportError: 'That file does not contain valid coaching topics.',
+    exportReport: 'Export report',
+    reportTitle: 'PeaceTalk Conversation Report',
+    reportGeneratedAt: 'Generated',
+    reportInput: 'Analyzed Text',
+    reportAlternatives: 'Other Versions',
+    screenShareError: 'Failed to start screen sharing. Please ensure permissions are granted.',
+    cropHint: 'Drag over the video to watch only the chat area.',
+    cropClear: 'Watch whole screen',
+    monitorInterval: 'Check every',
+    monitorSeconds: '{seconds}s',
+    monitorSensitivity: 'Sensitivity',
+    sensitivityLow: 'Low',
+    sensitivityMedium: 'Medium',
+    sensitivityHigh: 'High',
+    monitorUnchanged: 'No changes · next check in {seconds}s',
+    monitorRetrying: 'Analysis failed · retrying in {seconds}s',
+    alertsButton: 'Alerts',
+    alertSettingsTitle: 'Escalation alerts',
+    alertSettingsDescription: 'While sharing your screen or recording, get a nudge to pause when the conversation heats up.',
+    alertRuleAbove: 'Temperature above',
+    alertRuleRise: 'Temperature rises by',
+    alertRuleEmotion: 'Emotion is one of',
+    alertPointsWithin: 'points within',
+    alertAnalyses: 'analyses',
+    alertEmotionsPlaceholder: 'e.g. Contempt, Hostility',
+    alertAddRule: 'Add rule',
+    alertDeleteRule: 'Delete rule',
+    alertNotifications: 'Browser notifications',
+    alertSound: 'Play a sound',
+    alertCooldown: 'At most one alert every',
+    alertMinutes: '{minutes} min',
+    alertNotificationsBlocked: 'Notifications are blocked by the browser. Allow them in the site settings to enable this option.',
+    alertTitle: 'Pause before you reply',
+    alertMessage: 'This conversation is heating up. Take a breath and read the suggestion before you answer.',
+    alertReasonAbove: 'Temperature is {temperature}°C, above {threshold}°C',
+    alertReasonRise: 'Temperature rose {points} points within {count} analyses',
+    alertReasonEmotion: '{emotion} detected',
+    alertDismiss: 'Dismiss',
+    modeVoice: 'Voice conversation',
+    voiceConversationHint: 'Record a spoken conversation. Mark who is speaking; each utterance is analyzed as soon as it ends.',
+    voiceNowSpeaking: 'Now speaking:',
+    voiceEmpty: 'Utterances will appear here as people speak.',
+    voiceListening: 'Listening…',
+    voiceRetagSpeaker: 'Speaker of this utterance',
+    vocalToneOption: 'Analyze tone of voice when recording',
+    vocalToneHint: 'Sends the recording itself, so volume, pace and intonation are rated next to the words.',
+    vocalClipAttached: 'Voice recording attached ({seconds}s)',
+    vocalClipRemove: 'Remove voice recording',
+    textTemperature: 'Words',
+    vocalTemperature: 'Voice',
+    imageLimitError: 'You can add up to {max} screenshots per analysis.',
+    imageDropHint: 'Drop screenshots to add them',
+    imageOrderHint: 'Screenshots are read as one conversation in this order. You can also paste or drag in more.',
+    moveImageEarlier: 'Move earlier',
+    moveImageLater: 'Move later',
+    extractTranscript: 'Extract transcript to review and edit',
+    extractingTranscript: 'Reading the screenshots…',
+    transcriptEmpty: 'No conversation could be read from these screenshots.',
+    transcriptReviewHint: 'This conversation was read from your screenshots. Check the speakers and messages and fix anything misread before analyzing.',
+    turnTimestamp: 'Time',
+    extensionBadgeTitle: 'PeaceTalk draft temperature. Click for suggestions.',
+    extensionReplace: 'Replace with suggestion',
+    extensionClose: 'Close',
+    extensionCalmHint: 'This draft looks calm. PeaceTalk will coach you if it heats up.',
+    guardButton: 'Cool-down',
+    guardSettingsTitle: 'Cool-down guard',
+    guardSettingsDescription: 'When a draft runs hotter than the threshold, copying it out is held back until you have taken a moment. The suggested rewrite can always be copied.',
+    guardEnabled: 'Guard heated drafts',
+    guardThreshold: 'Above temperature',
+    guardMode: 'Cool-down',
+    guardModeTimer: 'Wait a moment',
+    guardModeReflection: 'Answer a reflective question',
+    guardModeCompare: 'Compare with the rewrite',
+    guardTimer: 'Wait',
+    guardLogSummary: 'After a cool-down you copied the rewrite {rewrites} of {total} times.',
+    guardClearLog: 'Clear',
+    guardTitle: 'This draft runs hot. Take a moment before you send it.',
+    guardTimerRunning: 'Take a breath. Your original can be copied in {seconds}s.',
+    guardReflectionPrompt: 'How do you want them to feel after reading your message?',
+    guardReflectionPlaceholder: 'Write a sentence or two…',
+    guardOriginal: 'Your draft',
+    guardSuggestion: 'Suggested rewrite',
+    guardCompareConfirm: 'I have read both versions',
+    guardUnlocked: 'Your original can be copied now. Which version will you send?',
+    guardCopyOriginal: 'Copy my original',
+    guardCopyRewrite: 'Copy the rewrite',
+    showChanges: 'Show changes',
+    hideChanges: 'Hide changes',
+    diffOriginal: 'Your draft',
+    diffSuggestion: 'Suggestion',
+    diffAdded: 'Added',
+    diffRemoved: 'Removed',
+    diffReworded: 'Reworded',
+    applyAndReanalyze: 'Apply & re-analyze',
+    refineSuggestion: 'Refine',
+    refinePlaceholder: 'Ask for changes, e.g. “more formal” or “keep my point about the deadline”',
+    versionChainTitle: 'Versions',
+    versionLabel: 'Version {number}',
+    recipientTitle: 'Who is it for?',
+    recipientAnyone: 'Anyone',
+    manageRecipients: 'Manage recipients',
+    recipientManagerTitle: 'Recipient profiles',
+    recipientManagerDescription: 'Describe the people you write to, so the advice and the predicted reaction fit them. Profiles are stored in this browser.',
+    recipientNew: 'New profile',
+    recipientEmpty: 'No profiles yet. Add one for a boss, a partner or anyone you write to often.',
+    recipientEdit: 'Edit',
+    recipientDelete: 'Delete profile',
+    recipientName: 'Name',
+    recipientNamePlaceholder: 'e.g. Sam (my manager)',
+    recipientRelationship: 'Relationship',
+    relationshipManager: 'Manager',
+    relationshipColleague: 'Colleague',
+    relationshipReport: 'Direct report',
+    relationshipClient: 'Client',
+    relationshipPartner: 'Partner',
+    relationshipFamily: 'Family',
+    relationshipChild: 'Child',
+    relationshipFriend: 'Friend',
+    relationshipOther: 'Other',
+    recipientFormality: 'Formality',
+    formalityCasual: 'Casual',
+    formalityNeutral: 'Neutral',
+    formalityFormal: 'Formal',
+    recipientCulture: 'Cultural context',
+    recipientCulturePlaceholder: 'e.g. grew up in Japan, prefers indirect requests',
+    recipientSensitivities: 'Known sensitivities',
+    recipientSensitivitiesPlaceholder: 'Topics or phrasings that tend to land badly',
+    recipientLanguage: 'Preferred language',
+    recipientLanguageSame: 'Same as the app',
+    recipientSave: 'Save',
+    recipientCancel: 'Cancel',
+    topicTooLong: 'In at least one language, the name and instruction together are longer than {max} characters.',
   },
   ko: {
     languageName: '한국어',
@@ -68,7 +274,6 @@ export const translations = {
     micNotSupportedError: '사용 중인 브라우저에서는 음성 인식을 지원하지 않습니다.',
     analyzingFrame: '화면 분석 중...',
     removeImage: '이미지 제거',
-    imageSizeError: '이미지 파일이 너무 큽니다. 4MB 미만의 파일을 업로드해주세요.',
     imageLoadError: '이미지를 불러오는 데 실패했습니다. 다시 시도해주세요.',
     loadingMessage: '대화의 맥락을 분석하고 있습니다...',
     errorPrefix: '오류: ',
@@ -94,6 +299,211 @@ export const translations = {
     submitFeedback: '피드백 제출',
     feedbackThanks: '피드백을 보내주셔서 감사합니다!',
     emotionTrendTitle: '감정 추이',
+    modeSingle: '단일 메시지',
+    modeThread: '대화 스레드',
+    enterThread: '대화를 한 차례씩 입력하세요',
+    speakerPlaceholder: '화자',
+    turnMessagePlaceholder: '어떤 말을 했나요?',
+    addTurn: '차례 추가',
+    removeTurn: '차례 삭제',
+    pasteConversation: '대화 붙여넣기',
+    pasteConversationPlaceholder: '한 줄에 메시지 하나씩, 예:\n민수: 넌 내 말을 절대 안 들어.\n지영: 그건 너무하잖아.',
+    pasteConversationButton: '차례로 나누기',
+    speakerMe: '나',
+    speakerOther: '상대방',
+    analyzeThreadButton: '대화 분석하기',
+    escalationPoint: '갈등 고조 지점',
+    speakerTrendTitle: '화자별 온도',
+    historyButton: '기록',
+    historyTitle: '분석 기록',
+    historySearchPlaceholder: '텍스트, 감정, 추천 답변 검색...',
+    historyEmpty: '저장된 분석이 아직 없습니다.',
+    historyOpen: '열기',
+    historyDelete: '기록 삭제',
+    historyCompare: '비교 대상으로 선택',
+    historyCompareHint: '두 개의 기록을 선택하면 나란히 비교할 수 있습니다.',
+    historyClearAll: '모두 삭제',
+    exportFeedback: '피드백 내보내기',
+    toneBrief: '간결하게',
+    toneWarm: '따뜻하게',
+    toneAssertive: '단호하지만 정중하게',
+    toneFormal: '격식 있게',
+    copySuggestion: '복사',
+    copied: '복사됨!',
+    errorInvalidResponse: 'AI가 불완전한 분석을 반환했습니다. 다시 시도해 주세요.',
+    errorRateLimited: '현재 요청이 너무 많습니다. 잠시 후 다시 시도해 주세요.',
+    errorUnavailable: '분석 서비스를 일시적으로 사용할 수 없습니다. 나중에 다시 시도해 주세요.',
+    errorNetwork: '분석 서버에 연결할 수 없습니다. 네트워크 연결을 확인하고 다시 시도해 주세요.',
+    errorBadRequest: '이 입력은 분석할 수 없습니다. 텍스트를 줄이거나 더 작은 이미지를 사용해 보세요.',
+    errorMissingApiKey: '분석 서버에 API 키가 설정되어 있지 않습니다.',
+    errorUnknown: '분석 중 문제가 발생했습니다. 다시 시도해 주세요.',
+    flaggedPhrasesTitle: '과열된 표현 (마우스를 올리면 자세히 보기)',
+    phraseBlame: '비난',
+    phraseAbsolute: '단정적 표현',
+    phraseSarcasm: '비꼬기',
+    phraseInsult: '모욕',
+    phraseRewrite: '바꾸기',
+    phraseRemove: '이 표현 삭제',
+    provisionalTemperature: '빠른 자체 점검 결과 — 아직 AI 분석 전입니다',
+    screeningTitle: '빠른 점검',
+    screeningNoFlags: '과열된 표현이 없습니다.',
+    screeningCalmHint: '차분한 초안이라 AI에 보내지 않았습니다. 자세한 코칭을 받으려면 ‘어조 분석하기’를 누르세요.',
+    screeningEscalatingHint: '과열된 초안으로 보입니다. 입력을 멈추면 AI가 분석합니다.',
+    flagProfanity: '욕설',
+    flagAllCaps: '대문자 강조',
+    flagAbsolute: '단정적 표현',
+    flagBlame: '비난',
+    manageTopics: '+ 주제 관리',
+    topicTryExample: '예시로 해보기:',
+    topicManagerTitle: '코칭 주제',
+    topicNew: '새 주제',
+    topicEdit: '편집',
+    topicDelete: '주제 삭제',
+    topicReset: '기본값으로 복원',
+    topicImport: '가져오기',
+    topicExport: '내보내기',
+    topicIcon: '아이콘',
+    topicName: '이름',
+    topicInstruction: '코칭 지침',
+    topicInstructionPlaceholder: '코치가 특히 주의해야 할 점은 무엇인가요? 일반 코칭은 비워 두세요.',
+    topicExamples: '예시 입력 (한 줄에 하나씩)',
+    topicExamplesPlaceholder: '예: 이번에도 늦은 이유가 뭐죠?',
+    topicEditingLanguage: '편집 언어',
+    topicSave: '저장',
+    topicCancel: '취소',
+    topicImportError: '올바른 코칭 주제가 들어 있지 않은 파일입니다.',
+    exportReport: '리포트 내보내기',
+    reportTitle: 'PeaceTalk 대화 리포트',
+    reportGeneratedAt: '생성 일시',
+    reportInput: '분석한 텍스트',
+    reportAlternatives: '다른 버전',
+    screenShareError: '화면 공유를 시작하지 못했습니다. 권한이 허용되었는지 확인해주세요.',
+    cropHint: '영상 위를 드래그해 대화 영역만 지정하세요.',
+    cropClear: '전체 화면 보기',
+    monitorInterval: '확인 주기',
+    monitorSeconds: '{seconds}초',
+    monitorSensitivity: '민감도',
+    sensitivityLow: '낮음',
+    sensitivityMedium: '보통',
+    sensitivityHigh: '높음',
+    monitorUnchanged: '변화 없음 · {seconds}초 후 다시 확인',
+    monitorRetrying: '분석 실패 · {seconds}초 후 재시도',
+    alertsButton: '알림',
+    alertSettingsTitle: '격화 알림',
+    alertSettingsDescription: '화면 공유나 녹음 중 대화가 과열되면 잠시 멈추라는 알림을 받습니다.',
+    alertRuleAbove: '온도가 다음보다 높음',
+    alertRuleRise: '온도 상승폭',
+    alertRuleEmotion: '감정이 다음 중 하나',
+    alertPointsWithin: '포인트 / 최근',
+    alertAnalyses: '회 분석',
+    alertEmotionsPlaceholder: '예: Contempt, Hostility',
+    alertAddRule: '규칙 추가',
+    alertDeleteRule: '규칙 삭제',
+    alertNotifications: '브라우저 알림',
+    alertSound: '소리 재생',
+    alertCooldown: '최소 알림 간격',
+    alertMinutes: '{minutes}분',
+    alertNotificationsBlocked: '브라우저에서 알림이 차단되어 있습니다. 사이트 설정에서 허용해주세요.',
+    alertTitle: '답장하기 전에 잠시 멈추세요',
+    alertMessage: '대화가 과열되고 있습니다. 숨을 고르고 답하기 전에 제안을 읽어보세요.',
+    alertReasonAbove: '온도가 {temperature}°C로 {threshold}°C를 넘었습니다',
+    alertReasonRise: '최근 {count}회 분석 동안 온도가 {points}포인트 올랐습니다',
+    alertReasonEmotion: '{emotion} 감정이 감지되었습니다',
+    alertDismiss: '닫기',
+    modeVoice: '음성 대화',
+    voiceConversationHint: '말로 하는 대화를 녹음하세요. 지금 말하는 사람을 표시하면 각 발화가 끝나는 즉시 분석됩니다.',
+    voiceNowSpeaking: '현재 화자:',
+    voiceEmpty: '말하는 내용이 여기에 발화 단위로 표시됩니다.',
+    voiceListening: '듣는 중…',
+    voiceRetagSpeaker: '이 발화의 화자',
+    vocalToneOption: '녹음 시 목소리 톤도 분석',
+    vocalToneHint: '녹음 자체를 보내 말의 내용과 함께 음량, 속도, 억양을 평가합니다.',
+    vocalClipAttached: '음성 녹음 첨부됨 ({seconds}초)',
+    vocalClipRemove: '음성 녹음 삭제',
+    textTemperature: '말의 내용',
+    vocalTemperature: '목소리',
+    imageLimitError: '분석 한 번에 스크린샷은 최대 {max}장까지 추가할 수 있습니다.',
+    imageDropHint: '스크린샷을 놓아서 추가하세요',
+    imageOrderHint: '스크린샷은 이 순서대로 하나의 대화로 읽힙니다. 붙여넣기나 끌어다 놓기로 더 추가할 수 있습니다.',
+    moveImageEarlier: '앞으로 이동',
+    moveImageLater: '뒤로 이동',
+    extractTranscript: '대화 내용을 추출해 확인·수정하기',
+    extractingTranscript: '스크린샷을 읽는 중…',
+    transcriptEmpty: '이 스크린샷에서 대화를 읽을 수 없습니다.',
+    transcriptReviewHint: '스크린샷에서 읽어 온 대화입니다. 분석하기 전에 화자와 메시지를 확인하고 잘못 읽힌 부분을 고쳐 주세요.',
+    turnTimestamp: '시간',
+    extensionBadgeTitle: 'PeaceTalk 초안 온도. 클릭하면 제안을 볼 수 있습니다.',
+    extensionReplace: '제안으로 바꾸기',
+    extensionClose: '닫기',
+    extensionCalmHint: '이 초안은 차분해 보입니다. 과열되면 PeaceTalk가 코칭해 드립니다.',
+    guardButton: '진정 모드',
+    guardSettingsTitle: '진정 모드 설정',
+    guardSettingsDescription: '초안의 온도가 기준을 넘으면 잠시 멈출 때까지 원문을 복사할 수 없습니다. 제안된 문장은 언제든 복사할 수 있습니다.',
+    guardEnabled: '과열된 초안 보호',
+    guardThreshold: '기준 온도',
+    guardMode: '방식',
+    guardModeTimer: '잠시 기다리기',
+    guardModeReflection: '질문에 답하기',
+    guardModeCompare: '제안과 비교하기',
+    guardTimer: '대기 시간',
+    guardLogSummary: '진정 후 {total}번 중 {rewrites}번 제안된 문장을 복사했습니다.',
+    guardClearLog: '지우기',
+    guardTitle: '이 초안은 과열되어 있습니다. 보내기 전에 잠시 멈춰 보세요.',
+    guardTimerRunning: '심호흡을 해 보세요. {seconds}초 후에 원문을 복사할 수 있습니다.',
+    guardReflectionPrompt: '상대가 메시지를 읽고 어떤 기분이 들기를 바라나요?',
+    guardReflectionPlaceholder: '한두 문장으로 적어 보세요…',
+    guardOriginal: '내 초안',
+    guardSuggestion: '제안된 문장',
+    guardCompareConfirm: '두 버전을 모두 읽었습니다',
+    guardUnlocked: '이제 원문을 복사할 수 있습니다. 어떤 버전을 보내시겠어요?',
+    guardCopyOriginal: '원문 복사',
+    guardCopyRewrite: '제안된 문장 복사',
+    showChanges: '변경 내용 보기',
+    hideChanges: '변경 내용 숨기기',
+    diffOriginal: '내 초안',
+    diffSuggestion: '제안',
+    diffAdded: '추가됨',
+    diffRemoved: '삭제됨',
+    diffReworded: '표현 변경',
+    applyAndReanalyze: '적용 후 다시 분석',
+    refineSuggestion: '다듬기',
+    refinePlaceholder: '수정 요청을 입력하세요. 예: “더 격식 있게”, “마감일 이야기는 유지해 줘”',
+    versionChainTitle: '버전',
+    versionLabel: '버전 {number}',
+    recipientTitle: '누구에게 보내나요?',
+    recipientAnyone: '누구나',
+    manageRecipients: '받는 사람 관리',
+    recipientManagerTitle: '받는 사람 프로필',
+    recipientManagerDescription: '자주 연락하는 사람을 설명해 두면 조언과 예상 반응이 그 사람에게 맞춰집니다. 프로필은 이 브라우저에 저장됩니다.',
+    recipientNew: '새 프로필',
+    recipientEmpty: '아직 프로필이 없습니다. 상사, 연인 등 자주 연락하는 사람을 추가해 보세요.',
+    recipientEdit: '편집',
+    recipientDelete: '프로필 삭제',
+    recipientName: '이름',
+    recipientNamePlaceholder: '예: 김 팀장님',
+    recipientRelationship: '관계',
+    relationshipManager: '상사',
+    relationshipColleague: '동료',
+    relationshipReport: '팀원',
+    relationshipClient: '고객',
+    relationshipPartner: '연인·배우자',
+    relationshipFamily: '가족',
+    relationshipChild: '자녀',
+    relationshipFriend: '친구',
+    relationshipOther: '기타',
+    recipientFormality: '격식',
+    formalityCasual: '편하게',
+    formalityNeutral: '보통',
+    formalityFormal: '격식 있게',
+    recipientCulture: '문화적 배경',
+    recipientCulturePlaceholder: '예: 돌려 말하는 요청을 선호함',
+    recipientSensitivities: '민감한 부분',
+    recipientSensitivitiesPlaceholder: '반응이 좋지 않았던 주제나 표현',
+    recipientLanguage: '선호 언어',
+    recipientLanguageSame: '앱 언어와 같음',
+    recipientSave: '저장',
+    recipientCancel: '취소',
+    topicTooLong: '하나 이상의 언어에서 이름과 지침을 합친 길이가 {max}자를 넘습니다.',
   },
   es: {
     languageName: 'Español',
@@ -107,7 +517,7 @@ export const translations = {
     analyzeButton: 'Analizar Tono',
     analyzeImageButton: 'Analizar Imagen y Texto',
     analyzingButton: 'Analizando...',
-    uploadImage: 'Subir Imagen',
+    uploadImage: 'Subir Imágenes',
     shareScreen: 'Compartir Pantalla',
     stopSharing: 'Dejar de Compartir',
     recordVoice: 'Grabar Voz',
@@ -116,7 +526,6 @@ export const translations = {
     micNotSupportedError: 'El reconocimiento de voz no es compatible con tu navegador.',
     analyzingFrame: 'Analizando fotograma...',
     removeImage: 'Quitar Imagen',
-    imageSizeError: 'La imagen es demasiado grande. Por favor, sube un archivo de menos de 4MB.',
     imageLoadError: 'Error al cargar la imagen. Por favor, inténtalo de nuevo.',
     loadingMessage: 'Analizando el contexto de la comunicación...',
     errorPrefix: 'Error: ',
@@ -142,6 +551,211 @@ export const translations = {
     submitFeedback: 'Enviar Comentario',
     feedbackThanks: '¡Gracias por tus comentarios!',
     emotionTrendTitle: 'Tendencia Emocional',
+    modeSingle: 'Mensaje único',
+    modeThread: 'Hilo de conversación',
+    enterThread: 'Construye la conversación turno por turno',
+    speakerPlaceholder: 'Hablante',
+    turnMessagePlaceholder: '¿Qué dijo?',
+    addTurn: 'Añadir turno',
+    removeTurn: 'Eliminar turno',
+    pasteConversation: 'Pegar conversación',
+    pasteConversationPlaceholder: 'Un mensaje por línea, p.ej.\nAlex: Nunca me escuchas.\nSam: Eso no es justo.',
+    pasteConversationButton: 'Dividir en turnos',
+    speakerMe: 'Yo',
+    speakerOther: 'Otra persona',
+    analyzeThreadButton: 'Analizar conversación',
+    escalationPoint: 'Punto de escalada',
+    speakerTrendTitle: 'Temperatura por hablante',
+    historyButton: 'Historial',
+    historyTitle: 'Historial de análisis',
+    historySearchPlaceholder: 'Buscar texto, emociones o sugerencias...',
+    historyEmpty: 'Aún no hay análisis guardados.',
+    historyOpen: 'Abrir',
+    historyDelete: 'Eliminar entrada',
+    historyCompare: 'Seleccionar para comparar',
+    historyCompareHint: 'Marca dos entradas para compararlas lado a lado.',
+    historyClearAll: 'Borrar todo',
+    exportFeedback: 'Exportar comentarios',
+    toneBrief: 'Breve',
+    toneWarm: 'Cálido',
+    toneAssertive: 'Firme pero respetuoso',
+    toneFormal: 'Formal',
+    copySuggestion: 'Copiar',
+    copied: '¡Copiado!',
+    errorInvalidResponse: 'La IA devolvió un análisis incompleto. Inténtalo de nuevo.',
+    errorRateLimited: 'Demasiadas solicitudes en este momento. Espera un momento e inténtalo de nuevo.',
+    errorUnavailable: 'El servicio de análisis no está disponible temporalmente. Inténtalo más tarde.',
+    errorNetwork: 'No se pudo conectar con el servidor de análisis. Revisa tu conexión e inténtalo de nuevo.',
+    errorBadRequest: 'No se pudo analizar esta entrada. Prueba con un texto más corto o una imagen más pequeña.',
+    errorMissingApiKey: 'El servidor de análisis no tiene configurada una clave de API.',
+    errorUnknown: 'Algo salió mal durante el análisis. Inténtalo de nuevo.',
+    flaggedPhrasesTitle: 'Frases acaloradas (pasa el cursor para ver detalles)',
+    phraseBlame: 'Culpa',
+    phraseAbsolute: 'Absoluto',
+    phraseSarcasm: 'Sarcasmo',
+    phraseInsult: 'Insulto',
+    phraseRewrite: 'Reemplazar por',
+    phraseRemove: 'Eliminar esta frase',
+    provisionalTemperature: 'Comprobación rápida local: aún no revisada por la IA',
+    screeningTitle: 'Comprobación rápida',
+    screeningNoFlags: 'No se encontraron palabras acaloradas.',
+    screeningCalmHint: 'Este borrador parece tranquilo, así que no se envió a la IA. Pulsa Analizar Tono para recibir orientación completa.',
+    screeningEscalatingHint: 'Este borrador parece acalorado. La IA lo revisará cuando dejes de escribir.',
+    flagProfanity: 'Groserías',
+    flagAllCaps: 'Mayúsculas',
+    flagAbsolute: 'Absoluto',
+    flagBlame: 'Culpa',
+    manageTopics: '+ Gestionar temas',
+    topicTryExample: 'Prueba un ejemplo:',
+    topicManagerTitle: 'Temas de orientación',
+    topicNew: 'Nuevo tema',
+    topicEdit: 'Editar',
+    topicDelete: 'Eliminar tema',
+    topicReset: 'Restablecer',
+    topicImport: 'Importar',
+    topicExport: 'Exportar',
+    topicIcon: 'Icono',
+    topicName: 'Nombre',
+    topicInstruction: 'Instrucciones de orientación',
+    topicInstructionPlaceholder: '¿A qué debe prestar especial atención el asistente? Déjalo vacío para una orientación general.',
+    topicExamples: 'Ejemplos de entrada (uno por línea)',
+    topicExamplesPlaceholder: 'p. ej., ¿Por qué vuelve a llegar tarde?',
+    topicEditingLanguage: 'Idioma de edición',
+    topicSave: 'Guardar',
+    topicCancel: 'Cancelar',
+    topicImportError: 'Ese archivo no contiene temas de orientación válidos.',
+    exportReport: 'Exportar informe',
+    reportTitle: 'Informe de conversación de PeaceTalk',
+    reportGeneratedAt: 'Generado',
+    reportInput: 'Texto analizado',
+    reportAlternatives: 'Otras versiones',
+    screenShareError: 'No se pudo iniciar el uso compartido de pantalla. Asegúrate de haber concedido los permisos.',
+    cropHint: 'Arrastra sobre el vídeo para vigilar solo la zona del chat.',
+    cropClear: 'Vigilar toda la pantalla',
+    monitorInterval: 'Comprobar cada',
+    monitorSeconds: '{seconds} s',
+    monitorSensitivity: 'Sensibilidad',
+    sensitivityLow: 'Baja',
+    sensitivityMedium: 'Media',
+    sensitivityHigh: 'Alta',
+    monitorUnchanged: 'Sin cambios · próxima comprobación en {seconds} s',
+    monitorRetrying: 'El análisis falló · reintento en {seconds} s',
+    alertsButton: 'Alertas',
+    alertSettingsTitle: 'Alertas de escalada',
+    alertSettingsDescription: 'Mientras compartes pantalla o grabas, recibe un aviso para hacer una pausa cuando la conversación se caldea.',
+    alertRuleAbove: 'Temperatura superior a',
+    alertRuleRise: 'La temperatura sube',
+    alertRuleEmotion: 'La emoción es una de',
+    alertPointsWithin: 'puntos en',
+    alertAnalyses: 'análisis',
+    alertEmotionsPlaceholder: 'p. ej. Contempt, Hostility',
+    alertAddRule: 'Añadir regla',
+    alertDeleteRule: 'Eliminar regla',
+    alertNotifications: 'Notificaciones del navegador',
+    alertSound: 'Reproducir un sonido',
+    alertCooldown: 'Como máximo una alerta cada',
+    alertMinutes: '{minutes} min',
+    alertNotificationsBlocked: 'El navegador bloquea las notificaciones. Permítelas en la configuración del sitio para activar esta opción.',
+    alertTitle: 'Haz una pausa antes de responder',
+    alertMessage: 'La conversación se está caldeando. Respira y lee la sugerencia antes de contestar.',
+    alertReasonAbove: 'La temperatura es {temperature}°C, por encima de {threshold}°C',
+    alertReasonRise: 'La temperatura subió {points} puntos en {count} análisis',
+    alertReasonEmotion: 'Se detectó {emotion}',
+    alertDismiss: 'Descartar',
+    modeVoice: 'Conversación por voz',
+    voiceConversationHint: 'Graba una conversación hablada. Marca quién habla; cada intervención se analiza en cuanto termina.',
+    voiceNowSpeaking: 'Habla ahora:',
+    voiceEmpty: 'Las intervenciones aparecerán aquí a medida que se hable.',
+    voiceListening: 'Escuchando…',
+    voiceRetagSpeaker: 'Quién dijo esto',
+    vocalToneOption: 'Analizar el tono de voz al grabar',
+    vocalToneHint: 'Envía la propia grabación para valorar volumen, ritmo y entonación además de las palabras.',
+    vocalClipAttached: 'Grabación de voz adjunta ({seconds} s)',
+    vocalClipRemove: 'Quitar la grabación de voz',
+    textTemperature: 'Palabras',
+    vocalTemperature: 'Voz',
+    imageLimitError: 'Puedes añadir hasta {max} capturas por análisis.',
+    imageDropHint: 'Suelta las capturas para añadirlas',
+    imageOrderHint: 'Las capturas se leen como una sola conversación en este orden. También puedes pegar o arrastrar más.',
+    moveImageEarlier: 'Mover antes',
+    moveImageLater: 'Mover después',
+    extractTranscript: 'Extraer la transcripción para revisarla y editarla',
+    extractingTranscript: 'Leyendo las capturas…',
+    transcriptEmpty: 'No se pudo leer ninguna conversación en estas capturas.',
+    transcriptReviewHint: 'Esta conversación se leyó de tus capturas. Revisa los participantes y los mensajes y corrige lo que se haya leído mal antes de analizar.',
+    turnTimestamp: 'Hora',
+    extensionBadgeTitle: 'Temperatura del borrador según PeaceTalk. Haz clic para ver sugerencias.',
+    extensionReplace: 'Reemplazar por la sugerencia',
+    extensionClose: 'Cerrar',
+    extensionCalmHint: 'Este borrador parece tranquilo. PeaceTalk te ayudará si se acalora.',
+    guardButton: 'Enfriamiento',
+    guardSettingsTitle: 'Modo de enfriamiento',
+    guardSettingsDescription: 'Cuando un borrador supera el umbral, no podrás copiarlo hasta que te tomes un momento. La reescritura sugerida siempre se puede copiar.',
+    guardEnabled: 'Proteger borradores acalorados',
+    guardThreshold: 'Por encima de',
+    guardMode: 'Tipo',
+    guardModeTimer: 'Esperar un momento',
+    guardModeReflection: 'Responder una pregunta de reflexión',
+    guardModeCompare: 'Comparar con la reescritura',
+    guardTimer: 'Espera',
+    guardLogSummary: 'Tras el enfriamiento copiaste la reescritura {rewrites} de {total} veces.',
+    guardClearLog: 'Borrar',
+    guardTitle: 'Este borrador está acalorado. Tómate un momento antes de enviarlo.',
+    guardTimerRunning: 'Respira. Podrás copiar el original en {seconds} s.',
+    guardReflectionPrompt: '¿Cómo quieres que se sienta la otra persona al leer tu mensaje?',
+    guardReflectionPlaceholder: 'Escribe una o dos frases…',
+    guardOriginal: 'Tu borrador',
+    guardSuggestion: 'Reescritura sugerida',
+    guardCompareConfirm: 'He leído ambas versiones',
+    guardUnlocked: 'Ya puedes copiar el original. ¿Qué versión vas a enviar?',
+    guardCopyOriginal: 'Copiar mi original',
+    guardCopyRewrite: 'Copiar la reescritura',
+    showChanges: 'Ver cambios',
+    hideChanges: 'Ocultar cambios',
+    diffOriginal: 'Tu borrador',
+    diffSuggestion: 'Sugerencia',
+    diffAdded: 'Añadido',
+    diffRemoved: 'Eliminado',
+    diffReworded: 'Reformulado',
+    applyAndReanalyze: 'Aplicar y volver a analizar',
+    refineSuggestion: 'Ajustar',
+    refinePlaceholder: 'Pide cambios, p. ej. “más formal” o “mantén lo del plazo”',
+    versionChainTitle: 'Versiones',
+    versionLabel: 'Versión {number}',
+    recipientTitle: '¿Para quién es?',
+    recipientAnyone: 'Cualquiera',
+    manageRecipients: 'Gestionar destinatarios',
+    recipientManagerTitle: 'Perfiles de destinatarios',
+    recipientManagerDescription: 'Describe a las personas a las que escribes para que los consejos y la reacción prevista se ajusten a ellas. Los perfiles se guardan en este navegador.',
+    recipientNew: 'Nuevo perfil',
+    recipientEmpty: 'Aún no hay perfiles. Añade uno para tu jefe, tu pareja o cualquier persona a la que escribas a menudo.',
+    recipientEdit: 'Editar',
+    recipientDelete: 'Eliminar perfil',
+    recipientName: 'Nombre',
+    recipientNamePlaceholder: 'p. ej. Sam (mi jefa)',
+    recipientRelationship: 'Relación',
+    relationshipManager: 'Jefe/a',
+    relationshipColleague: 'Colega',
+    relationshipReport: 'Subordinado/a',
+    relationshipClient: 'Cliente',
+    relationshipPartner: 'Pareja',
+    relationshipFamily: 'Familia',
+    relationshipChild: 'Hijo/a',
+    relationshipFriend: 'Amigo/a',
+    relationshipOther: 'Otro',
+    recipientFormality: 'Formalidad',
+    formalityCasual: 'Informal',
+    formalityNeutral: 'Neutral',
+    formalityFormal: 'Formal',
+    recipientCulture: 'Contexto cultural',
+    recipientCulturePlaceholder: 'p. ej. creció en Japón, prefiere peticiones indirectas',
+    recipientSensitivities: 'Sensibilidades conocidas',
+    recipientSensitivitiesPlaceholder: 'Temas o expresiones que suelen sentar mal',
+    recipientLanguage: 'Idioma preferido',
+    recipientLanguageSame: 'El mismo que la aplicación',
+    recipientSave: 'Guardar',
+    recipientCancel: 'Cancelar',
+    topicTooLong: 'En al menos un idioma, el nombre y la instrucción juntos superan los {max} caracteres.',
   },
   fr: {
     languageName: 'Français',
@@ -155,7 +769,7 @@ export const translations = {
     analyzeButton: 'Analyser le Ton',
     analyzeImageButton: 'Analyser l\'Image et le Texte',
     analyzingButton: 'Analyse en cours...',
-    uploadImage: 'Télécharger une Image',
+    uploadImage: 'Télécharger des Images',
     shareScreen: 'Partager l\'Écran',
     stopSharing: 'Arrêter le Partage',
     recordVoice: 'Enregistrer la Voix',
@@ -164,7 +778,6 @@ export const translations = {
     micNotSupportedError: 'La reconnaissance vocale n\'est pas prise en charge par votre navigateur.',
     analyzingFrame: 'Analyse de l\'image...',
     removeImage: 'Supprimer l\'Image',
-    imageSizeError: 'L\'image est trop grande. Veuillez télécharger un fichier de moins de 4 Mo.',
     imageLoadError: 'Échec du chargement de l\'image. Veuillez réessayer.',
     loadingMessage: 'Analyse du contexte de communication...',
     errorPrefix: 'Erreur : ',
@@ -190,6 +803,211 @@ export const translations = {
     submitFeedback: 'Envoyer les Commentaires',
     feedbackThanks: 'Merci pour vos commentaires !',
     emotionTrendTitle: 'Tendance Émotionnelle',
+    modeSingle: 'Message unique',
+    modeThread: 'Fil de conversation',
+    enterThread: 'Construisez la conversation tour par tour',
+    speakerPlaceholder: 'Interlocuteur',
+    turnMessagePlaceholder: "Qu'a-t-il été dit ?",
+    addTurn: 'Ajouter un tour',
+    removeTurn: 'Supprimer le tour',
+    pasteConversation: 'Coller une conversation',
+    pasteConversationPlaceholder: "Un message par ligne, p. ex.\nAlex : Tu ne m'écoutes jamais.\nSam : Ce n'est pas juste.",
+    pasteConversationButton: 'Découper en tours',
+    speakerMe: 'Moi',
+    speakerOther: "L'autre",
+    analyzeThreadButton: 'Analyser la conversation',
+    escalationPoint: "Point d'escalade",
+    speakerTrendTitle: 'Température par interlocuteur',
+    historyButton: 'Historique',
+    historyTitle: 'Historique des analyses',
+    historySearchPlaceholder: 'Rechercher un texte, une émotion ou une suggestion...',
+    historyEmpty: "Aucune analyse enregistrée pour l'instant.",
+    historyOpen: 'Ouvrir',
+    historyDelete: "Supprimer l'entrée",
+    historyCompare: 'Sélectionner pour comparer',
+    historyCompareHint: 'Cochez deux entrées pour les comparer côte à côte.',
+    historyClearAll: 'Tout effacer',
+    exportFeedback: 'Exporter les avis',
+    toneBrief: 'Bref',
+    toneWarm: 'Chaleureux',
+    toneAssertive: 'Affirmé mais respectueux',
+    toneFormal: 'Formel',
+    copySuggestion: 'Copier',
+    copied: 'Copié !',
+    errorInvalidResponse: "L'IA a renvoyé une analyse incomplète. Veuillez réessayer.",
+    errorRateLimited: 'Trop de requêtes pour le moment. Patientez un instant puis réessayez.',
+    errorUnavailable: "Le service d'analyse est temporairement indisponible. Veuillez réessayer plus tard.",
+    errorNetwork: "Impossible de joindre le serveur d'analyse. Vérifiez votre connexion et réessayez.",
+    errorBadRequest: "Cette saisie n'a pas pu être analysée. Essayez un texte plus court ou une image plus petite.",
+    errorMissingApiKey: "Le serveur d'analyse n'est pas configuré avec une clé d'API.",
+    errorUnknown: "Une erreur s'est produite pendant l'analyse. Veuillez réessayer.",
+    flaggedPhrasesTitle: 'Expressions tendues (survolez pour les détails)',
+    phraseBlame: 'Reproche',
+    phraseAbsolute: 'Généralisation',
+    phraseSarcasm: 'Sarcasme',
+    phraseInsult: 'Insulte',
+    phraseRewrite: 'Remplacer par',
+    phraseRemove: 'Supprimer cette expression',
+    provisionalTemperature: "Vérification locale rapide — pas encore analysée par l'IA",
+    screeningTitle: 'Vérification rapide',
+    screeningNoFlags: 'Aucun mot tendu détecté.',
+    screeningCalmHint: "Ce brouillon semble calme, il n'a donc pas été envoyé à l'IA. Cliquez sur Analyser le Ton pour un accompagnement complet.",
+    screeningEscalatingHint: "Ce brouillon semble tendu. L'IA l'analysera dès que vous ferez une pause.",
+    flagProfanity: 'Grossièretés',
+    flagAllCaps: 'Majuscules',
+    flagAbsolute: 'Généralisation',
+    flagBlame: 'Reproche',
+    manageTopics: '+ Gérer les thèmes',
+    topicTryExample: 'Essayez un exemple :',
+    topicManagerTitle: "Thèmes d'accompagnement",
+    topicNew: 'Nouveau thème',
+    topicEdit: 'Modifier',
+    topicDelete: 'Supprimer le thème',
+    topicReset: 'Rétablir par défaut',
+    topicImport: 'Importer',
+    topicExport: 'Exporter',
+    topicIcon: 'Icône',
+    topicName: 'Nom',
+    topicInstruction: "Consignes d'accompagnement",
+    topicInstructionPlaceholder: 'À quoi le coach doit-il prêter une attention particulière ? Laissez vide pour un accompagnement général.',
+    topicExamples: 'Exemples de saisie (un par ligne)',
+    topicExamplesPlaceholder: 'ex. : Pourquoi est-ce encore en retard ?',
+    topicEditingLanguage: 'Langue modifiée',
+    topicSave: 'Enregistrer',
+    topicCancel: 'Annuler',
+    topicImportError: "Ce fichier ne contient pas de thèmes d'accompagnement valides.",
+    exportReport: 'Exporter le rapport',
+    reportTitle: 'Rapport de conversation PeaceTalk',
+    reportGeneratedAt: 'Généré le',
+    reportInput: 'Texte analysé',
+    reportAlternatives: 'Autres versions',
+    screenShareError: 'Impossible de démarrer le partage d’écran. Vérifiez que les autorisations sont accordées.',
+    cropHint: 'Faites glisser sur la vidéo pour ne surveiller que la zone de discussion.',
+    cropClear: 'Surveiller tout l’écran',
+    monitorInterval: 'Vérifier toutes les',
+    monitorSeconds: '{seconds} s',
+    monitorSensitivity: 'Sensibilité',
+    sensitivityLow: 'Faible',
+    sensitivityMedium: 'Moyenne',
+    sensitivityHigh: 'Élevée',
+    monitorUnchanged: 'Aucun changement · prochaine vérification dans {seconds} s',
+    monitorRetrying: 'Échec de l’analyse · nouvel essai dans {seconds} s',
+    alertsButton: 'Alertes',
+    alertSettingsTitle: 'Alertes d’escalade',
+    alertSettingsDescription: 'Pendant le partage d’écran ou l’enregistrement, recevez un rappel de faire une pause quand la conversation s’échauffe.',
+    alertRuleAbove: 'Température au-dessus de',
+    alertRuleRise: 'La température monte de',
+    alertRuleEmotion: 'L’émotion est parmi',
+    alertPointsWithin: 'points en',
+    alertAnalyses: 'analyses',
+    alertEmotionsPlaceholder: 'p. ex. Contempt, Hostility',
+    alertAddRule: 'Ajouter une règle',
+    alertDeleteRule: 'Supprimer la règle',
+    alertNotifications: 'Notifications du navigateur',
+    alertSound: 'Jouer un son',
+    alertCooldown: 'Au plus une alerte toutes les',
+    alertMinutes: '{minutes} min',
+    alertNotificationsBlocked: 'Les notifications sont bloquées par le navigateur. Autorisez-les dans les paramètres du site pour activer cette option.',
+    alertTitle: 'Faites une pause avant de répondre',
+    alertMessage: 'La conversation s’échauffe. Respirez et lisez la suggestion avant de répondre.',
+    alertReasonAbove: 'La température est de {temperature}°C, au-dessus de {threshold}°C',
+    alertReasonRise: 'La température a monté de {points} points en {count} analyses',
+    alertReasonEmotion: '{emotion} détecté',
+    alertDismiss: 'Ignorer',
+    modeVoice: 'Conversation vocale',
+    voiceConversationHint: 'Enregistrez une conversation orale. Indiquez qui parle ; chaque prise de parole est analysée dès qu’elle se termine.',
+    voiceNowSpeaking: 'Parle maintenant :',
+    voiceEmpty: 'Les prises de parole apparaîtront ici au fil de la conversation.',
+    voiceListening: 'Écoute…',
+    voiceRetagSpeaker: 'Auteur de cette prise de parole',
+    vocalToneOption: 'Analyser le ton de la voix lors de l’enregistrement',
+    vocalToneHint: 'Envoie l’enregistrement lui-même pour évaluer le volume, le débit et l’intonation en plus des mots.',
+    vocalClipAttached: 'Enregistrement vocal joint ({seconds} s)',
+    vocalClipRemove: 'Retirer l’enregistrement vocal',
+    textTemperature: 'Mots',
+    vocalTemperature: 'Voix',
+    imageLimitError: 'Vous pouvez ajouter jusqu’à {max} captures par analyse.',
+    imageDropHint: 'Déposez les captures pour les ajouter',
+    imageOrderHint: 'Les captures sont lues comme une seule conversation, dans cet ordre. Vous pouvez aussi en coller ou en glisser d’autres.',
+    moveImageEarlier: 'Déplacer avant',
+    moveImageLater: 'Déplacer après',
+    extractTranscript: 'Extraire la transcription pour la relire et la corriger',
+    extractingTranscript: 'Lecture des captures…',
+    transcriptEmpty: 'Aucune conversation n’a pu être lue sur ces captures.',
+    transcriptReviewHint: 'Cette conversation a été lue sur vos captures. Vérifiez les interlocuteurs et les messages et corrigez les erreurs de lecture avant l’analyse.',
+    turnTimestamp: 'Heure',
+    extensionBadgeTitle: 'Température du brouillon selon PeaceTalk. Cliquez pour voir les suggestions.',
+    extensionReplace: 'Remplacer par la suggestion',
+    extensionClose: 'Fermer',
+    extensionCalmHint: 'Ce brouillon semble calme. PeaceTalk vous aidera s’il s’échauffe.',
+    guardButton: 'Temps de pause',
+    guardSettingsTitle: 'Garde-fou de pause',
+    guardSettingsDescription: 'Quand un brouillon dépasse le seuil, sa copie est retenue le temps de prendre du recul. La reformulation proposée peut toujours être copiée.',
+    guardEnabled: 'Protéger les brouillons échauffés',
+    guardThreshold: 'Au-dessus de',
+    guardMode: 'Type',
+    guardModeTimer: 'Attendre un instant',
+    guardModeReflection: 'Répondre à une question',
+    guardModeCompare: 'Comparer avec la reformulation',
+    guardTimer: 'Durée',
+    guardLogSummary: 'Après une pause, vous avez copié la reformulation {rewrites} fois sur {total}.',
+    guardClearLog: 'Effacer',
+    guardTitle: 'Ce brouillon est échauffé. Prenez un moment avant de l’envoyer.',
+    guardTimerRunning: 'Respirez. Vous pourrez copier l’original dans {seconds} s.',
+    guardReflectionPrompt: 'Que voulez-vous que l’autre personne ressente en lisant votre message ?',
+    guardReflectionPlaceholder: 'Écrivez une phrase ou deux…',
+    guardOriginal: 'Votre brouillon',
+    guardSuggestion: 'Reformulation proposée',
+    guardCompareConfirm: 'J’ai lu les deux versions',
+    guardUnlocked: 'Vous pouvez maintenant copier l’original. Quelle version allez-vous envoyer ?',
+    guardCopyOriginal: 'Copier mon original',
+    guardCopyRewrite: 'Copier la reformulation',
+    showChanges: 'Voir les modifications',
+    hideChanges: 'Masquer les modifications',
+    diffOriginal: 'Votre brouillon',
+    diffSuggestion: 'Suggestion',
+    diffAdded: 'Ajouté',
+    diffRemoved: 'Supprimé',
+    diffReworded: 'Reformulé',
+    applyAndReanalyze: 'Appliquer et réanalyser',
+    refineSuggestion: 'Affiner',
+    refinePlaceholder: 'Demandez des changements, p. ex. « plus formel » ou « garde mon point sur l’échéance »',
+    versionChainTitle: 'Versions',
+    versionLabel: 'Version {number}',
+    recipientTitle: 'À qui est-ce destiné ?',
+    recipientAnyone: 'N’importe qui',
+    manageRecipients: 'Gérer les destinataires',
+    recipientManagerTitle: 'Profils de destinataires',
+    recipientManagerDescription: 'Décrivez les personnes à qui vous écrivez pour que les conseils et la réaction prévue leur correspondent. Les profils sont enregistrés dans ce navigateur.',
+    recipientNew: 'Nouveau profil',
+    recipientEmpty: 'Aucun profil pour l’instant. Ajoutez-en un pour votre responsable, votre partenaire ou toute personne à qui vous écrivez souvent.',
+    recipientEdit: 'Modifier',
+    recipientDelete: 'Supprimer le profil',
+    recipientName: 'Nom',
+    recipientNamePlaceholder: 'p. ex. Sam (ma responsable)',
+    recipientRelationship: 'Relation',
+    relationshipManager: 'Responsable',
+    relationshipColleague: 'Collègue',
+    relationshipReport: 'Collaborateur direct',
+    relationshipClient: 'Client',
+    relationshipPartner: 'Partenaire',
+    relationshipFamily: 'Famille',
+    relationshipChild: 'Enfant',
+    relationshipFriend: 'Ami(e)',
+    relationshipOther: 'Autre',
+    recipientFormality: 'Registre',
+    formalityCasual: 'Familier',
+    formalityNeutral: 'Neutre',
+    formalityFormal: 'Soutenu',
+    recipientCulture: 'Contexte culturel',
+    recipientCulturePlaceholder: 'p. ex. a grandi au Japon, préfère les demandes indirectes',
+    recipientSensitivities: 'Sujets sensibles',
+    recipientSensitivitiesPlaceholder: 'Sujets ou formulations qui passent mal',
+    recipientLanguage: 'Langue préférée',
+    recipientLanguageSame: 'Comme l’application',
+    recipientSave: 'Enregistrer',
+    recipientCancel: 'Annuler',
+    topicTooLong: 'Dans au moins une langue, le nom et l’instruction dépassent ensemble {max} caractères.',
   },
   ja: {
     languageName: '日本語',
@@ -212,7 +1030,6 @@ export const translations = {
     micNotSupportedError: 'お使いのブラウザは音声認識をサポートしていません。',
     analyzingFrame: 'フレームを分析中...',
     removeImage: '画像を削除',
-    imageSizeError: '画像サイズが大きすぎます。4MB未満のファイルをアップロードしてください。',
     imageLoadError: '画像の読み込みに失敗しました。もう一度お試しください。',
     loadingMessage: 'コミュニケーションの文脈を分析しています...',
     errorPrefix: 'エラー：',
@@ -238,6 +1055,211 @@ export const translations = {
     submitFeedback: 'フィードバックを送信',
     feedbackThanks: 'フィードバックありがとうございます！',
     emotionTrendTitle: '感情の傾向',
+    modeSingle: '単一メッセージ',
+    modeThread: '会話スレッド',
+    enterThread: '会話を1ターンずつ入力してください',
+    speakerPlaceholder: '話者',
+    turnMessagePlaceholder: '何と言いましたか？',
+    addTurn: 'ターンを追加',
+    removeTurn: 'ターンを削除',
+    pasteConversation: '会話を貼り付け',
+    pasteConversationPlaceholder: '1行に1メッセージ。例：\nたろう：いつも話を聞いてくれないよね。\nはなこ：それはひどいよ。',
+    pasteConversationButton: 'ターンに分割',
+    speakerMe: '自分',
+    speakerOther: '相手',
+    analyzeThreadButton: '会話を分析',
+    escalationPoint: 'エスカレーション地点',
+    speakerTrendTitle: '話者別の温度',
+    historyButton: '履歴',
+    historyTitle: '分析履歴',
+    historySearchPlaceholder: 'テキスト、感情、提案を検索...',
+    historyEmpty: '保存された分析はまだありません。',
+    historyOpen: '開く',
+    historyDelete: '履歴を削除',
+    historyCompare: '比較対象に選択',
+    historyCompareHint: '2件を選択すると並べて比較できます。',
+    historyClearAll: 'すべて削除',
+    exportFeedback: 'フィードバックを書き出す',
+    toneBrief: '簡潔',
+    toneWarm: '温かく',
+    toneAssertive: '毅然としつつ丁寧に',
+    toneFormal: 'フォーマル',
+    copySuggestion: 'コピー',
+    copied: 'コピーしました！',
+    errorInvalidResponse: 'AIが不完全な分析を返しました。もう一度お試しください。',
+    errorRateLimited: '現在リクエストが多すぎます。しばらく待ってから再度お試しください。',
+    errorUnavailable: '分析サービスは一時的に利用できません。後ほどお試しください。',
+    errorNetwork: '分析サーバーに接続できません。接続を確認して再度お試しください。',
+    errorBadRequest: 'この入力は分析できませんでした。テキストを短くするか、小さい画像をお試しください。',
+    errorMissingApiKey: '分析サーバーにAPIキーが設定されていません。',
+    errorUnknown: '分析中に問題が発生しました。もう一度お試しください。',
+    flaggedPhrasesTitle: '過熱した表現（ホバーで詳細）',
+    phraseBlame: '非難',
+    phraseAbsolute: '断定的な表現',
+    phraseSarcasm: '皮肉',
+    phraseInsult: '侮辱',
+    phraseRewrite: '置き換え',
+    phraseRemove: 'この表現を削除',
+    provisionalTemperature: '端末内のクイックチェック — まだAIによる分析前です',
+    screeningTitle: 'クイックチェック',
+    screeningNoFlags: '過熱した表現は見つかりませんでした。',
+    screeningCalmHint: '落ち着いた下書きのため、AIには送信していません。詳しいアドバイスが必要な場合は「トーンを分析」を押してください。',
+    screeningEscalatingHint: '過熱した下書きのようです。入力を止めるとAIが分析します。',
+    flagProfanity: '暴言',
+    flagAllCaps: '大文字',
+    flagAbsolute: '断定的な表現',
+    flagBlame: '非難',
+    manageTopics: '+ トピックを管理',
+    topicTryExample: '例を試す：',
+    topicManagerTitle: 'コーチングのトピック',
+    topicNew: '新しいトピック',
+    topicEdit: '編集',
+    topicDelete: 'トピックを削除',
+    topicReset: '初期設定に戻す',
+    topicImport: 'インポート',
+    topicExport: 'エクスポート',
+    topicIcon: 'アイコン',
+    topicName: '名前',
+    topicInstruction: 'コーチングの指示',
+    topicInstructionPlaceholder: 'コーチが特に注意すべき点は何ですか？一般的なコーチングの場合は空欄のままにしてください。',
+    topicExamples: '入力例（1行に1つ）',
+    topicExamplesPlaceholder: '例：なぜまた遅れているのですか？',
+    topicEditingLanguage: '編集する言語',
+    topicSave: '保存',
+    topicCancel: 'キャンセル',
+    topicImportError: 'このファイルには有効なコーチングのトピックが含まれていません。',
+    exportReport: 'レポートを書き出す',
+    reportTitle: 'PeaceTalk 会話レポート',
+    reportGeneratedAt: '作成日時',
+    reportInput: '分析したテキスト',
+    reportAlternatives: 'その他のバージョン',
+    screenShareError: '画面共有を開始できませんでした。権限が許可されているか確認してください。',
+    cropHint: '映像上をドラッグしてチャット領域だけを指定します。',
+    cropClear: '画面全体を監視',
+    monitorInterval: '確認間隔',
+    monitorSeconds: '{seconds}秒',
+    monitorSensitivity: '感度',
+    sensitivityLow: '低',
+    sensitivityMedium: '中',
+    sensitivityHigh: '高',
+    monitorUnchanged: '変化なし · {seconds}秒後に再確認',
+    monitorRetrying: '分析に失敗 · {seconds}秒後に再試行',
+    alertsButton: 'アラート',
+    alertSettingsTitle: 'エスカレーション通知',
+    alertSettingsDescription: '画面共有や録音中に会話が過熱すると、一息つくよう通知します。',
+    alertRuleAbove: '温度が次を超えた',
+    alertRuleRise: '温度の上昇幅',
+    alertRuleEmotion: '感情が次のいずれか',
+    alertPointsWithin: 'ポイント / 直近',
+    alertAnalyses: '回の分析',
+    alertEmotionsPlaceholder: '例: Contempt, Hostility',
+    alertAddRule: 'ルールを追加',
+    alertDeleteRule: 'ルールを削除',
+    alertNotifications: 'ブラウザ通知',
+    alertSound: '音を鳴らす',
+    alertCooldown: '通知の最小間隔',
+    alertMinutes: '{minutes}分',
+    alertNotificationsBlocked: 'ブラウザで通知がブロックされています。サイト設定で許可してください。',
+    alertTitle: '返信する前に一息つきましょう',
+    alertMessage: '会話が過熱しています。深呼吸して、返信する前に提案を読んでください。',
+    alertReasonAbove: '温度が{temperature}°Cで、{threshold}°Cを超えています',
+    alertReasonRise: '直近{count}回の分析で温度が{points}ポイント上昇しました',
+    alertReasonEmotion: '{emotion}を検出しました',
+    alertDismiss: '閉じる',
+    modeVoice: '音声会話',
+    voiceConversationHint: '話し言葉の会話を録音します。話している人を選ぶと、各発話が終わるたびに分析されます。',
+    voiceNowSpeaking: '話している人:',
+    voiceEmpty: '話すと、ここに発話ごとに表示されます。',
+    voiceListening: '聞き取り中…',
+    voiceRetagSpeaker: 'この発話の話者',
+    vocalToneOption: '録音時に声のトーンも分析',
+    vocalToneHint: '録音そのものを送信し、言葉に加えて音量・速さ・抑揚を評価します。',
+    vocalClipAttached: '音声録音を添付済み({seconds}秒)',
+    vocalClipRemove: '音声録音を削除',
+    textTemperature: '言葉',
+    vocalTemperature: '声',
+    imageLimitError: '1回の分析に追加できるスクリーンショットは最大{max}枚です。',
+    imageDropHint: 'ドロップしてスクリーンショットを追加',
+    imageOrderHint: 'スクリーンショットはこの順番で1つの会話として読み取られます。貼り付けやドラッグで追加もできます。',
+    moveImageEarlier: '前へ移動',
+    moveImageLater: '後ろへ移動',
+    extractTranscript: '会話を書き起こして確認・編集',
+    extractingTranscript: 'スクリーンショットを読み取り中…',
+    transcriptEmpty: 'これらのスクリーンショットから会話を読み取れませんでした。',
+    transcriptReviewHint: 'この会話はスクリーンショットから読み取られました。分析の前に話者とメッセージを確認し、読み違いを修正してください。',
+    turnTimestamp: '時刻',
+    extensionBadgeTitle: 'PeaceTalkによる下書きの温度。クリックで提案を表示。',
+    extensionReplace: '提案に置き換える',
+    extensionClose: '閉じる',
+    extensionCalmHint: 'この下書きは穏やかです。熱くなってきたらPeaceTalkがアドバイスします。',
+    guardButton: 'クールダウン',
+    guardSettingsTitle: 'クールダウン設定',
+    guardSettingsDescription: '下書きの温度がしきい値を超えると、少し間を置くまで原文をコピーできなくなります。提案された書き換えはいつでもコピーできます。',
+    guardEnabled: '熱い下書きをガードする',
+    guardThreshold: 'しきい値',
+    guardMode: '方法',
+    guardModeTimer: '少し待つ',
+    guardModeReflection: '問いに答える',
+    guardModeCompare: '書き換えと比べる',
+    guardTimer: '待ち時間',
+    guardLogSummary: 'クールダウン後、{total}回中{rewrites}回は書き換えをコピーしました。',
+    guardClearLog: '消去',
+    guardTitle: 'この下書きは熱くなっています。送る前に少し間を置きましょう。',
+    guardTimerRunning: '深呼吸しましょう。{seconds}秒後に原文をコピーできます。',
+    guardReflectionPrompt: 'メッセージを読んだ相手に、どんな気持ちになってほしいですか?',
+    guardReflectionPlaceholder: '1、2文で書いてみましょう…',
+    guardOriginal: 'あなたの下書き',
+    guardSuggestion: '提案された書き換え',
+    guardCompareConfirm: '両方を読みました',
+    guardUnlocked: '原文をコピーできるようになりました。どちらを送りますか?',
+    guardCopyOriginal: '原文をコピー',
+    guardCopyRewrite: '書き換えをコピー',
+    showChanges: '変更点を表示',
+    hideChanges: '変更点を隠す',
+    diffOriginal: 'あなたの下書き',
+    diffSuggestion: '提案',
+    diffAdded: '追加',
+    diffRemoved: '削除',
+    diffReworded: '言い換え',
+    applyAndReanalyze: '適用して再分析',
+    refineSuggestion: '調整',
+    refinePlaceholder: '変更を依頼してください(例:「もっと丁寧に」「締め切りの話は残して」)',
+    versionChainTitle: 'バージョン',
+    versionLabel: 'バージョン {number}',
+    recipientTitle: '誰に送りますか?',
+    recipientAnyone: '指定なし',
+    manageRecipients: '相手を管理',
+    recipientManagerTitle: '相手のプロフィール',
+    recipientManagerDescription: 'よく連絡する相手を登録すると、アドバイスと予想される反応がその人に合わせられます。プロフィールはこのブラウザに保存されます。',
+    recipientNew: '新しいプロフィール',
+    recipientEmpty: 'まだプロフィールがありません。上司やパートナーなど、よく連絡する相手を追加しましょう。',
+    recipientEdit: '編集',
+    recipientDelete: 'プロフィールを削除',
+    recipientName: '名前',
+    recipientNamePlaceholder: '例:佐藤さん(上司)',
+    recipientRelationship: '関係',
+    relationshipManager: '上司',
+    relationshipColleague: '同僚',
+    relationshipReport: '部下',
+    relationshipClient: '顧客',
+    relationshipPartner: 'パートナー',
+    relationshipFamily: '家族',
+    relationshipChild: '子ども',
+    relationshipFriend: '友人',
+    relationshipOther: 'その他',
+    recipientFormality: '丁寧さ',
+    formalityCasual: 'カジュアル',
+    formalityNeutral: '普通',
+    formalityFormal: '丁寧',
+    recipientCulture: '文化的背景',
+    recipientCulturePlaceholder: '例:遠回しな頼み方を好む',
+    recipientSensitivities: '気にしやすい点',
+    recipientSensitivitiesPlaceholder: '受け取り方が悪くなりがちな話題や言い回し',
+    recipientLanguage: '希望する言語',
+    recipientLanguageSame: 'アプリと同じ',
+    recipientSave: '保存',
+    recipientCancel: 'キャンセル',
+    topicTooLong: '少なくとも1つの言語で、名前と指示の合計が{max}文字を超えています。',
   },
   zh: {
     languageName: '简体中文',
@@ -260,7 +1282,6 @@ export const translations = {
     micNotSupportedError: '您的浏览器不支持语音识别。',
     analyzingFrame: '正在分析画面...',
     removeImage: '移除图片',
-    imageSizeError: '图片太大。请上传小于4MB的文件。',
     imageLoadError: '加载图片失败。请重试。',
     loadingMessage: '正在分析沟通背景...',
     errorPrefix: '错误：',
@@ -286,7 +1307,223 @@ export const translations = {
     submitFeedback: '提交反馈',
     feedbackThanks: '感谢您的反馈！',
     emotionTrendTitle: '情绪趋势',
+    modeSingle: '单条消息',
+    modeThread: '对话线程',
+    enterThread: '逐轮输入对话',
+    speakerPlaceholder: '说话人',
+    turnMessagePlaceholder: '说了什么？',
+    addTurn: '添加一轮',
+    removeTurn: '删除此轮',
+    pasteConversation: '粘贴对话',
+    pasteConversationPlaceholder: '每行一条消息，例如：\n小明：你从来不听我说话。\n小红：这不公平。',
+    pasteConversationButton: '拆分为多轮',
+    speakerMe: '我',
+    speakerOther: '对方',
+    analyzeThreadButton: '分析对话',
+    escalationPoint: '冲突升级点',
+    speakerTrendTitle: '各说话人的温度',
+    historyButton: '历史记录',
+    historyTitle: '分析历史',
+    historySearchPlaceholder: '搜索文本、情绪或建议...',
+    historyEmpty: '暂无已保存的分析。',
+    historyOpen: '打开',
+    historyDelete: '删除记录',
+    historyCompare: '选择以进行比较',
+    historyCompareHint: '勾选两条记录即可并排比较。',
+    historyClearAll: '全部清除',
+    exportFeedback: '导出反馈',
+    toneBrief: '简洁',
+    toneWarm: '温暖',
+    toneAssertive: '坚定而尊重',
+    toneFormal: '正式',
+    copySuggestion: '复制',
+    copied: '已复制！',
+    errorInvalidResponse: 'AI 返回的分析不完整，请重试。',
+    errorRateLimited: '当前请求过多，请稍后再试。',
+    errorUnavailable: '分析服务暂时不可用，请稍后再试。',
+    errorNetwork: '无法连接到分析服务器，请检查网络连接后重试。',
+    errorBadRequest: '无法分析此输入，请尝试缩短文本或使用更小的图片。',
+    errorMissingApiKey: '分析服务器未配置 API 密钥。',
+    errorUnknown: '分析时出现问题，请重试。',
+    flaggedPhrasesTitle: '激烈的措辞（悬停查看详情）',
+    phraseBlame: '指责',
+    phraseAbsolute: '绝对化',
+    phraseSarcasm: '讽刺',
+    phraseInsult: '侮辱',
+    phraseRewrite: '替换为',
+    phraseRemove: '删除此措辞',
+    provisionalTemperature: '本地快速检查——尚未经过 AI 分析',
+    screeningTitle: '快速检查',
+    screeningNoFlags: '未发现激烈的措辞。',
+    screeningCalmHint: '此草稿看起来很平和，因此未发送给 AI。点击“分析语气”以获取完整建议。',
+    screeningEscalatingHint: '此草稿看起来较为激烈。停止输入后 AI 将进行分析。',
+    flagProfanity: '粗话',
+    flagAllCaps: '全大写',
+    flagAbsolute: '绝对化',
+    flagBlame: '指责',
+    manageTopics: '+ 管理主题',
+    topicTryExample: '试试示例：',
+    topicManagerTitle: '辅导主题',
+    topicNew: '新建主题',
+    topicEdit: '编辑',
+    topicDelete: '删除主题',
+    topicReset: '恢复默认',
+    topicImport: '导入',
+    topicExport: '导出',
+    topicIcon: '图标',
+    topicName: '名称',
+    topicInstruction: '辅导说明',
+    topicInstructionPlaceholder: '教练需要特别关注什么？留空则进行一般辅导。',
+    topicExamples: '示例输入（每行一个）',
+    topicExamplesPlaceholder: '例如：为什么又迟了？',
+    topicEditingLanguage: '编辑语言',
+    topicSave: '保存',
+    topicCancel: '取消',
+    topicImportError: '该文件不包含有效的辅导主题。',
+    exportReport: '导出报告',
+    reportTitle: 'PeaceTalk 对话报告',
+    reportGeneratedAt: '生成时间',
+    reportInput: '分析的文本',
+    reportAlternatives: '其他版本',
+    screenShareError: '无法开始屏幕共享。请确认已授予权限。',
+    cropHint: '在视频上拖动以仅关注聊天区域。',
+    cropClear: '关注整个屏幕',
+    monitorInterval: '检查间隔',
+    monitorSeconds: '{seconds}秒',
+    monitorSensitivity: '灵敏度',
+    sensitivityLow: '低',
+    sensitivityMedium: '中',
+    sensitivityHigh: '高',
+    monitorUnchanged: '无变化 · {seconds}秒后再次检查',
+    monitorRetrying: '分析失败 · {seconds}秒后重试',
+    alertsButton: '提醒',
+    alertSettingsTitle: '升级提醒',
+    alertSettingsDescription: '在共享屏幕或录音时,当对话升温时提醒你先停一停。',
+    alertRuleAbove: '温度高于',
+    alertRuleRise: '温度上升',
+    alertRuleEmotion: '情绪属于',
+    alertPointsWithin: '点,在最近',
+    alertAnalyses: '次分析内',
+    alertEmotionsPlaceholder: '例如 Contempt, Hostility',
+    alertAddRule: '添加规则',
+    alertDeleteRule: '删除规则',
+    alertNotifications: '浏览器通知',
+    alertSound: '播放提示音',
+    alertCooldown: '提醒最短间隔',
+    alertMinutes: '{minutes}分钟',
+    alertNotificationsBlocked: '浏览器已阻止通知。请在网站设置中允许后再启用此选项。',
+    alertTitle: '回复前先停一停',
+    alertMessage: '对话正在升温。深呼吸,回复前先看看建议。',
+    alertReasonAbove: '温度为{temperature}°C,高于{threshold}°C',
+    alertReasonRise: '温度在{count}次分析内上升了{points}点',
+    alertReasonEmotion: '检测到{emotion}',
+    alertDismiss: '关闭',
+    modeVoice: '语音对话',
+    voiceConversationHint: '录制口头对话。标记当前说话的人,每段话结束后会立即分析。',
+    voiceNowSpeaking: '当前说话人:',
+    voiceEmpty: '说话内容会按段显示在这里。',
+    voiceListening: '正在聆听…',
+    voiceRetagSpeaker: '这段话的说话人',
+    vocalToneOption: '录音时分析语气',
+    vocalToneHint: '会发送录音本身,在文字之外评估音量、语速和语调。',
+    vocalClipAttached: '已附加录音({seconds}秒)',
+    vocalClipRemove: '移除录音',
+    textTemperature: '文字',
+    vocalTemperature: '语音',
+    imageLimitError: '每次分析最多可添加 {max} 张截图。',
+    imageDropHint: '松开即可添加截图',
+    imageOrderHint: '截图会按此顺序作为一段对话读取。也可以粘贴或拖入更多截图。',
+    moveImageEarlier: '前移',
+    moveImageLater: '后移',
+    extractTranscript: '提取对话文字以便检查和编辑',
+    extractingTranscript: '正在读取截图…',
+    transcriptEmpty: '无法从这些截图中读取对话。',
+    transcriptReviewHint: '此对话读取自你的截图。分析前请检查说话人和消息,并修正识别错误。',
+    turnTimestamp: '时间',
+    extensionBadgeTitle: 'PeaceTalk 草稿温度。点击查看建议。',
+    extensionReplace: '替换为建议',
+    extensionClose: '关闭',
+    extensionCalmHint: '这份草稿看起来很平和。如果语气变激烈,PeaceTalk 会给出建议。',
+    guardButton: '冷静模式',
+    guardSettingsTitle: '冷静模式设置',
+    guardSettingsDescription: '草稿温度超过阈值时,需要先冷静片刻才能复制原文。建议的改写随时可以复制。',
+    guardEnabled: '拦截激烈的草稿',
+    guardThreshold: '温度高于',
+    guardMode: '方式',
+    guardModeTimer: '等待片刻',
+    guardModeReflection: '回答一个反思问题',
+    guardModeCompare: '与改写对比',
+    guardTimer: '等待',
+    guardLogSummary: '冷静之后,你在 {total} 次中有 {rewrites} 次复制了改写。',
+    guardClearLog: '清除',
+    guardTitle: '这份草稿语气激烈。发送前先冷静一下。',
+    guardTimerRunning: '深呼吸。{seconds} 秒后可以复制原文。',
+    guardReflectionPrompt: '你希望对方读完消息后有什么感受?',
+    guardReflectionPlaceholder: '写一两句话…',
+    guardOriginal: '你的草稿',
+    guardSuggestion: '建议的改写',
+    guardCompareConfirm: '我已阅读两个版本',
+    guardUnlocked: '现在可以复制原文了。你要发送哪个版本?',
+    guardCopyOriginal: '复制原文',
+    guardCopyRewrite: '复制改写',
+    showChanges: '查看改动',
+    hideChanges: '隐藏改动',
+    diffOriginal: '你的草稿',
+    diffSuggestion: '建议',
+    diffAdded: '新增',
+    diffRemoved: '删除',
+    diffReworded: '改写',
+    applyAndReanalyze: '应用并重新分析',
+    refineSuggestion: '调整',
+    refinePlaceholder: '提出修改要求,例如“更正式一些”或“保留我关于截止日期的观点”',
+    versionChainTitle: '版本',
+    versionLabel: '版本 {number}',
+    recipientTitle: '发给谁?',
+    recipientAnyone: '任何人',
+    manageRecipients: '管理收件人',
+    recipientManagerTitle: '收件人档案',
+    recipientManagerDescription: '描述你常联系的人，让建议和预测的反应更贴合对方。档案保存在此浏览器中。',
+    recipientNew: '新建档案',
+    recipientEmpty: '还没有档案。为上司、伴侣或常联系的人添加一个吧。',
+    recipientEdit: '编辑',
+    recipientDelete: '删除档案',
+    recipientName: '名称',
+    recipientNamePlaceholder: '例如:王经理',
+    recipientRelationship: '关系',
+    relationshipManager: '上司',
+    relationshipColleague: '同事',
+    relationshipReport: '下属',
+    relationshipClient: '客户',
+    relationshipPartner: '伴侣',
+    relationshipFamily: '家人',
+    relationshipChild: '孩子',
+    relationshipFriend: '朋友',
+    relationshipOther: '其他',
+    recipientFormality: '正式程度',
+    formalityCasual: '随意',
+    formalityNeutral: '一般',
+    formalityFormal: '正式',
+    recipientCulture: '文化背景',
+    recipientCulturePlaceholder: '例如:在日本长大，喜欢委婉的请求',
+    recipientSensitivities: '敏感点',
+    recipientSensitivitiesPlaceholder: '容易引起反感的话题或措辞',
+    recipientLanguage: '偏好语言',
+    recipientLanguageSame: '与应用相同',
+    recipientSave: '保存',
+    recipientCancel: '取消',
+    topicTooLong: '至少有一种语言的名称和说明合计超过 {max} 个字符。',
   },
 };
 
 export type Language = keyof typeof translations;
+
+/** The message shown for each analysis error code. */
+export const errorMessageKeys: { [key in AnalysisErrorCode]: keyof typeof translations.en } = {
+    'invalid-response': 'errorInvalidResponse',
+    'rate-limited': 'errorRateLimited',
+    'unavailable': 'errorUnavailable',
+    'network': 'errorNetwork',
+    'bad-request': 'errorBadRequest',
+    'missing-api-key': 'errorMissingApiKey',
+    'unknown': 'errorUnknown',
+};
@@ -1,10 +1,241 @@
+export interface RecipientImpact {
+  predictedFeeling: string;
+  impactExplanation: string;
+}
+
+export type SuggestionTone = 'brief' | 'warm' | 'assertive' | 'formal';
+
+export interface SuggestionAlternative {
+  tone: SuggestionTone;
+  suggestion: string;
+  explanation: string;
+  recipientImpact: RecipientImpact;
+}
+
+export type PhraseCategory = 'blame' | 'absolute' | 'sarcasm' | 'insult';
+
+/** An inflammatory phrase in the analyzed text. */
+export interface FlaggedPhrase {
+  /** Character offsets into the analyzed text; `end` is exclusive. */
+  start: number;
+  end: number;
+  text: string;
+  category: PhraseCategory;
+  /** How much this phrase alone heats up the message, 0-100. */
+  heat: number;
+  explanation: string;
+  /** A calmer drop-in replacement for just this phrase. */
+  rewrite?: string;
+}
+
 export interface AnalysisResult {
   temperature: number;
   emotion: string;
+  /** The top-ranked suggestion; mirrors `alternatives[0]` when alternatives are present. */
   suggestion: string;
   explanation: string;
-  recipientImpact: {
-    predictedFeeling: string;
-    impactExplanation: string;
-  };
+  recipientImpact: RecipientImpact;
+  /** Rewrites in different tones, ranked best first. */
+  alternatives?: SuggestionAlternative[];
+  /** Present only when a conversation thread was analyzed, one entry per turn. */
+  turns?: TurnAnalysis[];
+  /** Problematic phrases in the input text, in text order and non-overlapping. */
+  phrases?: FlaggedPhrase[];
+  /** Present only when a voice recording was analyzed along with the text. */
+  vocal?: VocalAnalysis;
+}
+
+/** How something sounded, as opposed to what was said. */
+export interface VocalAnalysis {
+  temperature: number;
+  /** Short observations such as "raised volume" or "sarcastic intonation". */
+  cues: string[];
+}
+
+/** What has arrived so far while an analysis is still streaming in. */
+export type PartialAnalysisResult = Partial<Omit<AnalysisResult, 'recipientImpact'>> & {
+  recipientImpact?: Partial<RecipientImpact>;
+};
+
+export interface ConversationTurn {
+  speaker: string;
+  text: string;
+  /** As shown in the source, e.g. "10:42 PM"; only set for transcripts read from screenshots. */
+  timestamp?: string;
+}
+
+export interface TurnAnalysis {
+  speaker: string;
+  temperature: number;
+  emotion: string;
+  /** True when this turn noticeably heats up the conversation. */
+  isEscalation: boolean;
+}
+
+export type LocalizedText = { [language: string]: string };
+export type LocalizedList = { [language: string]: string[] };
+
+export interface CoachingTopic {
+  id: string;
+  /** An emoji shown next to the name. */
+  icon: string;
+  name: LocalizedText;
+  /** Extra coaching focus for the model, per language; empty for plain coaching. */
+  instructions: LocalizedText;
+  /** Sample drafts users can try the topic with, per language. */
+  examples: LocalizedList;
+}
+
+/** A topic resolved for one language, as sent along with an analysis. */
+export interface TopicInstruction {
+  name: string;
+  instruction: string;
+}
+
+export type RelationshipType = 'manager' | 'colleague' | 'report' | 'client' | 'partner' | 'family' | 'child' | 'friend' | 'other';
+
+export type Formality = 'casual' | 'neutral' | 'formal';
+
+/** Someone the user writes to; shapes the advice and the predicted reaction. */
+export interface RecipientProfile {
+  id: string;
+  name: string;
+  relationship: RelationshipType;
+  formality: Formality;
+  /** Free text, e.g. "grew up in Japan, prefers indirect requests". */
+  culturalContext: string;
+  /** Topics or phrasings known to land badly with this person. */
+  sensitivities: string;
+  /** Language code the suggestion should be written in; empty for the app language. */
+  preferredLanguage: string;
+}
+
+/** A recipient profile as sent along with an analysis. */
+export type RecipientContext = Omit<RecipientProfile, 'id'>;
+
+export interface ImageAttachment {
+  base64: string;
+  mimeType: string;
+}
+
+/** A follow-up on the suggestion given for the same input, e.g. "make it shorter". */
+export interface SuggestionRefinement {
+  /** The suggestion being refined, as returned in the previous turn. */
+  suggestion: string;
+  explanation: string;
+  instruction: string;
+}
+
+export interface AnalysisRequest {
+  text: string;
+  language: string;
+  socialTopic: string;
+  /** Overrides the server's built-in instruction for `socialTopic`, e.g. for custom topics. */
+  topic?: TopicInstruction;
+  /** Screenshots of one conversation, in reading order. */
+  images?: ImageAttachment[];
+  /** A recording of the spoken text, for vocal cues the words alone do not carry. */
+  audioBase64?: string;
+  audioMimeType?: string;
+  turns?: ConversationTurn[];
+  refinement?: SuggestionRefinement;
+  recipient?: RecipientContext;
+}
+
+/** One step of rewriting a draft: the text as it stood and how heated it scored. */
+export interface DraftVersion {
+  text: string;
+  temperature: number;
+  /** The follow-up instruction behind the suggestion this version was taken from. */
+  instruction?: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  mode: 'single' | 'thread';
+  text: string;
+  turns?: ConversationTurn[];
+  /** Images are not persisted, only whether one was part of the analysis. */
+  hadImage: boolean;
+  language: string;
+  socialTopic: string;
+  /** The recipient profile the analysis was written for, if any. */
+  recipientId?: string;
+  result: AnalysisResult;
+  /** The single draft's versions, oldest first; the last one is `text`. */
+  versions?: DraftVersion[];
+}
+
+export type FeedbackRating = 'like' | 'dislike';
+
+export interface FeedbackRecord {
+  id: string;
+  createdAt: number;
+  originalText: string;
+  suggestion: string;
+  socialTopic: string;
+  language: string;
+  rating: FeedbackRating;
+  comment?: string;
+  /** Which alternative the feedback is about, when alternatives were offered. */
+  tone?: SuggestionTone;
+  /** Upload state when a feedback endpoint is configured. */
+  syncStatus: 'pending' | 'synced' | 'rejected';
+}
+
+export type AlertRule =
+  | { id: string; enabled: boolean; type: 'temperature-above'; threshold: number }
+  /** Fires when the temperature rose by `points` within the last `window` analyses, the latest included. */
+  | { id: string; enabled: boolean; type: 'temperature-rise'; points: number; window: number }
+  | { id: string; enabled: boolean; type: 'emotion'; emotions: string[] };
+
+export type AlertRuleType = AlertRule['type'];
+
+/** When and how live monitoring nudges the user to pause. */
+export interface AlertSettings {
+  rules: AlertRule[];
+  notifications: boolean;
+  sound: boolean;
+  /** Minimum time between two alerts. */
+  cooldownMs: number;
+}
+
+/** Screenshots of a chat to read back as conversation turns. */
+export interface TranscriptExtractionRequest {
+  images: ImageAttachment[];
+  /** Speaker name for the user's own messages, which chat apps show without a name. */
+  selfSpeaker: string;
+}
+
+/** A recorded audio clip to turn into text. */
+export interface TranscriptionRequest {
+  audioBase64: string;
+  mimeType: string;
+  /** BCP 47 tag of the spoken language, e.g. "en-US". */
+  language: string;
+}
+
+export type CoolDownMode = 'timer' | 'reflection' | 'compare';
+
+/** Holds back copying a heated draft until the user has paused on it. */
+export interface GuardSettings {
+  enabled: boolean;
+  /** Drafts hotter than this are guarded. */
+  threshold: number;
+  mode: CoolDownMode;
+  /** How long the 'timer' cool-down lasts. */
+  timerSeconds: number;
+}
+
+export type GuardChoice = 'original' | 'rewrite';
+
+/** What the user copied out of a guarded draft. */
+export interface GuardLogEntry {
+  id: string;
+  createdAt: number;
+  temperature: number;
+  mode: CoolDownMode;
+  choice: GuardChoice;
 }
@@ -8,11 +8,18 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The Gemini key lives only in the API server (`npm run server`).
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER || ''),
+        'process.env.ANALYSIS_API_URL': JSON.stringify(env.ANALYSIS_API_URL || ''),
+        'process.env.FEEDBACK_ENDPOINT': JSON.stringify(env.FEEDBACK_ENDPOINT || ''),
+        'process.env.SPEECH_TO_TEXT': JSON.stringify(env.SPEECH_TO_TEXT || ''),
+        'process.env.SPEECH_MODEL_URL': JSON.stringify(env.SPEECH_MODEL_URL || '')
       },
       resolve: {
         alias: {
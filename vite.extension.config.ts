@@ -0,0 +1,62 @@
+import path from 'path';
+import { readFileSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+
+const DEFAULT_API_URL = 'http://localhost:8787/api';
+
+// The content script reads drafts on every site, but only the background
+// worker talks to the network, and only to the API server this build targets.
+const emitManifest = (apiUrl: string): Plugin => ({
+  name: 'peacetalk-extension-manifest',
+  generateBundle() {
+    const manifest = JSON.parse(readFileSync(path.resolve(__dirname, 'extension/manifest.json'), 'utf-8'));
+    manifest.host_permissions = [`${new URL(apiUrl).origin}/*`];
+    this.emitFile({ type: 'asset', fileName: 'manifest.json', source: JSON.stringify(manifest, null, 2) });
+  },
+});
+
+// Chrome loads content scripts as classic scripts, so each entry is built on
+// its own into one self-contained file: `--mode content`, then `--mode background`.
+export default defineConfig(({ mode }) => {
+    const env = loadEnv(mode, '.', '');
+    const entry = mode === 'background' ? 'extension/background.ts' : 'extension/content.tsx';
+    const isContent = mode !== 'background';
+    const apiUrl = env.ANALYSIS_API_URL || DEFAULT_API_URL;
+    return {
+      plugins: isContent ? [react(), emitManifest(apiUrl)] : [react()],
+      publicDir: false,
+      define: {
+        'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER || ''),
+        'process.env.ANALYSIS_API_URL': JSON.stringify(apiUrl),
+        'process.env.FEEDBACK_ENDPOINT': JSON.stringify(env.FEEDBACK_ENDPOINT || ''),
+        'process.env.SPEECH_TO_TEXT': JSON.stringify(env.SPEECH_TO_TEXT || ''),
+        'process.env.SPEECH_MODEL_URL': JSON.stringify(env.SPEECH_MODEL_URL || '')
+      },
+      css: {
+        postcss: {
+          // The app gets Tailwind from its CDN script, which extensions may not load.
+          plugins: [tailwindcss({ content: ['./extension/**/*.tsx', './components/**/*.tsx'] })],
+        },
+      },
+      build: {
+        outDir: 'dist-extension',
+        emptyOutDir: isContent,
+        modulePreload: false,
+        rollupOptions: {
+          input: path.resolve(__dirname, entry),
+          output: {
+            format: 'iife',
+            entryFileNames: isContent ? 'content.js' : 'background.js',
+            inlineDynamicImports: true,
+          },
+        },
+      },
+      resolve: {
+        alias: {
+          '@': path.resolve(__dirname, '.'),
+        }
+      }
+    };
+});